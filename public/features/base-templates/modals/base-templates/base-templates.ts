@@ -0,0 +1,210 @@
+/**
+ * Base Templates Modal
+ *
+ * Lists the base templates publishers can extend.
+ * Features:
+ * - Shows the template each one extends and the configurations that extend it.
+ * - Opens a template in the editor, where it is edited like a publisher configuration.
+ * - Lets admins create a new, empty template.
+ */
+
+import { Component, TemplateInfo } from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+import { api } from "../../../../shared/api-client.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import { SnackbarType, UserRole } from "../../../../shared/enums.js";
+import { hasRole } from "../../../../shared/session.js";
+
+/**
+ * A modal listing the base templates.
+ */
+export class BaseTemplates implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  /** Called with the filename of the template to open. */
+  onOpen: (filename: string) => void;
+  /** The templates, as last loaded from the server (null until loaded). */
+  private templates: TemplateInfo[] | null = null;
+
+  /**
+   * Creates an instance of BaseTemplates.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   * @param onOpen - Called with the filename of the template to open.
+   */
+  constructor(rootElement: HTMLElement, onOpen: (filename: string) => void) {
+    this.rootElement = rootElement;
+    this.onOpen = onOpen;
+
+    this.componentElement = createElementWithClasses("div", [
+      "base-templates-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private async init() {
+    this.render();
+    this.mount();
+    await this.loadTemplates();
+  }
+
+  render() {
+    this.componentElement.innerHTML = `
+      <div class="base-templates-modal">
+        <h3 class="base-templates-modal__header">Base templates</h3>
+        <p class="base-templates-modal__summary"></p>
+        <ul class="base-templates-modal__list"></ul>
+        <form class="base-templates-modal__form">
+          <input type="text" id="base-template-name-input" class="base-input base-templates-modal__input" placeholder="New template name, e.g. news-sites" />
+          <button type="submit" class="base-templates-modal__btn base-templates-modal__btn--primary base-button">Create</button>
+        </form>
+        <div class="base-templates-modal__footer">
+          <button class="base-templates-modal__btn base-button" id="base-templates-close-btn">Close</button>
+        </div>
+      </div>
+    `;
+
+    const summary = this.componentElement.querySelector(
+      ".base-templates-modal__summary"
+    ) as HTMLElement;
+    if (this.templates === null) {
+      summary.textContent = "Loading templates...";
+    } else if (this.templates.length === 0) {
+      summary.textContent = "There are no templates yet.";
+    } else {
+      summary.textContent =
+        "Publishers name a template in 'extends' and inherit its values. Changes to a template apply to every publisher extending it.";
+    }
+
+    const list = this.componentElement.querySelector(
+      ".base-templates-modal__list"
+    ) as HTMLElement;
+    (this.templates || []).forEach((template) =>
+      list.appendChild(this.renderTemplate(template))
+    );
+
+    const form = this.componentElement.querySelector(
+      ".base-templates-modal__form"
+    ) as HTMLElement;
+    // Only admins create templates; editors change them like any configuration
+    form.hidden = !hasRole(UserRole.ADMIN);
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+  }
+
+  attachEvents() {
+    this.componentElement
+      .querySelector("#base-templates-close-btn")
+      ?.addEventListener("click", () => this.destroy());
+
+    this.componentElement
+      .querySelector(".base-templates-modal__form")
+      ?.addEventListener("submit", (e) => {
+        e.preventDefault();
+        this.createTemplate();
+      });
+
+    this.componentElement.addEventListener("click", (e) => {
+      if (e.target === this.componentElement) this.destroy();
+    });
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+
+  /**
+   * Renders a single template with its Open button.
+   * @param template - The template.
+   * @returns The row element.
+   */
+  private renderTemplate(template: TemplateInfo) {
+    const row = createElementWithClasses("li", [
+      "base-templates-modal__template",
+    ]);
+
+    const text = createElementWithClasses("div", [
+      "base-templates-modal__text",
+    ]);
+    const name = createElementWithClasses("div", [
+      "base-templates-modal__name",
+    ]);
+    name.textContent = template.extends
+      ? `${template.name} (extends ${template.extends})`
+      : template.name;
+    const usage = createElementWithClasses("div", [
+      "base-templates-modal__usage",
+    ]);
+    usage.textContent =
+      template.usedBy.length > 0
+        ? `Extended by ${template.usedBy.join(", ")}`
+        : "Not extended yet";
+    text.append(name, usage);
+    row.appendChild(text);
+
+    const openButton = createElementWithClasses("button", [
+      "base-templates-modal__btn",
+      "base-button",
+    ]);
+    openButton.textContent = "Open";
+    openButton.addEventListener("click", () => {
+      this.destroy();
+      this.onOpen(template.file);
+    });
+    row.appendChild(openButton);
+
+    return row;
+  }
+
+  /**
+   * Loads the templates and re-renders the list.
+   */
+  private async loadTemplates() {
+    try {
+      const res = await api.get("/api/templates");
+      if (!res.ok) throw new Error("Failed to load templates");
+      this.templates = await res.json();
+      this.render();
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to load templates", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Creates an empty template with the entered name and opens it.
+   */
+  private async createTemplate() {
+    const input = this.componentElement.querySelector(
+      "#base-template-name-input"
+    ) as HTMLInputElement;
+    const name = input.value.trim();
+    if (!name) return;
+
+    const res = await api.post("/api/templates", { name });
+    const body = await res.json();
+
+    if (!res.ok) {
+      const detail = body.details?.[0];
+      new Snackbar(
+        detail ? `Name ${detail.message}` : body.error,
+        SnackbarType.ERROR
+      );
+      return;
+    }
+
+    new Snackbar(`Template '${name}' created`, SnackbarType.SUCCESS);
+    this.destroy();
+    this.onOpen(body.template.file);
+  }
+}
@@ -0,0 +1,651 @@
+/**
+ * Bulk Edit Page
+ *
+ * Applies one rule to many publishers at once.
+ * Features:
+ * - Selects publishers from the registry (with a filter and select all).
+ * - Defines a set, replace or append rule on a JSON path, or a JSON Patch.
+ * - Previews the diff per publisher before anything is saved.
+ * - Applies the rule (one version per publisher) and lists past bulk edits with a rollback action.
+ */
+
+import { navigateToPublishers } from "../../../../index.js";
+import { api } from "../../../../shared/api-client.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import {
+  BulkEditRuleType,
+  BulkEditStatus,
+  SnackbarType,
+  UserRole,
+} from "../../../../shared/enums.js";
+import {
+  BulkEdit,
+  BulkEditPreview,
+  BulkEditRule,
+  ChangeDetails,
+  Component,
+} from "../../../../shared/interfaces.js";
+import { hasRole } from "../../../../shared/session.js";
+import {
+  createElementWithClasses,
+  getChangeHeaders,
+} from "../../../../shared/utils.js";
+import {
+  createDiffHtml,
+  createEmptyDiffHtml,
+} from "../../../../shared/diff-view.js";
+import { ChangeDescription } from "../../../../shared/modals/change-description/change-description.js";
+import { AreYouSure } from "../../../../shared/modals/are-you-sure/are-you-sure.js";
+
+/**
+ * A selectable publisher from the registry.
+ */
+interface PublisherOption {
+  alias: string;
+  file: string;
+}
+
+/** Labels for the rule types in the rule form. */
+const RULE_TYPE_LABELS: Record<BulkEditRuleType, string> = {
+  [BulkEditRuleType.SET]: "Set value",
+  [BulkEditRuleType.REPLACE]: "Replace value",
+  [BulkEditRuleType.APPEND]: "Append to list",
+  [BulkEditRuleType.PATCH]: "JSON Patch",
+};
+
+/** Labels for the preview statuses. */
+const STATUS_LABELS: Record<BulkEditStatus, string> = {
+  [BulkEditStatus.CHANGED]: "Will change",
+  [BulkEditStatus.UNCHANGED]: "No change",
+  [BulkEditStatus.FAILED]: "Skipped",
+  [BulkEditStatus.REVIEW_REQUIRED]: "Needs review",
+};
+
+/**
+ * Component for defining, previewing and applying bulk edits.
+ */
+export class BulkEdits implements Component {
+  /** The parent DOM element where this component will be mounted. */
+  rootElement: HTMLElement;
+
+  /** The main DOM element of this component. */
+  componentElement: HTMLElement;
+
+  /** The active publishers that can be selected. */
+  private publishers: PublisherOption[] = [];
+
+  /** Filenames of the selected publishers. */
+  private selected = new Set<string>();
+
+  /** The last preview; cleared whenever the selection or rule changes. */
+  private preview: BulkEditPreview[] | null = null;
+
+  /**
+   * Creates an instance of the BulkEdits component.
+   * @param rootElement - The HTML element to mount this component into.
+   */
+  constructor(rootElement: HTMLElement) {
+    this.rootElement = rootElement;
+    if (!this.rootElement) throw new Error("rootElement is required");
+    this.componentElement = createElementWithClasses("div", [
+      "bulk-edit-component",
+    ]);
+
+    this.init();
+  }
+
+  /**
+   * Initializes the component by rendering it, mounting it and loading the publishers and history.
+   */
+  private async init() {
+    this.render();
+    this.mount();
+    await Promise.all([this.loadPublishers(), this.loadHistory()]);
+  }
+
+  /**
+   * Renders the controls, publisher list, rule form, preview and history sections.
+   */
+  render() {
+    this.componentElement.innerHTML = `
+      <div class="bulk-edit-controls">
+        <button id="bulk-edit-back-button" class="back-button base-button">Back</button>
+        <h2 class="bulk-edit-controls__title">Bulk Edit</h2>
+      </div>
+      <div class="bulk-edit-layout">
+        <section class="bulk-edit-section">
+          <h3 class="bulk-edit-section__title">Publishers</h3>
+          <div class="bulk-edit-publishers__toolbar">
+            <input id="bulk-edit-filter" class="base-input" type="text" placeholder="Filter publishers">
+            <label class="bulk-edit-publishers__all">
+              <input id="bulk-edit-select-all" type="checkbox"> All
+            </label>
+          </div>
+          <div id="bulk-edit-publisher-list" class="bulk-edit-publishers__list"></div>
+        </section>
+        <section class="bulk-edit-section">
+          <h3 class="bulk-edit-section__title">Rule</h3>
+          <label class="bulk-edit-field">
+            <span>Type</span>
+            <select id="bulk-edit-type" class="base-input">
+              ${Object.values(BulkEditRuleType)
+                .map(
+                  (type) =>
+                    `<option value="${type}">${RULE_TYPE_LABELS[type]}</option>`
+                )
+                .join("")}
+            </select>
+          </label>
+          <label class="bulk-edit-field" data-rule-field="path">
+            <span>Path</span>
+            <input id="bulk-edit-path" class="base-input" type="text" placeholder="/allowedDomains or /pages/*/pageType">
+          </label>
+          <label class="bulk-edit-field" data-rule-field="value">
+            <span>Value</span>
+            <textarea id="bulk-edit-value" class="base-input" rows="3" placeholder="JSON, or plain text for a string"></textarea>
+          </label>
+          <label class="bulk-edit-field" data-rule-field="from">
+            <span>Replace</span>
+            <textarea id="bulk-edit-from" class="base-input" rows="2" placeholder="JSON, or plain text for a string"></textarea>
+          </label>
+          <label class="bulk-edit-field" data-rule-field="to">
+            <span>With</span>
+            <textarea id="bulk-edit-to" class="base-input" rows="2" placeholder="JSON, or plain text for a string"></textarea>
+          </label>
+          <label class="bulk-edit-field" data-rule-field="operations">
+            <span>Operations</span>
+            <textarea id="bulk-edit-operations" class="base-input" rows="6" placeholder='[{ "op": "remove", "path": "/legacyField" }]'></textarea>
+          </label>
+          <p class="bulk-edit-section__hint">
+            Paths are JSON Pointers; <code>*</code> matches every item of a list. Active publishers are skipped:
+            they can only be changed through a change request.
+          </p>
+          <div class="bulk-edit-actions">
+            <button id="bulk-edit-preview-button" class="base-button files-button">Preview</button>
+            <button id="bulk-edit-apply-button" class="base-button save-button" disabled>Apply</button>
+          </div>
+        </section>
+      </div>
+      <section class="bulk-edit-section">
+        <h3 class="bulk-edit-section__title">Preview</h3>
+        <div id="bulk-edit-preview" class="bulk-edit-preview">${createEmptyDiffHtml(
+          "Select publishers and define a rule, then preview the changes."
+        )}</div>
+      </section>
+      <section class="bulk-edit-section">
+        <h3 class="bulk-edit-section__title">Recent Bulk Edits</h3>
+        <div id="bulk-edit-history" class="bulk-edit-history"></div>
+      </section>
+    `;
+
+    this.updateRuleFields();
+    this.attachEvents();
+  }
+
+  /**
+   * Appends the component's element to the root element.
+   */
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+  }
+
+  /**
+   * Attaches the navigation, selection, rule form and action handlers.
+   */
+  attachEvents() {
+    this.componentElement
+      .querySelector("#bulk-edit-back-button")
+      ?.addEventListener("click", () => navigateToPublishers());
+
+    this.componentElement
+      .querySelector("#bulk-edit-filter")
+      ?.addEventListener("input", () => this.renderPublishers());
+
+    const selectAll = this.componentElement.querySelector(
+      "#bulk-edit-select-all"
+    ) as HTMLInputElement;
+    selectAll?.addEventListener("change", () => {
+      this.getVisiblePublishers().forEach(({ file }) => {
+        if (selectAll.checked) this.selected.add(file);
+        else this.selected.delete(file);
+      });
+      this.renderPublishers();
+      this.clearPreview();
+    });
+
+    this.componentElement
+      .querySelector("#bulk-edit-type")
+      ?.addEventListener("change", () => this.updateRuleFields());
+
+    // Any change to the rule invalidates the preview
+    this.componentElement
+      .querySelectorAll("#bulk-edit-type, #bulk-edit-path, textarea")
+      .forEach((element) =>
+        element.addEventListener("input", () => this.clearPreview())
+      );
+
+    this.componentElement
+      .querySelector("#bulk-edit-preview-button")
+      ?.addEventListener("click", () => this.loadPreview());
+
+    this.componentElement
+      .querySelector("#bulk-edit-apply-button")
+      ?.addEventListener("click", () => {
+        new ChangeDescription(
+          document.body,
+          (details) => this.apply(details),
+          "Apply Bulk Edit?",
+          "Each changed publisher gets its own version. Describe the change; it is recorded with every version."
+        );
+      });
+  }
+
+  /**
+   * Removes the component from the DOM.
+   */
+  destroy() {
+    this.componentElement.remove();
+  }
+
+  /**
+   * Fetches the active publishers from the registry.
+   */
+  private async loadPublishers() {
+    try {
+      const res = await api.get("/api/publishers");
+      if (!res.ok) throw new Error(`Failed to fetch publishers: ${res.status}`);
+      const json = await res.json();
+      this.publishers = Array.isArray(json.publishers) ? json.publishers : [];
+      this.renderPublishers();
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to fetch publishers", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Fetches past bulk edits and renders them.
+   */
+  private async loadHistory() {
+    try {
+      const res = await api.get("/api/bulk-edits");
+      if (!res.ok) throw new Error(`Failed to fetch bulk edits: ${res.status}`);
+      this.renderHistory(await res.json());
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to fetch bulk edits", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Returns the publishers matching the filter.
+   */
+  private getVisiblePublishers() {
+    const filter = (
+      this.componentElement.querySelector(
+        "#bulk-edit-filter"
+      ) as HTMLInputElement
+    ).value
+      .trim()
+      .toLowerCase();
+    return this.publishers.filter(
+      ({ alias, file }) =>
+        alias.toLowerCase().includes(filter) ||
+        file.toLowerCase().includes(filter)
+    );
+  }
+
+  /**
+   * Renders a checkbox per visible publisher.
+   */
+  private renderPublishers() {
+    const list = this.componentElement.querySelector(
+      "#bulk-edit-publisher-list"
+    ) as HTMLElement;
+    list.innerHTML = "";
+
+    const visible = this.getVisiblePublishers();
+    visible.forEach(({ alias, file }) => {
+      const label = createElementWithClasses("label", [
+        "bulk-edit-publishers__item",
+      ]);
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.checked = this.selected.has(file);
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) this.selected.add(file);
+        else this.selected.delete(file);
+        this.clearPreview();
+      });
+      const text = document.createElement("span");
+      text.textContent = `${alias} (${file})`;
+      label.append(checkbox, text);
+      list.appendChild(label);
+    });
+
+    (
+      this.componentElement.querySelector(
+        "#bulk-edit-select-all"
+      ) as HTMLInputElement
+    ).checked =
+      visible.length > 0 &&
+      visible.every(({ file }) => this.selected.has(file));
+  }
+
+  /**
+   * Shows only the rule inputs the selected rule type uses.
+   */
+  private updateRuleFields() {
+    const type = this.getInput("#bulk-edit-type") as BulkEditRuleType;
+    const fields: Record<BulkEditRuleType, string[]> = {
+      [BulkEditRuleType.SET]: ["path", "value"],
+      [BulkEditRuleType.REPLACE]: ["path", "from", "to"],
+      [BulkEditRuleType.APPEND]: ["path", "value"],
+      [BulkEditRuleType.PATCH]: ["operations"],
+    };
+
+    this.componentElement
+      .querySelectorAll<HTMLElement>("[data-rule-field]")
+      .forEach((element) => {
+        element.hidden = !fields[type].includes(
+          element.dataset.ruleField || ""
+        );
+      });
+  }
+
+  /**
+   * Reads the value of a form control.
+   */
+  private getInput(selector: string) {
+    return (
+      this.componentElement.querySelector(selector) as
+        | HTMLInputElement
+        | HTMLSelectElement
+        | HTMLTextAreaElement
+    ).value;
+  }
+
+  /**
+   * Parses a value typed into the rule form: JSON if it parses, otherwise the text as a string.
+   */
+  private parseValue(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.trim();
+    }
+  }
+
+  /**
+   * Builds the rule from the form.
+   * @returns The rule, or null if the JSON Patch operations are not valid JSON.
+   */
+  private getRule(): BulkEditRule | null {
+    const type = this.getInput("#bulk-edit-type") as BulkEditRuleType;
+    const path = this.getInput("#bulk-edit-path").trim();
+
+    switch (type) {
+      case BulkEditRuleType.REPLACE:
+        return {
+          type,
+          path,
+          from: this.parseValue(this.getInput("#bulk-edit-from")),
+          to: this.parseValue(this.getInput("#bulk-edit-to")),
+        };
+      case BulkEditRuleType.PATCH:
+        try {
+          return {
+            type,
+            operations: JSON.parse(this.getInput("#bulk-edit-operations")),
+          };
+        } catch {
+          new Snackbar("Operations must be a JSON array", SnackbarType.ERROR);
+          return null;
+        }
+      default:
+        return {
+          type,
+          path,
+          value: this.parseValue(this.getInput("#bulk-edit-value")),
+        };
+    }
+  }
+
+  /**
+   * Forgets the preview and disables Apply until the changes are previewed again.
+   */
+  private clearPreview() {
+    if (!this.preview) return;
+    this.preview = null;
+    (
+      this.componentElement.querySelector(
+        "#bulk-edit-apply-button"
+      ) as HTMLButtonElement
+    ).disabled = true;
+    (
+      this.componentElement.querySelector("#bulk-edit-preview") as HTMLElement
+    ).innerHTML = createEmptyDiffHtml(
+      "The rule or selection changed. Preview the changes again."
+    );
+  }
+
+  /**
+   * Asks the server what the rule would change and renders the result per publisher.
+   */
+  private async loadPreview() {
+    if (this.selected.size === 0) {
+      new Snackbar("Select at least one publisher", SnackbarType.INFO);
+      return;
+    }
+    const rule = this.getRule();
+    if (!rule) return;
+
+    try {
+      const res = await api.post("/api/bulk-edits/preview", {
+        files: [...this.selected],
+        rule,
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        new Snackbar(body.error || "Failed to preview", SnackbarType.ERROR);
+        return;
+      }
+
+      this.preview = body.results as BulkEditPreview[];
+      this.renderPreview(this.preview);
+      (
+        this.componentElement.querySelector(
+          "#bulk-edit-apply-button"
+        ) as HTMLButtonElement
+      ).disabled =
+        !hasRole(UserRole.EDITOR) ||
+        !this.preview.some(({ status }) => status === BulkEditStatus.CHANGED);
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to preview bulk edit", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Renders one block per publisher with its status and diff.
+   * @param results - The preview results.
+   */
+  private renderPreview(results: BulkEditPreview[]) {
+    const container = this.componentElement.querySelector(
+      "#bulk-edit-preview"
+    ) as HTMLElement;
+    container.innerHTML = "";
+
+    const changed = results.filter(
+      ({ status }) => status === BulkEditStatus.CHANGED
+    ).length;
+    const summary = createElementWithClasses("p", [
+      "bulk-edit-preview__summary",
+    ]);
+    summary.textContent = `${changed} of ${results.length} publishers will change.`;
+    container.appendChild(summary);
+
+    results.forEach((result) => {
+      const item = createElementWithClasses("div", ["bulk-edit-preview__item"]);
+      const header = createElementWithClasses("div", [
+        "bulk-edit-preview__header",
+      ]);
+      const title = createElementWithClasses("span", [
+        "bulk-edit-preview__title",
+      ]);
+      title.textContent = `${result.alias} (${result.file}, v${result.version})`;
+      const status = createElementWithClasses("span", [
+        "bulk-edit-status",
+        `bulk-edit-status--${result.status}`,
+      ]);
+      status.textContent = STATUS_LABELS[result.status];
+      header.append(title, status);
+      item.appendChild(header);
+
+      if (result.error) {
+        const error = createElementWithClasses("p", [
+          "bulk-edit-preview__error",
+        ]);
+        error.textContent = [
+          result.error,
+          ...(result.details || []).map(
+            (issue) => `${issue.path || "(root)"}: ${issue.message}`
+          ),
+        ].join(" · ");
+        item.appendChild(error);
+      }
+
+      if (result.changes && result.changes.length > 0) {
+        const diff = createElementWithClasses("div", [
+          "bulk-edit-preview__diff",
+        ]);
+        diff.innerHTML = createDiffHtml(result.changes);
+        item.appendChild(diff);
+      }
+
+      container.appendChild(item);
+    });
+  }
+
+  /**
+   * Applies the previewed rule to the selected publishers.
+   * Publishers that changed since the preview are skipped by the server.
+   * @param details - The change description, recorded with every version.
+   */
+  private async apply(details: ChangeDetails) {
+    const rule = this.getRule();
+    if (!rule || !this.preview) return;
+
+    try {
+      const res = await api.post(
+        "/api/bulk-edits",
+        {
+          files: [...this.selected],
+          rule,
+          baseVersions: Object.fromEntries(
+            this.preview.map(({ file, version }) => [file, version])
+          ),
+        },
+        { headers: getChangeHeaders(details) }
+      );
+      const body = await res.json();
+      if (!res.ok) {
+        new Snackbar(body.error || "Failed to apply", SnackbarType.ERROR);
+        return;
+      }
+
+      const { bulkEdit, results } = body as {
+        bulkEdit: BulkEdit;
+        results: BulkEditPreview[];
+      };
+      const skipped = results.length - bulkEdit.versions.length;
+      new Snackbar(
+        `Bulk edit #${bulkEdit.id} saved ${
+          bulkEdit.versions.length
+        } publishers${skipped > 0 ? `, skipped ${skipped}` : ""}`,
+        SnackbarType.SUCCESS
+      );
+      this.renderPreview(results);
+      this.preview = null;
+      (
+        this.componentElement.querySelector(
+          "#bulk-edit-apply-button"
+        ) as HTMLButtonElement
+      ).disabled = true;
+      await this.loadHistory();
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to apply bulk edit", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Renders past bulk edits with a rollback button for those not rolled back yet.
+   * @param edits - The bulk edits, newest first.
+   */
+  private renderHistory(edits: BulkEdit[]) {
+    const container = this.componentElement.querySelector(
+      "#bulk-edit-history"
+    ) as HTMLElement;
+    container.innerHTML = "";
+
+    if (edits.length === 0) {
+      container.innerHTML = createEmptyDiffHtml("No bulk edits yet.");
+      return;
+    }
+
+    edits.forEach((edit) => {
+      const row = createElementWithClasses("div", ["bulk-edit-history__row"]);
+      const text = createElementWithClasses("div", ["bulk-edit-history__text"]);
+      const status = edit.rolledBackAt
+        ? `rolled back by ${edit.rolledBackBy}`
+        : `${edit.versions.length} publishers`;
+      text.textContent = `#${edit.id} ${edit.message} · ${
+        edit.author
+      }, ${new Date(edit.createdAt).toLocaleString()} · ${status}`;
+      text.title = edit.versions
+        .map(({ file, version }) => `${file} v${version}`)
+        .join("\n");
+      row.appendChild(text);
+
+      const rollbackButton = createElementWithClasses("button", [
+        "files-button",
+        "base-button",
+      ]) as HTMLButtonElement;
+      rollbackButton.textContent = "Roll Back";
+      rollbackButton.hidden =
+        Boolean(edit.rolledBackAt) || !hasRole(UserRole.EDITOR);
+      rollbackButton.addEventListener("click", () => {
+        new AreYouSure(
+          document.body,
+          () => this.rollBack(edit),
+          `Roll Back Bulk Edit #${edit.id}?`,
+          `All ${edit.versions.length} publishers are restored to their version before the bulk edit. This only works if none of them changed since.`
+        );
+      });
+      row.appendChild(rollbackButton);
+
+      container.appendChild(row);
+    });
+  }
+
+  /**
+   * Rolls a bulk edit back on the server.
+   * @param edit - The bulk edit to roll back.
+   */
+  private async rollBack(edit: BulkEdit) {
+    try {
+      const res = await api.post(`/api/bulk-edits/${edit.id}/rollback`, {});
+      const body = await res.json();
+      if (!res.ok) {
+        new Snackbar(body.error || "Failed to roll back", SnackbarType.ERROR);
+        return;
+      }
+      new Snackbar(`Bulk edit #${edit.id} rolled back`, SnackbarType.SUCCESS);
+      await this.loadHistory();
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to roll back bulk edit", SnackbarType.ERROR);
+    }
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Review Change Request Modal
+ *
+ * Shows a change request for review.
+ * Features:
+ * - The proposed structural diff against the version the change was based on.
+ * - The review comments, and a field to add one.
+ * - Approve and Reject actions for approvers other than the request's author.
+ * - Warns when the publisher changed since the request was submitted (approval would fail).
+ */
+
+import {
+  ChangeRequestDetails,
+  Component,
+} from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+import { api } from "../../../../shared/api-client.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import {
+  ChangeRequestStatus,
+  SnackbarType,
+  UserRole,
+} from "../../../../shared/enums.js";
+import { getCurrentUser, hasRole } from "../../../../shared/session.js";
+import {
+  createDiffHtml,
+  createEmptyDiffHtml,
+} from "../../../../shared/diff-view.js";
+
+/**
+ * A modal for reviewing a single change request.
+ */
+export class ReviewChangeRequest implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  /** The id of the request under review. */
+  id: number;
+  /** Called after the request was approved or rejected. */
+  onReviewed: () => void;
+  /** The request, once loaded. */
+  private request: ChangeRequestDetails | null = null;
+
+  /**
+   * Creates an instance of ReviewChangeRequest.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   * @param id - The change request id.
+   * @param onReviewed - Called after the request was approved or rejected.
+   */
+  constructor(rootElement: HTMLElement, id: number, onReviewed: () => void) {
+    this.rootElement = rootElement;
+    this.id = id;
+    this.onReviewed = onReviewed;
+
+    this.componentElement = createElementWithClasses("div", [
+      "review-request-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private async init() {
+    this.render();
+    this.mount();
+    await this.loadRequest();
+  }
+
+  render() {
+    const request = this.request;
+    const canReview =
+      !!request &&
+      request.status === ChangeRequestStatus.OPEN &&
+      hasRole(UserRole.APPROVER) &&
+      request.author !== getCurrentUser()?.username;
+
+    this.componentElement.innerHTML = `
+      <div class="review-request-modal">
+        <h3 class="review-request-modal__header">Change Request #${this.id}</h3>
+        <div class="review-request-modal__meta"></div>
+        <div class="review-request-modal__message"></div>
+        <div class="review-request-modal__warning"></div>
+        <div id="review-diff-view" class="diff-view review-request-modal__diff"></div>
+        <h4 class="review-request-modal__subheader">Comments</h4>
+        <ul class="review-request-modal__comments"></ul>
+        <textarea id="review-comment-input" class="base-input review-request-modal__comment-input" rows="2" placeholder="Add a comment"></textarea>
+        <div class="review-request-modal__footer">
+          <button class="review-request-modal__btn base-button" id="review-close-btn">Close</button>
+          <button class="review-request-modal__btn base-button" id="review-comment-btn">Comment</button>
+          <button class="review-request-modal__btn review-request-modal__btn--reject base-button" id="review-reject-btn">Reject</button>
+          <button class="review-request-modal__btn review-request-modal__btn--approve base-button" id="review-approve-btn">Approve</button>
+        </div>
+      </div>
+    `;
+
+    const element = (selector: string) =>
+      this.componentElement.querySelector(selector) as HTMLElement;
+
+    (element("#review-reject-btn") as HTMLButtonElement).hidden = !canReview;
+    (element("#review-approve-btn") as HTMLButtonElement).hidden = !canReview;
+    (element("#review-comment-btn") as HTMLButtonElement).hidden = !hasRole(
+      UserRole.EDITOR
+    );
+    element("#review-comment-input").hidden = !hasRole(UserRole.EDITOR);
+
+    if (request) {
+      const reviewed = request.reviewedBy
+        ? ` · ${request.status} by ${request.reviewedBy}${
+            request.appliedVersion
+              ? ` as version ${request.appliedVersion}`
+              : ""
+          }`
+        : "";
+      element(".review-request-modal__meta").textContent = `${
+        request.file
+      } · proposed by ${request.author} on ${new Date(
+        request.createdAt
+      ).toLocaleString()} · based on version ${request.baseVersion}${reviewed}`;
+      element(".review-request-modal__message").textContent = request.message;
+
+      if (
+        request.status === ChangeRequestStatus.OPEN &&
+        request.latestVersion !== request.baseVersion
+      ) {
+        element(
+          ".review-request-modal__warning"
+        ).textContent = `The publisher is now at version ${request.latestVersion}. This request can no longer be approved; reject it and ask for a new one.`;
+      }
+
+      element("#review-diff-view").innerHTML = createDiffHtml(request.changes);
+
+      const comments = element(".review-request-modal__comments");
+      request.comments.forEach((comment) => {
+        const item = createElementWithClasses("li", [
+          "review-request-modal__comment",
+        ]);
+        const author = createElementWithClasses("strong", []);
+        author.textContent = `${comment.author} (${new Date(
+          comment.timestamp
+        ).toLocaleString()})`;
+        const text = createElementWithClasses("div", []);
+        text.textContent = comment.text;
+        item.append(author, text);
+        comments.appendChild(item);
+      });
+    } else {
+      element("#review-diff-view").innerHTML =
+        createEmptyDiffHtml("Loading...");
+    }
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+  }
+
+  attachEvents() {
+    this.componentElement
+      .querySelector("#review-close-btn")
+      ?.addEventListener("click", () => this.destroy());
+
+    this.componentElement
+      .querySelector("#review-comment-btn")
+      ?.addEventListener("click", () => this.addComment());
+
+    this.componentElement
+      .querySelector("#review-approve-btn")
+      ?.addEventListener("click", () => this.review("approve"));
+
+    this.componentElement
+      .querySelector("#review-reject-btn")
+      ?.addEventListener("click", () => this.review("reject"));
+
+    this.componentElement.addEventListener("click", (e) => {
+      if (e.target === this.componentElement) this.destroy();
+    });
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+
+  /**
+   * Returns the text typed into the comment field.
+   */
+  private getCommentText() {
+    return (
+      this.componentElement.querySelector(
+        "#review-comment-input"
+      ) as HTMLTextAreaElement
+    ).value.trim();
+  }
+
+  /**
+   * Loads the request and re-renders.
+   */
+  private async loadRequest() {
+    try {
+      const res = await api.get(`/api/change-requests/${this.id}`);
+      if (!res.ok)
+        throw new Error(`Failed to fetch change request: ${res.status}`);
+      this.request = await res.json();
+      this.render();
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to load change request", SnackbarType.ERROR);
+      this.destroy();
+    }
+  }
+
+  /**
+   * Adds the typed comment to the request.
+   */
+  private async addComment() {
+    const text = this.getCommentText();
+    if (!text) return;
+
+    const res = await api.post(`/api/change-requests/${this.id}/comments`, {
+      text,
+    });
+    if (!res.ok) {
+      const body = await res.json();
+      new Snackbar(body.error || "Failed to add comment", SnackbarType.ERROR);
+      return;
+    }
+    await this.loadRequest();
+  }
+
+  /**
+   * Approves or rejects the request. A typed comment is sent along with a rejection.
+   * @param decision - 'approve' or 'reject'.
+   */
+  private async review(decision: "approve" | "reject") {
+    const res = await api.post(
+      `/api/change-requests/${this.id}/${decision}`,
+      decision === "reject" ? { comment: this.getCommentText() } : {}
+    );
+    const body = await res.json();
+
+    if (!res.ok) {
+      new Snackbar(
+        body.error || `Failed to ${decision} change request`,
+        SnackbarType.ERROR
+      );
+      return;
+    }
+
+    new Snackbar(
+      decision === "approve"
+        ? `Change request #${this.id} approved as version ${body.changeRequest.appliedVersion}`
+        : `Change request #${this.id} rejected`,
+      SnackbarType.SUCCESS
+    );
+    this.destroy();
+    this.onReviewed();
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Pending Changes Page
+ *
+ * Lists change requests (proposed changes to active publishers) so approvers can review them.
+ * Features:
+ * - Filters by status (open, approved, rejected).
+ * - Opens the review modal with the proposed diff, comments and approve/reject actions.
+ */
+
+import { navigateToPublishers } from "../../../../index.js";
+import { api } from "../../../../shared/api-client.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import { ChangeRequestStatus, SnackbarType } from "../../../../shared/enums.js";
+import {
+  ChangeRequestSummary,
+  Component,
+} from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+import { ReviewChangeRequest } from "../../modals/review-change-request/review-change-request.js";
+
+/**
+ * Component displaying the change requests in a table.
+ */
+export class ChangeRequests implements Component {
+  /** The parent DOM element where this component will be mounted. */
+  rootElement: HTMLElement;
+
+  /** The main DOM element of this component (the container). */
+  componentElement: HTMLElement;
+
+  /** Static headers for the change requests table. */
+  readonly tableHeaders = [
+    "#",
+    "Publisher",
+    "Author",
+    "Description",
+    "Submitted",
+    "Status",
+    "Action",
+  ];
+
+  /** The status currently listed. */
+  private status: ChangeRequestStatus = ChangeRequestStatus.OPEN;
+
+  /**
+   * Creates an instance of the ChangeRequests component.
+   * @param rootElement - The HTML element to mount this component into.
+   */
+  constructor(rootElement: HTMLElement) {
+    this.rootElement = rootElement;
+    if (!this.rootElement) throw new Error("rootElement is required");
+    this.componentElement = createElementWithClasses("div", [
+      "change-requests-component",
+    ]);
+
+    this.init();
+  }
+
+  /**
+   * Initializes the component by rendering it, mounting it and loading the requests.
+   */
+  private async init() {
+    this.render();
+    this.mount();
+    await this.loadRequests();
+  }
+
+  /**
+   * Renders the controls and the empty table.
+   */
+  render() {
+    this.componentElement.innerHTML = `
+      <div class="change-requests-controls">
+        <button id="change-requests-back-button" class="back-button base-button">Back</button>
+        <h2 class="change-requests-controls__title">Pending Changes</h2>
+        <select id="change-requests-status-select" class="base-input status-select">
+          ${Object.values(ChangeRequestStatus)
+            .map(
+              (status) =>
+                `<option value="${status}" ${
+                  status === this.status ? "selected" : ""
+                }>${status[0].toUpperCase()}${status.slice(1)}</option>`
+            )
+            .join("")}
+        </select>
+      </div>
+      <div class="change-requests-table" role="table">
+        <div class="change-requests-table__header" role="row">
+          ${this.tableHeaders
+            .map(
+              (header) =>
+                `<div class="change-requests-table__cell" role="columnheader">${header}</div>`
+            )
+            .join("")}
+        </div>
+        <div id="change-requests-table-body" class="change-requests-table__body"></div>
+      </div>
+    `;
+
+    this.attachEvents();
+  }
+
+  /**
+   * Appends the component's element to the root element.
+   */
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+  }
+
+  /**
+   * Attaches the back button and status filter handlers.
+   */
+  attachEvents() {
+    this.componentElement
+      .querySelector("#change-requests-back-button")
+      ?.addEventListener("click", () => navigateToPublishers());
+
+    const statusSelect = this.componentElement.querySelector(
+      "#change-requests-status-select"
+    ) as HTMLSelectElement;
+    statusSelect?.addEventListener("change", () => {
+      this.status = statusSelect.value as ChangeRequestStatus;
+      this.loadRequests();
+    });
+  }
+
+  /**
+   * Removes the component from the DOM.
+   */
+  destroy() {
+    this.componentElement.remove();
+  }
+
+  /**
+   * Fetches the requests with the selected status and renders them.
+   */
+  private async loadRequests() {
+    try {
+      const res = await api.get(`/api/change-requests?status=${this.status}`);
+      if (!res.ok)
+        throw new Error(`Failed to fetch change requests: ${res.status}`);
+      this.renderRows(await res.json());
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to fetch change requests", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Renders one row per request.
+   * @param requests - The requests to render.
+   */
+  private renderRows(requests: ChangeRequestSummary[]) {
+    const tableBody = this.componentElement.querySelector(
+      "#change-requests-table-body"
+    ) as HTMLElement;
+    tableBody.innerHTML = "";
+
+    if (requests.length === 0) {
+      const empty = createElementWithClasses("div", [
+        "change-requests-table__empty",
+      ]);
+      empty.textContent = `No ${this.status} change requests.`;
+      tableBody.appendChild(empty);
+      return;
+    }
+
+    requests.forEach((request) => {
+      const row = createElementWithClasses("div", [
+        "change-requests-table__row",
+      ]);
+      const status =
+        request.status === ChangeRequestStatus.OPEN
+          ? "open"
+          : `${request.status} by ${request.reviewedBy}`;
+
+      [
+        `#${request.id}`,
+        request.file,
+        request.author,
+        request.message,
+        new Date(request.createdAt).toLocaleString(),
+        status,
+      ].forEach((text) => {
+        const cell = createElementWithClasses("div", [
+          "change-requests-table__cell",
+        ]);
+        cell.textContent = text;
+        cell.title = text;
+        row.appendChild(cell);
+      });
+
+      const actionsCell = createElementWithClasses("div", [
+        "change-requests-table__cell",
+      ]);
+      const reviewButton = createElementWithClasses("button", [
+        "files-button",
+        "base-button",
+      ]);
+      reviewButton.textContent =
+        request.status === ChangeRequestStatus.OPEN ? "Review" : "View";
+      reviewButton.addEventListener("click", () => {
+        new ReviewChangeRequest(document.body, request.id, () =>
+          this.loadRequests()
+        );
+      });
+      actionsCell.appendChild(reviewButton);
+      row.appendChild(actionsCell);
+
+      tableBody.appendChild(row);
+    });
+  }
+}
@@ -5,14 +5,26 @@
  * Features:
  * - Fetches available versions for the current file.
  * - Allows selecting a version to compare against the current edit or saved state.
- * - Uses the 'diff' library to generate a line-by-line comparison with syntax highlighting.
+ * - Renders the structural diff computed by the server, so key order does not matter.
+ * - Restores the selected historical version as the live configuration (after confirmation).
  */
 
-import { Component } from "../../../../shared/interfaces.js";
-import { createElementWithClasses } from "../../../../shared/utils.js";
-import { diffLines, Change } from "diff";
-import { DiffType } from "../../../../shared/enums.js";
+import {
+  Component,
+  PublisherConfig,
+  VersionInfo,
+} from "../../../../shared/interfaces.js";
+import {
+  createElementWithClasses,
+  getChangeHeaders,
+  getStoredAuthor,
+} from "../../../../shared/utils.js";
+import { SnackbarType } from "../../../../shared/enums.js";
 import { api } from "../../../../shared/api-client.js";
+import { AreYouSure } from "../../../../shared/modals/are-you-sure/are-you-sure.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import { createDiffHtml } from "../../../../shared/diff-view.js";
+import { withEnvironment } from "../../../../shared/environments.js";
 
 /**
  * A modal component that compares two configuration objects and displays the differences.
@@ -20,21 +32,25 @@ import { api } from "../../../../shared/api-client.js";
 export class CompareConfiguration implements Component {
   rootElement: HTMLElement;
   componentElement: HTMLElement;
-  baseConfig: any; // The config to compare AGAINST (left side)
-  currentConfig: any; // The current edits (right side)
+  currentConfig: PublisherConfig; // The current edits, compared against the selected version
   filename: string;
-  availableVersions: number[] = [];
+  availableVersions: VersionInfo[] = [];
+  selectedVersion: string = "current";
+  onRestore?: (version: number) => void; // Called after a version was restored
+  environment: string | null; // The environment whose versions are compared (null for the working one)
 
   constructor(
     rootElement: HTMLElement,
-    baseConfig: any,
-    currentConfig: any,
-    filename: string
+    currentConfig: PublisherConfig,
+    filename: string,
+    onRestore?: (version: number) => void,
+    environment: string | null = null
   ) {
     this.rootElement = rootElement;
-    this.baseConfig = baseConfig;
     this.currentConfig = currentConfig;
     this.filename = filename;
+    this.onRestore = onRestore;
+    this.environment = environment;
 
     // Create the main modal container immediately so it can be mounted
     this.componentElement = createElementWithClasses("div", [
@@ -68,6 +84,7 @@ export class CompareConfiguration implements Component {
         </div>
         
         <footer class="compare-modal__footer">
+          <button class="compare-modal__btn compare-modal__btn--restore base-button" id="modal-restore-btn" disabled>Restore this version</button>
           <button class="compare-modal__btn base-button" id="modal-close-btn">Close</button>
         </footer>
       </div>
@@ -91,11 +108,20 @@ export class CompareConfiguration implements Component {
     const overlay = this.componentElement;
     const versionSelect =
       this.componentElement.querySelector("#version-select");
+    const restoreBtn = this.componentElement.querySelector(
+      "#modal-restore-btn"
+    ) as HTMLButtonElement | null;
 
     const closeHandler = () => this.destroy();
 
     footerCloseBtn?.addEventListener("click", closeHandler);
 
+    // Restoring is only possible when a historical version is selected
+    if (restoreBtn) {
+      restoreBtn.hidden = !this.onRestore;
+      restoreBtn.addEventListener("click", () => this.confirmRestore());
+    }
+
     // Close when clicking outside the modal content (on the overlay)
     overlay.addEventListener("click", (e) => {
       if (e.target === overlay) {
@@ -105,6 +131,7 @@ export class CompareConfiguration implements Component {
 
     versionSelect?.addEventListener("change", (e) => {
       const target = e.target as HTMLSelectElement;
+      if (restoreBtn) restoreBtn.disabled = target.value === "current";
       this.handleVersionChange(target.value);
     });
   }
@@ -125,7 +152,12 @@ export class CompareConfiguration implements Component {
   private async loadVersions() {
     try {
       if (!this.filename) return;
-      const res = await api.get(`/api/publisher/${this.filename}/versions`);
+      const res = await api.get(
+        withEnvironment(
+          `/api/publisher/${this.filename}/versions`,
+          this.environment
+        )
+      );
 
       if (res.ok) {
         const versions = await res.json();
@@ -156,100 +188,113 @@ export class CompareConfiguration implements Component {
 
     this.availableVersions.forEach((v) => {
       const option = document.createElement("option");
-      option.value = v.toString();
-      option.textContent = `Version ${v}`;
+      option.value = v.version.toString();
+      option.textContent = this.formatVersionLabel(v);
+      option.title = v.changedPaths.join("\n");
       select.appendChild(option);
     });
   }
 
   /**
-   * Handles version selection changes.
+   * Formats a version for the dropdown, e.g. 'v7 — 2026-10-12 by dana: moved homepage to sidebar'.
+   * @param info - The version metadata.
    */
-  private async handleVersionChange(version: string) {
-    if (version === "current") {
-      try {
-        const res = await api.get(`/api/publisher/${this.filename}`);
-        this.baseConfig = await res.json();
-        this.renderDiffs();
-      } catch (e) {
-        console.error(e);
-      }
-    } else {
-      try {
-        const res = await api.get(
-          `/api/publisher/${this.filename}/versions/${version}`
-        );
-        if (res.ok) {
-          this.baseConfig = await res.json();
-          this.renderDiffs();
-        }
-      } catch (error) {
-        console.error("Failed to load version content", error);
-      }
-    }
+  private formatVersionLabel(info: VersionInfo): string {
+    const date = info.timestamp ? info.timestamp.slice(0, 10) : "";
+    let label = `v${info.version}`;
+    if (date) label += ` \u2014 ${date}`;
+    if (info.author) label += ` by ${info.author}`;
+    if (info.message) label += `: ${info.message}`;
+    return label;
   }
 
   /**
-   * Generates and renders the unified diff view using the 'diff' library.
+   * Handles version selection changes.
    */
-  private renderDiffs() {
-    const diffContainer = this.componentElement.querySelector("#diff-view");
-    if (!diffContainer) return;
-
-    const oldText = JSON.stringify(this.baseConfig, null, 2);
-    const newText = JSON.stringify(this.currentConfig, null, 2);
-
-    const diffs: Change[] = diffLines(oldText, newText);
-    const diffHtml = this.createDiffHtml(diffs);
+  private handleVersionChange(version: string) {
+    this.selectedVersion = version;
+    this.renderDiffs();
+  }
 
-    diffContainer.innerHTML = diffHtml;
+  /**
+   * Asks for confirmation before restoring the selected version.
+   */
+  private confirmRestore() {
+    const version = this.selectedVersion;
+    if (version === "current") return;
+
+    new AreYouSure(
+      document.body,
+      () => this.restoreVersion(version),
+      `Restore Version ${version}?`,
+      `Version ${version} will become the live configuration and be saved as a new version. Any unsaved changes in the editor will be discarded.`
+    );
   }
 
   /**
-   * Creates the HTML string for the diff view.
+   * Restores the given version on the server and notifies the editor.
+   * @param version - The version number to restore.
    */
-  private createDiffHtml(diffs: Change[]): string {
-    let diffHtml = "";
-
-    // Track line numbers
-    let oldLineNum = 1;
-    let newLineNum = 1;
-
-    diffs.forEach((part) => {
-      // part.value might contain multiple lines
-      const lines = part.value.replace(/\n$/, "").split("\n");
-      const type = part.added
-        ? DiffType.ADDED
-        : part.removed
-        ? DiffType.REMOVED
-        : DiffType.UNCHANGED;
-      const contentPrefix = part.added ? "+ " : part.removed ? "- " : "  ";
-
-      lines.forEach((line) => {
-        let lineNumDisplay = "";
-
-        if (part.added) {
-          lineNumDisplay = `${newLineNum++}`;
-        } else if (part.removed) {
-          lineNumDisplay = `${oldLineNum++}`;
-        } else {
-          lineNumDisplay = `${oldLineNum++}  ${newLineNum++}`;
+  private async restoreVersion(version: string) {
+    try {
+      const res = await api.post(
+        `/api/publisher/${this.filename}/versions/${version}/restore`,
+        {},
+        {
+          headers: getChangeHeaders({
+            author: getStoredAuthor(),
+            message: `Restored from v${version}`,
+          }),
         }
+      );
 
-        const escapedContent = line
-          .replace(/&/g, "&amp;")
-          .replace(/</g, "&lt;")
-          .replace(/>/g, "&gt;");
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        if (body.reviewRequired) {
+          new Snackbar(body.error, SnackbarType.ERROR);
+          return;
+        }
+        throw new Error(body.error || `Restore failed: ${res.status}`);
+      }
 
-        diffHtml += `
-          <div class="diff-line ${type}">
-            <div class="diff-line__number">${contentPrefix}</div>
-            <div class="diff-line__content">${escapedContent}</div>
-          </div>
-        `;
-      });
-    });
+      const result = await res.json();
+      new Snackbar(
+        `Version ${version} restored as version ${result.version}`,
+        SnackbarType.SUCCESS
+      );
+      this.destroy();
+      if (this.onRestore) this.onRestore(result.version);
+    } catch (error) {
+      console.error("Failed to restore version", error);
+      new Snackbar(`Failed to restore version ${version}`, SnackbarType.ERROR);
+    }
+  }
 
-    return diffHtml;
+  /**
+   * Fetches the structural diff between the selected version and the current edits from the server
+   * and renders it.
+   */
+  private async renderDiffs() {
+    const diffContainer = this.componentElement.querySelector("#diff-view");
+    if (!diffContainer) return;
+
+    try {
+      const res = await api.post(
+        withEnvironment(
+          `/api/publisher/${this.filename}/diff?from=${this.selectedVersion}`,
+          this.environment
+        ),
+        this.currentConfig
+      );
+      if (!res.ok) throw new Error(`Failed to fetch diff: ${res.status}`);
+
+      const { changes } = await res.json();
+      diffContainer.innerHTML = createDiffHtml(changes);
+    } catch (error) {
+      console.error("Failed to load diff", error);
+      const message = createElementWithClasses("div", ["diff-empty"]);
+      message.textContent = "Failed to load differences.";
+      diffContainer.replaceChildren(message);
+    }
   }
 }
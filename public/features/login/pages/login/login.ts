@@ -0,0 +1,138 @@
+/**
+ * Login Page Component
+ *
+ * Shown when nobody is signed in (or the session expired).
+ * Features:
+ * - Username and password form.
+ * - Signs in through the auth endpoint, which sets the session cookie.
+ * - Reports invalid credentials inline.
+ */
+
+import { api } from "../../../../shared/api-client.js";
+import { Component, User } from "../../../../shared/interfaces.js";
+import {
+  createElementWithClasses,
+  setStoredAuthor,
+} from "../../../../shared/utils.js";
+
+/**
+ * The sign-in form.
+ */
+export class Login implements Component {
+  /** The parent DOM element where this component will be mounted. */
+  rootElement: HTMLElement;
+
+  /** The main DOM element of this component (the container). */
+  componentElement: HTMLElement;
+
+  /** Callback invoked with the user once they signed in. */
+  onLogin: (user: User) => void;
+
+  /**
+   * Creates an instance of the Login component.
+   * @param rootElement - The HTML element to mount this component into.
+   * @param onLogin - Called with the signed-in user.
+   */
+  constructor(rootElement: HTMLElement, onLogin: (user: User) => void) {
+    this.rootElement = rootElement;
+    if (!this.rootElement) throw new Error("rootElement is required");
+    this.onLogin = onLogin;
+    this.componentElement = createElementWithClasses("div", [
+      "login-component",
+    ]);
+
+    this.init();
+  }
+
+  /**
+   * Initializes the component by rendering it and mounting it to the DOM.
+   */
+  private init() {
+    this.render();
+    this.mount();
+  }
+
+  /**
+   * Renders the sign-in form.
+   */
+  render() {
+    this.componentElement.innerHTML = `
+      <form class="login-form">
+        <h2 class="login-form__header">Sign in</h2>
+        <label class="login-form__label" for="login-username-input">Username</label>
+        <input id="login-username-input" class="base-input" type="text" autocomplete="username" required />
+        <label class="login-form__label" for="login-password-input">Password</label>
+        <input id="login-password-input" class="base-input" type="password" autocomplete="current-password" required />
+        <div id="login-error" class="login-form__error"></div>
+        <button type="submit" class="base-button login-form__submit">Sign in</button>
+      </form>
+    `;
+
+    this.attachEvents();
+  }
+
+  /**
+   * Appends the component's element to the root element and focuses the username field.
+   */
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    (
+      this.componentElement.querySelector(
+        "#login-username-input"
+      ) as HTMLInputElement
+    )?.focus();
+  }
+
+  /**
+   * Attaches the submit handler.
+   */
+  attachEvents() {
+    const form = this.componentElement.querySelector("form");
+    form?.addEventListener("submit", (e) => {
+      e.preventDefault();
+      this.handleSubmit();
+    });
+  }
+
+  /**
+   * Removes the component from the DOM.
+   */
+  destroy() {
+    this.componentElement.remove();
+  }
+
+  /**
+   * Sends the credentials and reports the result.
+   */
+  private async handleSubmit() {
+    const username = (
+      this.componentElement.querySelector(
+        "#login-username-input"
+      ) as HTMLInputElement
+    ).value.trim();
+    const password = (
+      this.componentElement.querySelector(
+        "#login-password-input"
+      ) as HTMLInputElement
+    ).value;
+    const errorElement = this.componentElement.querySelector(
+      "#login-error"
+    ) as HTMLElement;
+
+    try {
+      const res = await api.post("/api/auth/login", { username, password });
+      const json = await res.json();
+      if (!res.ok) {
+        errorElement.textContent = json.error || "Sign in failed";
+        return;
+      }
+
+      // Changes are recorded under the account name
+      setStoredAuthor(json.username);
+      this.onLogin(json as User);
+    } catch (error) {
+      console.error(error);
+      errorElement.textContent = "Sign in failed";
+    }
+  }
+}
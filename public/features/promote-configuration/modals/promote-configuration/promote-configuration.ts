@@ -0,0 +1,250 @@
+/**
+ * Promote Configuration Modal
+ *
+ * Copies a publisher configuration to a later environment (e.g. from dev to staging).
+ * Features:
+ * - Shows the structural diff between the target environment's configuration and the one promoted.
+ * - Lets the user pick any later environment as the target.
+ * - Promotes the previewed version as a new version in the target environment.
+ * - Only approvers can promote to the last environment (usually production).
+ */
+
+import { Component, PromotionPreview } from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+import { api } from "../../../../shared/api-client.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import { SnackbarType, UserRole } from "../../../../shared/enums.js";
+import { hasRole } from "../../../../shared/session.js";
+import {
+  createDiffHtml,
+  createEmptyDiffHtml,
+} from "../../../../shared/diff-view.js";
+
+/**
+ * A modal previewing and performing the promotion of a configuration.
+ */
+export class PromoteConfiguration implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  /** The publisher filename. */
+  filename: string;
+  /** The environment the configuration is promoted from. */
+  from: string;
+  /** The environments it can be promoted to, in promotion order. */
+  targets: string[];
+  /** The selected target environment. */
+  to: string;
+  /** Called after the configuration was promoted. */
+  onPromoted?: (environment: string, version: number) => void;
+  /** The diff for the selected target, once loaded. */
+  private preview: PromotionPreview | null = null;
+
+  /**
+   * Creates an instance of PromoteConfiguration.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   * @param filename - The publisher filename.
+   * @param from - The environment the configuration is promoted from.
+   * @param targets - The later environments, in promotion order; the first is selected.
+   * @param onPromoted - Called with the target environment and its new version.
+   */
+  constructor(
+    rootElement: HTMLElement,
+    filename: string,
+    from: string,
+    targets: string[],
+    onPromoted?: (environment: string, version: number) => void
+  ) {
+    this.rootElement = rootElement;
+    this.filename = filename;
+    this.from = from;
+    this.targets = targets;
+    this.to = targets[0];
+    this.onPromoted = onPromoted;
+
+    this.componentElement = createElementWithClasses("div", [
+      "promote-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private async init() {
+    this.render();
+    this.mount();
+    await this.loadPreview();
+  }
+
+  render() {
+    this.componentElement.innerHTML = `
+      <div class="promote-modal">
+        <h3 class="promote-modal__header">Promote Configuration</h3>
+        <div class="promote-modal__controls">
+          <span class="promote-modal__source"></span>
+          <label for="promote-target-select">to</label>
+          <select id="promote-target-select" class="base-input promote-modal__select"></select>
+        </div>
+        <p class="promote-modal__summary"></p>
+        <div id="promote-diff-view" class="diff-view promote-modal__diff"></div>
+        <div class="promote-modal__footer">
+          <button class="promote-modal__btn base-button" id="promote-cancel-btn">Cancel</button>
+          <button class="promote-modal__btn promote-modal__btn--primary base-button" id="promote-confirm-btn" disabled>Promote</button>
+        </div>
+      </div>
+    `;
+
+    const element = (selector: string) =>
+      this.componentElement.querySelector(selector) as HTMLElement;
+
+    element(
+      ".promote-modal__source"
+    ).textContent = `${this.filename} from ${this.from}`;
+
+    const select = element("#promote-target-select") as HTMLSelectElement;
+    this.targets.forEach((target) => {
+      const option = document.createElement("option");
+      option.value = target;
+      option.textContent = target;
+      select.appendChild(option);
+    });
+    select.value = this.to;
+
+    this.renderPreview();
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+  }
+
+  attachEvents() {
+    this.componentElement
+      .querySelector("#promote-cancel-btn")
+      ?.addEventListener("click", () => this.destroy());
+
+    this.componentElement
+      .querySelector("#promote-confirm-btn")
+      ?.addEventListener("click", () => this.promote());
+
+    this.componentElement
+      .querySelector("#promote-target-select")
+      ?.addEventListener("change", (e) => {
+        this.to = (e.target as HTMLSelectElement).value;
+        this.loadPreview();
+      });
+
+    this.componentElement.addEventListener("click", (e) => {
+      if (e.target === this.componentElement) this.destroy();
+    });
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+
+  /**
+   * Checks whether the signed-in user may promote to the selected target. Promoting to the last
+   * environment requires the approver role.
+   */
+  private canPromote() {
+    const isLast = this.to === this.targets[this.targets.length - 1];
+    return hasRole(isLast ? UserRole.APPROVER : UserRole.EDITOR);
+  }
+
+  /**
+   * Shows the summary and diff of the loaded preview, and enables Promote when there is something to
+   * promote.
+   */
+  private renderPreview() {
+    const summary = this.componentElement.querySelector(
+      ".promote-modal__summary"
+    ) as HTMLElement;
+    const diffView = this.componentElement.querySelector(
+      "#promote-diff-view"
+    ) as HTMLElement;
+    const confirmButton = this.componentElement.querySelector(
+      "#promote-confirm-btn"
+    ) as HTMLButtonElement;
+
+    const preview = this.preview;
+    confirmButton.disabled =
+      !preview || preview.changes.length === 0 || !this.canPromote();
+
+    if (!preview) {
+      summary.textContent = "Comparing environments...";
+      diffView.innerHTML = "";
+      return;
+    }
+
+    const target =
+      preview.toVersion > 0
+        ? `v${preview.toVersion} in ${preview.to}`
+        : `${preview.to}, where the publisher does not exist yet`;
+    summary.textContent = `Changes from ${target} to v${preview.fromVersion} as saved in ${preview.from}. Unsaved edits are not promoted.`;
+    if (!this.canPromote()) {
+      summary.textContent += ` Only approvers can promote to ${preview.to}.`;
+    }
+    diffView.innerHTML =
+      preview.changes.length > 0
+        ? createDiffHtml(preview.changes)
+        : createEmptyDiffHtml(`${preview.to} already has this configuration.`);
+  }
+
+  /**
+   * Loads the diff for the selected target.
+   */
+  private async loadPreview() {
+    this.preview = null;
+    this.renderPreview();
+
+    try {
+      const res = await api.get(
+        `/api/publisher/${this.filename}/promote?from=${encodeURIComponent(
+          this.from
+        )}&to=${encodeURIComponent(this.to)}`
+      );
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to compare");
+      this.preview = body;
+      this.renderPreview();
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to compare environments", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Promotes the previewed version. If the target changed since the preview, the new diff is shown
+   * instead.
+   */
+  private async promote() {
+    const preview = this.preview;
+    if (!preview) return;
+
+    const res = await api.post(`/api/publisher/${this.filename}/promote`, {
+      from: preview.from,
+      to: preview.to,
+      fromVersion: preview.fromVersion,
+      toVersion: preview.toVersion,
+    });
+    const body = await res.json();
+
+    if (!res.ok) {
+      new Snackbar(body.error || "Failed to promote", SnackbarType.ERROR);
+      await this.loadPreview();
+      return;
+    }
+
+    new Snackbar(
+      `Promoted to ${body.environment} as v${body.version}`,
+      SnackbarType.SUCCESS
+    );
+    this.destroy();
+    this.onPromoted?.(body.environment, body.version);
+  }
+}
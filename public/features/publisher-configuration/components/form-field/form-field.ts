@@ -3,10 +3,10 @@
  *
  * A controller component that manages the rendering of a single field in the configuration form.
  * It determines the type of the value (boolean, array, object, primitive) and renders the
- * appropriate sub-component. It also handles field removal and collapsing.
+ * appropriate sub-component. It also handles field removal, collapsing and validation errors.
  */
 
-import { Component } from "../../../../shared/interfaces.js";
+import { Component, ValidationIssue } from "../../../../shared/interfaces.js";
 import { createElementWithClasses } from "../../../../shared/utils.js";
 import { PrimitiveField } from "../primitive-field/primitive-field.js";
 import { ObjectField } from "../object-field/object-field.js";
@@ -35,6 +35,8 @@ export class FormField implements Component {
   private isFixedStructure: boolean;
   /** If true, the field content is hidden. Applies to non-boolean fields. */
   private isCollapsed: boolean = true;
+  /** Validation issues reported for this field or any of its nested values. */
+  private errors: ValidationIssue[];
 
   /**
    * Creates an instance of the FormField component.
@@ -45,6 +47,7 @@ export class FormField implements Component {
    * @param onChange - Callback for value changes.
    * @param onRemove - Optional callback for removing the field.
    * @param isFixedStructure - Valid for object fields: prevents structure changes if true.
+   * @param errors - Validation issues to display for this field.
    */
   constructor(
     rootElement: HTMLElement,
@@ -52,7 +55,8 @@ export class FormField implements Component {
     key: string | number,
     onChange: () => void,
     onRemove?: () => void,
-    isFixedStructure: boolean = false
+    isFixedStructure: boolean = false,
+    errors: ValidationIssue[] = []
   ) {
     this.rootElement = rootElement;
     this.parentData = parentData;
@@ -60,6 +64,9 @@ export class FormField implements Component {
     this.onChange = onChange;
     this.onRemove = onRemove;
     this.isFixedStructure = isFixedStructure;
+    this.errors = errors;
+    // Invalid fields start expanded so the offending value is visible
+    this.isCollapsed = errors.length === 0;
 
     if (!this.rootElement) throw new Error("rootElement is required");
 
@@ -86,6 +93,11 @@ export class FormField implements Component {
 
     this.componentElement.appendChild(this.createLabel());
 
+    if (this.errors.length > 0) {
+      this.componentElement.classList.add("form-field--invalid");
+      this.componentElement.appendChild(this.createErrorList());
+    }
+
     const contentContainer = createElementWithClasses("div", [
       "form-field__content",
     ]);
@@ -180,6 +192,20 @@ export class FormField implements Component {
     return header;
   }
 
+  /**
+   * Creates the list of validation messages shown under the field header.
+   * @returns The error list element.
+   */
+  private createErrorList(): HTMLElement {
+    const list = createElementWithClasses("ul", ["form-field__errors"]);
+    this.errors.forEach((issue) => {
+      const item = document.createElement("li");
+      item.textContent = `${issue.path} ${issue.message}`;
+      list.appendChild(item);
+    });
+    return list;
+  }
+
   /**
    * Creates the toggle button for collapsing/expanding content.
    */
@@ -0,0 +1,267 @@
+/**
+ * Inherited Values Component
+ *
+ * Shows how a configuration relates to the base template it extends.
+ * Features:
+ * - Lists the values inherited from the template, with an Override action that copies a value into
+ *   the configuration so it can be edited.
+ * - Lists the values the configuration overrides, with a Reset to inherited action that removes the
+ *   override.
+ * - Compares pages one by one, matched by 'pageType', the way the server merges them.
+ */
+
+import { Component } from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+
+/**
+ * A value the configuration inherits or overrides.
+ */
+interface InheritedEntry {
+  /** The field, e.g. 'monitorDashboard' or 'pages: homepage'. */
+  label: string;
+  /** The template's value. */
+  inheritedValue: unknown;
+  /** The configuration's own value, when it overrides the template's. */
+  ownValue?: unknown;
+  overridden: boolean;
+  /** Copies the template's value into the configuration. */
+  override: () => void;
+  /** Removes the configuration's own value. */
+  reset: () => void;
+}
+
+/**
+ * Checks whether a value is a list of pages, i.e. objects keyed by 'pageType'.
+ */
+const isPageList = (value: unknown): value is { pageType: string }[] =>
+  Array.isArray(value) &&
+  value.every(
+    (item) =>
+      typeof item === "object" &&
+      item !== null &&
+      typeof item.pageType === "string"
+  );
+
+/**
+ * Formats a value for the one-line preview.
+ */
+const formatValue = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value);
+
+/**
+ * Component listing the inherited and overridden values of a configuration.
+ */
+export class InheritedValues implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+
+  /** The stored configuration, changed in place by Override and Reset. */
+  config: Record<string, unknown>;
+  /** The name of the template the configuration extends. */
+  template: string;
+  /** The template's resolved values, or null if the template could not be loaded. */
+  inherited: Record<string, unknown> | null;
+  /** Called after a value was overridden or reset. */
+  onChange: () => void;
+  /** Whether Override and Reset are offered. */
+  canEdit: boolean;
+
+  /**
+   * Creates an instance of InheritedValues.
+   * @param rootElement - The DOM element to append this component to.
+   * @param config - The stored configuration.
+   * @param template - The name of the template it extends.
+   * @param inherited - The template's resolved values (null if it could not be loaded).
+   * @param onChange - Called after a value was overridden or reset.
+   * @param canEdit - Whether Override and Reset are offered.
+   */
+  constructor(
+    rootElement: HTMLElement,
+    config: Record<string, unknown>,
+    template: string,
+    inherited: Record<string, unknown> | null,
+    onChange: () => void,
+    canEdit: boolean
+  ) {
+    this.rootElement = rootElement;
+    this.config = config;
+    this.template = template;
+    this.inherited = inherited;
+    this.onChange = onChange;
+    this.canEdit = canEdit;
+
+    this.componentElement = createElementWithClasses("div", [
+      "inherited-values",
+    ]);
+
+    this.render();
+    this.mount();
+  }
+
+  render() {
+    this.componentElement.innerHTML = `
+      <h3 class="inherited-values__header"></h3>
+      <p class="inherited-values__summary"></p>
+      <ul class="inherited-values__list"></ul>
+    `;
+
+    const header = this.componentElement.querySelector(
+      ".inherited-values__header"
+    ) as HTMLElement;
+    header.textContent = `Inherited from ${this.template}`;
+
+    const summary = this.componentElement.querySelector(
+      ".inherited-values__summary"
+    ) as HTMLElement;
+    if (!this.inherited) {
+      summary.textContent = `Template '${this.template}' could not be loaded. Check the name in 'extends'.`;
+      return;
+    }
+
+    const entries = this.getEntries();
+    const overridden = entries.filter((entry) => entry.overridden).length;
+    summary.textContent = `${
+      entries.length - overridden
+    } inherited, ${overridden} overridden. Values set here override the template's; the others follow it.`;
+
+    const list = this.componentElement.querySelector(
+      ".inherited-values__list"
+    ) as HTMLElement;
+    entries.forEach((entry) => list.appendChild(this.renderEntry(entry)));
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+  }
+
+  attachEvents() {}
+
+  destroy() {
+    this.componentElement.remove();
+  }
+
+  /**
+   * Refreshes the list after the configuration was edited.
+   */
+  update() {
+    this.render();
+  }
+
+  /**
+   * Lists every value the template provides, with whether the configuration overrides it.
+   */
+  private getEntries(): InheritedEntry[] {
+    const inherited = this.inherited || {};
+    const entries: InheritedEntry[] = [];
+
+    Object.entries(inherited).forEach(([key, inheritedValue]) => {
+      if (key === "pages" && isPageList(inheritedValue)) {
+        const ownPages = this.config.pages;
+        if (ownPages === undefined || isPageList(ownPages)) {
+          inheritedValue.forEach((page) =>
+            entries.push(this.getPageEntry(page))
+          );
+          return;
+        }
+      }
+
+      entries.push({
+        label: key,
+        inheritedValue,
+        ownValue: this.config[key],
+        overridden: key in this.config,
+        override: () => {
+          this.config[key] = structuredClone(inheritedValue);
+        },
+        reset: () => {
+          delete this.config[key];
+        },
+      });
+    });
+
+    return entries;
+  }
+
+  /**
+   * Describes an inherited page, overridden when the configuration has a page of the same type.
+   * @param page - The template's page.
+   */
+  private getPageEntry(page: { pageType: string }): InheritedEntry {
+    const ownPages = isPageList(this.config.pages) ? this.config.pages : [];
+    const ownPage = ownPages.find((item) => item.pageType === page.pageType);
+
+    return {
+      label: `pages: ${page.pageType}`,
+      inheritedValue: page,
+      ownValue: ownPage,
+      overridden: ownPage !== undefined,
+      override: () => {
+        this.config.pages = [...ownPages, structuredClone(page)];
+      },
+      reset: () => {
+        const pages = ownPages.filter(
+          (item) => item.pageType !== page.pageType
+        );
+        if (pages.length > 0) {
+          this.config.pages = pages;
+        } else {
+          delete this.config.pages;
+        }
+      },
+    };
+  }
+
+  /**
+   * Renders a single value with its state and action.
+   * @param entry - The value.
+   * @returns The row element.
+   */
+  private renderEntry(entry: InheritedEntry) {
+    const row = createElementWithClasses("li", ["inherited-values__entry"]);
+
+    const state = createElementWithClasses("span", [
+      "inherited-values__state",
+      entry.overridden
+        ? "inherited-values__state--overridden"
+        : "inherited-values__state--inherited",
+    ]);
+    state.textContent = entry.overridden ? "Overridden" : "Inherited";
+    row.appendChild(state);
+
+    const text = createElementWithClasses("div", ["inherited-values__text"]);
+    const label = createElementWithClasses("div", ["inherited-values__label"]);
+    label.textContent = entry.label;
+    const value = createElementWithClasses("div", ["inherited-values__value"]);
+    if (!entry.overridden) {
+      value.textContent = formatValue(entry.inheritedValue);
+    } else if (
+      JSON.stringify(entry.ownValue) === JSON.stringify(entry.inheritedValue)
+    ) {
+      value.textContent = "Same as the template, so the override can be reset";
+    } else {
+      value.textContent = `Template: ${formatValue(entry.inheritedValue)}`;
+    }
+    value.title = value.textContent;
+    text.append(label, value);
+    row.appendChild(text);
+
+    if (this.canEdit) {
+      const button = createElementWithClasses("button", [
+        "inherited-values__btn",
+        "base-button",
+      ]);
+      button.textContent = entry.overridden ? "Reset to inherited" : "Override";
+      button.addEventListener("click", () => {
+        if (entry.overridden) {
+          entry.reset();
+        } else {
+          entry.override();
+        }
+        this.onChange();
+      });
+      row.appendChild(button);
+    }
+
+    return row;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Resume Draft Modal
+ *
+ * Shown when a publisher is opened and the user has an autosaved draft of it.
+ * Features:
+ * - Explains when the draft was saved and which version it was based on.
+ * - Warns when the publisher was saved by someone else since.
+ * - Lets the user resume the draft or discard it.
+ */
+
+import { Component, Draft } from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+
+/**
+ * Callbacks for the actions offered by the draft dialog.
+ */
+export interface ResumeDraftActions {
+  /** Loads the draft into the editor. */
+  onResume: () => void;
+  /** Deletes the draft and keeps the server copy. */
+  onDiscard: () => void;
+}
+
+/**
+ * A modal dialog offering to resume an autosaved draft.
+ */
+export class ResumeDraft implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  draft: Draft;
+  /** The version currently stored on the server. */
+  version: number;
+  actions: ResumeDraftActions;
+
+  /**
+   * Creates an instance of ResumeDraft.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   * @param draft - The autosaved draft.
+   * @param version - The version currently stored on the server.
+   * @param actions - Callbacks for resuming or discarding the draft.
+   */
+  constructor(
+    rootElement: HTMLElement,
+    draft: Draft,
+    version: number,
+    actions: ResumeDraftActions
+  ) {
+    this.rootElement = rootElement;
+    this.draft = draft;
+    this.version = version;
+    this.actions = actions;
+
+    this.componentElement = createElementWithClasses("div", [
+      "resume-draft-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private init() {
+    this.render();
+    this.mount();
+  }
+
+  render() {
+    const savedAt = new Date(this.draft.updatedAt).toLocaleString();
+    const outdated =
+      this.draft.baseVersion !== this.version
+        ? `<p class="resume-draft-modal__warning">
+            The draft was based on version ${this.draft.baseVersion}, but version ${this.version} has been saved since.
+            Saving the draft will ask you how to resolve the conflict.
+          </p>`
+        : "";
+
+    this.componentElement.innerHTML = `
+      <div class="resume-draft-modal">
+        <h3 class="resume-draft-modal__header">Resume Draft?</h3>
+        <div class="resume-draft-modal__content">
+          <p>You have unsaved edits to this configuration, autosaved on ${savedAt}.</p>
+          ${outdated}
+        </div>
+        <div class="resume-draft-modal__footer">
+          <button class="resume-draft-modal__btn base-button resume-draft-modal__btn--danger" id="draft-discard-btn">Discard Draft</button>
+          <button class="resume-draft-modal__btn base-button resume-draft-modal__btn--primary" id="draft-resume-btn">Resume</button>
+        </div>
+      </div>
+    `;
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+  }
+
+  attachEvents() {
+    const bind = (selector: string, action: () => void) => {
+      this.componentElement
+        .querySelector(selector)
+        ?.addEventListener("click", () => {
+          this.destroy();
+          action();
+        });
+    };
+
+    bind("#draft-discard-btn", this.actions.onDiscard);
+    bind("#draft-resume-btn", this.actions.onResume);
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Save Conflict Modal
+ *
+ * Shown when a save is rejected because someone else saved the same publisher in the meantime.
+ * Features:
+ * - Explains which version is now live on the server.
+ * - Lets the user compare their edits with the server copy, reload it, or overwrite it.
+ */
+
+import { Component } from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+
+/**
+ * Callbacks for the actions offered by the conflict dialog.
+ */
+export interface SaveConflictActions {
+  /** Opens a comparison between the server copy and the local edits. */
+  onCompare: () => void;
+  /** Discards the local edits and loads the server copy. */
+  onReload: () => void;
+  /** Saves the local edits on top of the server copy. */
+  onOverwrite: () => void;
+}
+
+/**
+ * A modal dialog resolving an optimistic concurrency conflict on save.
+ */
+export class SaveConflict implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  version: number;
+  actions: SaveConflictActions;
+
+  /**
+   * Creates an instance of SaveConflict.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   * @param version - The version currently stored on the server.
+   * @param actions - Callbacks for the available resolutions.
+   */
+  constructor(
+    rootElement: HTMLElement,
+    version: number,
+    actions: SaveConflictActions
+  ) {
+    this.rootElement = rootElement;
+    this.version = version;
+    this.actions = actions;
+
+    this.componentElement = createElementWithClasses("div", [
+      "save-conflict-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private init() {
+    this.render();
+    this.mount();
+  }
+
+  render() {
+    this.componentElement.innerHTML = `
+      <div class="save-conflict-modal">
+        <h3 class="save-conflict-modal__header">Save Conflict</h3>
+        <div class="save-conflict-modal__content">
+          Someone else saved version ${this.version} of this configuration while you were editing.
+          Your changes have not been saved.
+        </div>
+        <div class="save-conflict-modal__footer">
+          <button class="save-conflict-modal__btn base-button" id="conflict-cancel-btn">Cancel</button>
+          <button class="save-conflict-modal__btn base-button" id="conflict-compare-btn">Compare</button>
+          <button class="save-conflict-modal__btn base-button" id="conflict-reload-btn">Discard Mine &amp; Reload</button>
+          <button class="save-conflict-modal__btn base-button save-conflict-modal__btn--danger" id="conflict-overwrite-btn">Overwrite</button>
+        </div>
+      </div>
+    `;
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+  }
+
+  attachEvents() {
+    const bind = (selector: string, action?: () => void) => {
+      this.componentElement
+        .querySelector(selector)
+        ?.addEventListener("click", () => {
+          this.destroy();
+          if (action) action();
+        });
+    };
+
+    bind("#conflict-cancel-btn");
+    bind("#conflict-compare-btn", this.actions.onCompare);
+    bind("#conflict-reload-btn", this.actions.onReload);
+    bind("#conflict-overwrite-btn", this.actions.onOverwrite);
+
+    // Close on click outside
+    this.componentElement.addEventListener("click", (e) => {
+      if (e.target === this.componentElement) {
+        this.destroy();
+      }
+    });
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+}
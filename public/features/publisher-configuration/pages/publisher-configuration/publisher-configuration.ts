@@ -5,42 +5,63 @@
  * Features:
  * - Loads existing configuration from the API.
  * - dynamically generates a form based on the configuration structure.
- * - Handles saving, change detection, and JSON export.
+ * - Handles saving, change detection, and JSON export (YAML is exported by the server).
+ * - Highlights fields rejected by server-side schema validation.
+ * - Detects concurrent saves (via ETags) and offers conflict resolution.
+ * - Submits changes to active publishers as change requests for review instead of saving them.
+ * - Autosaves unsaved edits as a server-side draft and offers to resume it on the next visit.
+ * - Shows a notice when someone else saves or restores the configuration while it is open, or edits the file outside the tool.
+ * - Shows who else has the configuration open, takes its soft edit lock and lets admins break a stale lock.
+ * - Switches between environments (read-only outside the working environment) and promotes the
+ *   configuration to later environments.
+ * - Shows the values inherited from the base template the configuration extends, and which of them
+ *   it overrides.
  * - Integrates with the Comparison tool to show version diffs.
  */
 
-import { navigateToPublishers } from "../../../../index.js";
+import {
+  navigateToPublisherConfigurations,
+  navigateToPublishers,
+} from "../../../../index.js";
 import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
 import { api } from "../../../../shared/api-client.js";
-import { SnackbarType } from "../../../../shared/enums.js";
+import {
+  ChangeEventType,
+  SnackbarType,
+  UserRole,
+} from "../../../../shared/enums.js";
+import { getCurrentUser, hasRole } from "../../../../shared/session.js";
+import { subscribeToChanges } from "../../../../shared/change-events.js";
 import { FormField } from "../../components/form-field/form-field.js";
-import { Component } from "../../../../shared/interfaces.js";
-import { createElementWithClasses } from "../../../../shared/utils.js";
+import {
+  ChangeDetails,
+  ChangeEvent,
+  Component,
+  Draft,
+  EnvironmentList,
+  PublisherConfig,
+  PublisherPresence,
+  ValidationIssue,
+} from "../../../../shared/interfaces.js";
+import {
+  createElementWithClasses,
+  getChangeHeaders,
+  saveBlob,
+} from "../../../../shared/utils.js";
+import { downloadExport } from "../../../../shared/exports.js";
 import { AddField } from "../../components/add-field/add-field.js";
+import { InheritedValues } from "../../components/inherited-values/inherited-values.js";
 import { CompareConfiguration } from "../../../compare-configuration/modals/compare-configuration/compare-configuration.js";
 import { AreYouSure } from "../../../../shared/modals/are-you-sure/are-you-sure.js";
-
-/**
- * Represents the configuration for a specific page within a publisher's setup.
- */
-interface PageConfig {
-  pageType: string;
-  selector: string;
-  position: string;
-}
-
-/**
- * Represents the full configuration object for a publisher.
- */
-interface PublisherConfig {
-  publisherId: string;
-  aliasName: string;
-  pages: PageConfig[];
-  publisherDashboard: string;
-  monitorDashboard: string;
-  qaStatusDashboard: string;
-  [key: string]: any;
-}
+import { SaveConflict } from "../../modals/save-conflict/save-conflict.js";
+import { ResumeDraft } from "../../modals/resume-draft/resume-draft.js";
+import { ChangeDescription } from "../../../../shared/modals/change-description/change-description.js";
+import { PresenceAvatars } from "../../../../shared/components/presence-avatars/presence-avatars.js";
+import { PromoteConfiguration } from "../../../promote-configuration/modals/promote-configuration/promote-configuration.js";
+import {
+  loadEnvironments,
+  withEnvironment,
+} from "../../../../shared/environments.js";
 
 /** List of keys that are considered mandatory for the configuration. */
 const requiredFields = [
@@ -52,6 +73,15 @@ const requiredFields = [
   "qaStatusDashboard",
 ];
 
+/** How long to wait after the last edit before autosaving the draft. */
+const DRAFT_AUTOSAVE_DELAY_MS = 1500;
+
+/** How long to wait after the last change of 'extends' before loading the new template. */
+const TEMPLATE_RELOAD_DELAY_MS = 800;
+
+/** How often the editor tells the server it is still open (the server forgets it after 45 seconds). */
+const PRESENCE_HEARTBEAT_INTERVAL_MS = 15000;
+
 /**
  * Component responsible for editing the configuration of a specific publisher.
  * Provides a form interface for editing and a JSON preview.
@@ -72,12 +102,82 @@ export class PublisherConfiguration implements Component {
   /** Deep copy of the initial configuration for change detection. */
   initialConfig: PublisherConfig | null = null;
 
+  /** ETag of the server version the current edits are based on. */
+  currentEtag: string | null = null;
+
+  /** Validation issues returned by the server for the last rejected save. */
+  validationErrors: ValidationIssue[] = [];
+
+  /** Pending autosave timer, if an edit has not been saved as a draft yet. */
+  draftTimer: number | undefined;
+
+  /** Whether the server holds a draft of this configuration for the current user. */
+  hasDraft = false;
+
+  /** Ends the subscription to the server's change events. */
+  unsubscribeFromChanges: (() => void) | null = null;
+
+  /** The notice shown above the form about the server copy, if any. */
+  serverNotice: string | null = null;
+
+  /** The newest server version a notice was shown for, so a dismissed notice does not come back. */
+  noticedVersion = 0;
+
+  /** Why the file on the server is not valid JSON, while it is not (the latest version is shown instead). */
+  invalidJson: string | null = null;
+
+  /** Whether the server requires review for the loaded file, e.g. a template active publishers extend. */
+  reviewRequired = false;
+
+  /** Identifies this editor in presence heartbeats, so several open editors of one user are told apart. */
+  presenceSessionId = `${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2)}`;
+
+  /** Timer sending presence heartbeats. */
+  presenceTimer: number | undefined;
+
+  /** Who has the configuration open, as last reported by the server. */
+  presence: PublisherPresence | null = null;
+
+  /** Whether this editor holds the soft edit lock. */
+  holdsLock = false;
+
+  /** The avatars of the other users who have the configuration open. */
+  presenceAvatars: PresenceAvatars | null = null;
+
+  /** The environment shown, or null for the working environment. */
+  environment: string | null;
+
+  /** The environments, once loaded. */
+  environments: EnvironmentList | null = null;
+
+  /** Whether the publisher does not exist in the environment shown (not promoted there yet). */
+  missingInEnvironment = false;
+
+  /** The name of the template the loaded values are inherited from, if any. */
+  inheritedFrom: string | null = null;
+
+  /** The template's resolved values, or null if there is none or it could not be loaded. */
+  inherited: Record<string, unknown> | null = null;
+
+  /** The list of inherited and overridden values. */
+  inheritedValues: InheritedValues | null = null;
+
+  /** Pending reload of the template after 'extends' was edited. */
+  templateTimer: number | undefined;
+
   /**
    * Creates an instance of the PublisherConfiguration component.
    * @param rootElement - The HTML element to mount this component into.
    * @param filename - The name of the configuration file to load.
+   * @param environment - The environment to show, or null for the working environment.
    */
-  constructor(rootElement: HTMLElement, filename: string) {
+  constructor(
+    rootElement: HTMLElement,
+    filename: string,
+    environment: string | null = null
+  ) {
     this.rootElement = rootElement;
     if (!this.rootElement) throw new Error("rootElement is required");
     this.componentElement = createElementWithClasses("div", [
@@ -85,6 +185,10 @@ export class PublisherConfiguration implements Component {
     ]);
 
     this.currentFilename = filename;
+    this.environment = environment;
+
+    window.addEventListener("pagehide", this.flushDraft);
+    window.addEventListener("pagehide", this.leave);
 
     this.init(filename);
   }
@@ -94,10 +198,26 @@ export class PublisherConfiguration implements Component {
    * @param filename - The file to load.
    */
   private async init(filename: string) {
-    await this.loadData(filename);
+    const [environments] = await Promise.all([
+      loadEnvironments(),
+      this.loadData(filename).then(() => this.loadInherited()),
+    ]);
+    this.environments = environments;
 
     this.render();
     this.mount();
+    this.unsubscribeFromChanges = subscribeToChanges((event) =>
+      this.handleChangeEvent(event)
+    );
+    // Presence and edit locks only apply where configurations are edited
+    if (this.isWorkingEnvironment()) {
+      this.presenceTimer = window.setInterval(
+        () => this.sendHeartbeat(),
+        PRESENCE_HEARTBEAT_INTERVAL_MS
+      );
+      await this.sendHeartbeat();
+    }
+    await this.offerDraft();
   }
 
   /**
@@ -107,9 +227,23 @@ export class PublisherConfiguration implements Component {
     this.componentElement.innerHTML = `
       <div class="controls">
         <button id="back-button" class="back-button base-button">Back</button>
-        <button id="save-button" class="save-button base-button">Save Changes</button>
+        <select id="environment-select" class="base-input environment-select" title="Environment"></select>
+        <div class="editor-presence"></div>
+        <button id="break-lock-button" class="break-lock-button base-button" hidden>Break Lock</button>
+        <button id="promote-button" class="promote-button base-button">Promote</button>
+        <button id="save-button" class="save-button base-button">${
+          this.needsReview() ? "Submit for Review" : "Save Changes"
+        }</button>
         <button id="compare-button" class="compare-button base-button">Version Compare</button>
         <button id="download-button" class="download-button base-button">Download JSON</button>
+        <button id="download-yaml-button" class="download-button base-button" title="The saved configuration, merged over its template">Download YAML</button>
+      </div>
+      <div class="environment-notice" hidden></div>
+      <div class="server-notice" hidden>
+        <span class="server-notice__text"></span>
+        <button id="server-notice-reload" class="server-notice__btn base-button">Reload</button>
+        <button id="server-notice-compare" class="server-notice__btn base-button">Compare</button>
+        <button id="server-notice-dismiss" class="server-notice__btn base-button">Dismiss</button>
       </div>
       <div class="content-wrapper">
         <div id="form-container" class="form-container"></div>
@@ -121,6 +255,13 @@ export class PublisherConfiguration implements Component {
       this.generateForm(this.publisherConfig);
       this.updateJsonDisplay();
     }
+    this.renderEnvironment();
+    this.presenceAvatars = new PresenceAvatars(
+      this.componentElement.querySelector(".editor-presence") as HTMLElement,
+      this.presence
+    );
+    this.renderPresence();
+    this.renderServerNotice();
     this.attachEvents();
   }
 
@@ -140,8 +281,12 @@ export class PublisherConfiguration implements Component {
       backButton.addEventListener("click", () => this.goBack());
     }
 
-    const saveButton = this.componentElement.querySelector("#save-button");
+    const saveButton = this.componentElement.querySelector(
+      "#save-button"
+    ) as HTMLButtonElement;
     if (saveButton) {
+      // Viewers can read configurations but not save them
+      saveButton.hidden = !this.canEdit();
       saveButton.addEventListener("click", () => this.saveChanges());
     }
 
@@ -151,17 +296,62 @@ export class PublisherConfiguration implements Component {
       downloadButton.addEventListener("click", () => this.downloadJson());
     }
 
+    this.componentElement
+      .querySelector("#download-yaml-button")
+      ?.addEventListener("click", () => this.downloadYaml());
+
     const compareButton =
       this.componentElement.querySelector("#compare-button");
     if (compareButton) {
       compareButton.addEventListener("click", () => this.openCompareModal());
     }
+
+    this.componentElement
+      .querySelector("#environment-select")
+      ?.addEventListener("change", (e) => {
+        const environment = (e.target as HTMLSelectElement).value;
+        // Unsaved edits are kept as a draft when the page is left
+        navigateToPublisherConfigurations(
+          this.currentFilename,
+          environment === this.environments?.working ? undefined : environment
+        );
+      });
+
+    this.componentElement
+      .querySelector("#promote-button")
+      ?.addEventListener("click", () => this.openPromoteModal());
+
+    this.componentElement
+      .querySelector("#break-lock-button")
+      ?.addEventListener("click", () => this.breakLock());
+
+    this.componentElement
+      .querySelector("#server-notice-reload")
+      ?.addEventListener("click", () => this.reloadFromNotice());
+
+    this.componentElement
+      .querySelector("#server-notice-compare")
+      ?.addEventListener("click", () => this.openCompareModal());
+
+    this.componentElement
+      .querySelector("#server-notice-dismiss")
+      ?.addEventListener("click", () => {
+        this.serverNotice = null;
+        this.renderServerNotice();
+      });
   }
 
   /**
    * Removes the component from the DOM.
    */
   destroy() {
+    this.unsubscribeFromChanges?.();
+    window.clearInterval(this.presenceTimer);
+    window.clearTimeout(this.templateTimer);
+    window.removeEventListener("pagehide", this.flushDraft);
+    window.removeEventListener("pagehide", this.leave);
+    this.flushDraft();
+    this.leave();
     this.componentElement.remove();
   }
 
@@ -171,11 +361,21 @@ export class PublisherConfiguration implements Component {
    */
   private async loadData(filename: string) {
     try {
-      const res = await api.get(`/api/publisher/${filename}`);
+      const res = await api.get(
+        withEnvironment(`/api/publisher/${filename}`, this.environment)
+      );
+      this.missingInEnvironment =
+        res.status === 404 && !this.isWorkingEnvironment();
+      if (this.missingInEnvironment) return;
       if (!res.ok) throw new Error(`Failed to fetch publishers: ${res.status}`);
       const json = await res.json();
       this.publisherConfig = json;
       this.initialConfig = JSON.parse(JSON.stringify(json));
+      this.currentEtag = res.headers.get("ETag");
+      this.noticedVersion = this.getBaseVersion();
+      const invalid = res.headers.get("X-Invalid-Json");
+      this.setInvalidJson(invalid && decodeURIComponent(invalid));
+      this.reviewRequired = res.headers.get("X-Review-Required") === "true";
     } catch (error) {
       console.error("Failed to fetch publishers, using fallback data", error);
       new Snackbar("Failed to fetch publishers", SnackbarType.ERROR);
@@ -191,6 +391,15 @@ export class PublisherConfiguration implements Component {
       "#form-container"
     ) as HTMLElement;
 
+    if (this.validationErrors.length > 0) {
+      formContainer.appendChild(this.getValidationSummaryElement());
+    }
+
+    formContainer.appendChild(
+      createElementWithClasses("div", ["inherited-values-container"])
+    );
+    this.renderInheritedValues();
+
     const requiredFieldsElement = this.getRequiredFieldsElement(fields);
     formContainer.appendChild(requiredFieldsElement);
 
@@ -216,6 +425,344 @@ export class PublisherConfiguration implements Component {
     if (pre) {
       pre.textContent = JSON.stringify(this.publisherConfig, null, 2);
     }
+    this.inheritedValues?.update();
+    if (this.getExtendedTemplate() !== this.inheritedFrom) {
+      this.scheduleTemplateReload();
+    }
+    this.scheduleDraftSave();
+  }
+
+  /**
+   * Checks whether the configuration differs from the version it was loaded from.
+   */
+  private hasChanges() {
+    return (
+      JSON.stringify(this.publisherConfig) !==
+      JSON.stringify(this.initialConfig)
+    );
+  }
+
+  /**
+   * Returns the version the current edits are based on, read from the ETag.
+   */
+  private getBaseVersion() {
+    return parseInt((this.currentEtag || "").replace(/\D/g, ""), 10);
+  }
+
+  /**
+   * Shows a notice when someone else saves or restores this configuration, or when the file on the
+   * server became invalid JSON.
+   * @param event - A change pushed by the server.
+   */
+  private handleChangeEvent(event: ChangeEvent) {
+    if (event.file !== this.currentFilename) return;
+    if (
+      (event.environment || this.environments?.working) !==
+      this.getEnvironmentName()
+    ) {
+      return;
+    }
+
+    if (event.type === ChangeEventType.PRESENCE) {
+      this.presence = event.presence || null;
+      this.renderPresence();
+      return;
+    }
+
+    if (event.type === ChangeEventType.INVALID) {
+      this.setInvalidJson(event.error || "invalid JSON");
+      return;
+    }
+
+    if (!event.version || event.version <= this.noticedVersion) return;
+    this.noticedVersion = event.version;
+    // A new version means the file holds valid JSON again
+    this.invalidJson = null;
+
+    // Own saves are confirmed by the save itself; conflicts with other tabs are caught on saving
+    if (event.author === getCurrentUser()?.username && !event.external) {
+      this.serverNotice = null;
+    } else if (event.external) {
+      this.serverNotice = `v${event.version} was recorded from an edit of the file outside the tool.`;
+    } else if (event.type === ChangeEventType.RESTORE) {
+      this.serverNotice = `v${event.version} was restored from v${event.restoredFrom} by ${event.author}.`;
+    } else {
+      this.serverNotice = `v${event.version} was saved by someone else (${event.author}).`;
+    }
+    this.renderServerNotice();
+  }
+
+  /**
+   * Tells the server the configuration is still open and learns who else has it open. Editors take the
+   * soft edit lock with their first heartbeat, unless someone else holds it.
+   * Failures are only logged: presence must never interrupt editing.
+   */
+  private async sendHeartbeat() {
+    try {
+      const res = await api.postInBackground(
+        `/api/presence/${this.currentFilename}`,
+        { sessionId: this.presenceSessionId }
+      );
+      if (!res.ok) throw new Error(`Failed to send heartbeat: ${res.status}`);
+      const body = await res.json();
+
+      if (this.holdsLock && !body.holdsLock) {
+        new Snackbar(
+          "You no longer hold the edit lock of this publisher",
+          SnackbarType.INFO
+        );
+      }
+      this.holdsLock = body.holdsLock;
+      this.presence = body;
+      this.renderPresence();
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  /**
+   * Tells the server the configuration was closed, releasing the edit lock.
+   * Kept as a property so it can be registered for 'pagehide'.
+   */
+  private leave = () => {
+    if (!this.isWorkingEnvironment()) return;
+    api
+      .deleteInBackground(
+        `/api/presence/${this.currentFilename}/${this.presenceSessionId}`,
+        { keepalive: true }
+      )
+      .catch((error) => console.error(error));
+  };
+
+  /**
+   * Returns the other user who holds the edit lock, if any.
+   */
+  private getLockHolder() {
+    const lock = this.presence?.lock;
+    return lock && lock.username !== getCurrentUser()?.username
+      ? lock.username
+      : null;
+  }
+
+  /**
+   * Shows who else has the configuration open, and the Break Lock button for admins while another
+   * user holds the lock.
+   */
+  private renderPresence() {
+    this.presenceAvatars?.update(this.presence);
+
+    const breakLockButton = this.componentElement.querySelector(
+      "#break-lock-button"
+    ) as HTMLButtonElement | null;
+    if (breakLockButton) {
+      breakLockButton.hidden =
+        !hasRole(UserRole.ADMIN) || this.getLockHolder() === null;
+    }
+  }
+
+  /**
+   * Asks for confirmation and releases another user's edit lock (admins only), e.g. one held by an
+   * editor that was left open.
+   */
+  private breakLock() {
+    const holder = this.getLockHolder();
+    if (!holder) return;
+
+    new AreYouSure(
+      document.body,
+      async () => {
+        const res = await api.delete(
+          `/api/presence/${this.currentFilename}/lock`
+        );
+        if (!res.ok) {
+          const body = await res.json();
+          new Snackbar(
+            body.error || "Failed to break lock",
+            SnackbarType.ERROR
+          );
+          return;
+        }
+        new Snackbar(`Broke ${holder}'s lock`, SnackbarType.SUCCESS);
+        await this.sendHeartbeat();
+      },
+      "Break Lock?",
+      `${holder} will no longer be shown as editing this publisher. Their unsaved changes are kept in their editor and their draft.`
+    );
+  }
+
+  /**
+   * Records why the file on the server is invalid JSON (or that it is valid) and explains it in the notice.
+   * @param error - The parse error, or null if the file is valid.
+   */
+  private setInvalidJson(error: string | null) {
+    this.invalidJson = error;
+    this.serverNotice = error
+      ? `The file on the server was edited outside the tool and is not valid JSON (${error}). Showing the last valid version, v${this.getBaseVersion()}; saving replaces the file.`
+      : null;
+    this.renderServerNotice();
+  }
+
+  /**
+   * Shows or hides the server copy notice.
+   */
+  private renderServerNotice() {
+    const notice = this.componentElement.querySelector(
+      ".server-notice"
+    ) as HTMLElement | null;
+    if (!notice) return;
+
+    notice.hidden = !this.serverNotice;
+    (notice.querySelector(".server-notice__text") as HTMLElement).textContent =
+      this.serverNotice || "";
+  }
+
+  /**
+   * Reloads the server copy from the notice, confirming first if there are unsaved edits.
+   */
+  private reloadFromNotice() {
+    if (!this.hasChanges()) {
+      this.reload();
+      return;
+    }
+
+    new AreYouSure(
+      document.body,
+      () => this.reload(),
+      "Reload Configuration?",
+      "Your unsaved changes and their draft will be replaced by the version on the server."
+    );
+  }
+
+  /**
+   * Loads the user's draft of this configuration, if any, and asks whether to resume it.
+   * Drafts identical to the loaded version are deleted without asking.
+   */
+  private async offerDraft() {
+    if (!this.canEdit() || !this.publisherConfig) return;
+
+    try {
+      const res = await api.get(`/api/drafts/${this.currentFilename}`);
+      if (!res.ok) return;
+      const draft: Draft = await res.json();
+
+      if (
+        JSON.stringify(draft.content) === JSON.stringify(this.initialConfig)
+      ) {
+        await api.delete(`/api/drafts/${this.currentFilename}`);
+        return;
+      }
+
+      this.hasDraft = true;
+      new ResumeDraft(document.body, draft, this.getBaseVersion(), {
+        onResume: () => {
+          this.publisherConfig = draft.content as PublisherConfig;
+          this.currentEtag = `"${draft.baseVersion}"`;
+          this.render();
+          new Snackbar("Draft restored", SnackbarType.INFO);
+        },
+        onDiscard: () => this.discardDraft(),
+      });
+    } catch (error) {
+      console.error("Failed to load draft", error);
+    }
+  }
+
+  /**
+   * Autosaves the working copy as a draft once the user stops editing for a moment.
+   */
+  private scheduleDraftSave() {
+    if (!this.canEdit()) return;
+    window.clearTimeout(this.draftTimer);
+    this.draftTimer = window.setTimeout(
+      () => this.saveDraft(),
+      DRAFT_AUTOSAVE_DELAY_MS
+    );
+  }
+
+  /**
+   * Saves a pending autosave right away, e.g. when the page is closed or the editor is left.
+   * An arrow function so it can be registered and removed as an event listener.
+   */
+  private flushDraft = () => {
+    if (this.draftTimer === undefined) return;
+    window.clearTimeout(this.draftTimer);
+    this.saveDraft(true);
+  };
+
+  /**
+   * Stores the working copy as the user's draft, or deletes the draft once the edits are undone.
+   * Failures are only logged: autosaving must never interrupt editing.
+   * @param keepalive - Whether the request must outlive the page (used while unloading).
+   */
+  private async saveDraft(keepalive = false) {
+    this.draftTimer = undefined;
+    if (!this.publisherConfig) return;
+
+    try {
+      if (!this.hasChanges()) {
+        if (this.hasDraft) await this.discardDraft(keepalive);
+        return;
+      }
+
+      const res = await api.putInBackground(
+        `/api/drafts/${this.currentFilename}`,
+        { content: this.publisherConfig, baseVersion: this.getBaseVersion() },
+        { keepalive }
+      );
+      this.hasDraft = res.ok;
+    } catch (error) {
+      console.error("Failed to autosave draft", error);
+    }
+  }
+
+  /**
+   * Deletes the user's draft of this configuration.
+   * @param keepalive - Whether the request must outlive the page (used while unloading).
+   */
+  private async discardDraft(keepalive = false) {
+    window.clearTimeout(this.draftTimer);
+    this.draftTimer = undefined;
+    this.hasDraft = false;
+    try {
+      await api.delete(`/api/drafts/${this.currentFilename}`, { keepalive });
+    } catch (error) {
+      console.error("Failed to discard draft", error);
+    }
+  }
+
+  /**
+   * Generates a summary of all validation issues, including those for fields that are missing entirely.
+   * @returns The constructed HTML element for the summary.
+   */
+  private getValidationSummaryElement() {
+    const summary = createElementWithClasses("div", ["validation-summary"]);
+    summary.innerHTML = `
+      <h3 class="validation-summary__header">Fix the following before saving</h3>
+      <ul class="validation-summary__list"></ul>
+    `;
+
+    const list = summary.querySelector("ul") as HTMLElement;
+    this.validationErrors.forEach((issue) => {
+      const item = document.createElement("li");
+      item.textContent = `${issue.path || "Configuration"} ${issue.message}`;
+      list.appendChild(item);
+    });
+
+    return summary;
+  }
+
+  /**
+   * Returns the validation issues reported for a top-level field or anything nested inside it.
+   * @param key - The top-level field name.
+   * @returns The matching validation issues.
+   */
+  private getFieldErrors(key: string) {
+    return this.validationErrors.filter(
+      (issue) =>
+        issue.path === key ||
+        issue.path.startsWith(`${key}.`) ||
+        issue.path.startsWith(`${key}[`)
+    );
   }
 
   /**
@@ -246,7 +793,8 @@ export class PublisherConfiguration implements Component {
           key,
           () => this.updateJsonDisplay(),
           undefined,
-          true // isFixedStructure: true for required fields
+          true, // isFixedStructure: true for required fields
+          this.getFieldErrors(key)
         );
       }
     });
@@ -278,20 +826,27 @@ export class PublisherConfiguration implements Component {
       "#optional-fields-section"
     ) as HTMLElement;
 
+    // Viewers can browse the configuration but not add or remove fields
+    const canEdit = this.canEdit();
+
     optionalFieldsKeys.forEach((key) => {
       new FormField(
         optionalFieldsSection,
         fields,
         key,
         () => this.updateJsonDisplay(),
-        () => {
-          delete fields[key];
-          this.render();
-        }
+        canEdit
+          ? () => {
+              delete fields[key];
+              this.render();
+            }
+          : undefined,
+        false,
+        this.getFieldErrors(key)
       );
     });
 
-    this.createAddFieldUI(optionalFieldsContainer, fields);
+    if (canEdit) this.createAddFieldUI(optionalFieldsContainer, fields);
 
     return optionalFieldsContainer;
   }
@@ -329,73 +884,394 @@ export class PublisherConfiguration implements Component {
    * Navigates back to the main publishers list.
    */
   private goBack() {
-    if (
-      JSON.stringify(this.publisherConfig) ===
-      JSON.stringify(this.initialConfig)
-    ) {
+    if (!this.hasChanges()) {
       navigateToPublishers();
       return;
     }
 
     new AreYouSure(
       document.body,
-      () => {
+      async () => {
+        await this.discardDraft();
         navigateToPublishers();
       },
       "Discard Changes?",
-      "You have unsaved changes. Are you sure you want to leave? Your changes will be lost."
+      "You have unsaved changes. Are you sure you want to leave? Your changes and their draft will be lost."
     );
   }
 
   /**
-   * Simulates saving the changes (currently just logs to console and shows a status message).
+   * Checks whether saving goes through a change request: active publishers, edits that activate a
+   * publisher and templates active publishers extend only change after another user approved the change.
    */
-  private async saveChanges() {
-    if (
-      JSON.stringify(this.publisherConfig) ===
-      JSON.stringify(this.initialConfig)
-    ) {
+  private needsReview() {
+    return (
+      this.reviewRequired ||
+      this.initialConfig?.isActive === true ||
+      this.publisherConfig?.isActive === true
+    );
+  }
+
+  /**
+   * Asks for a change description and saves the changes (or submits them for review).
+   */
+  private async saveChanges(lockConfirmed = false) {
+    if (!this.hasChanges()) {
       new Snackbar("No changes were made", SnackbarType.INFO);
       return;
     }
 
-    const handleSave = async () => {
-      try {
-        const res = await api.put(
-          `/api/publisher/${this.currentFilename}`,
-          this.publisherConfig
-        );
-
-        if (!res.ok) throw new Error("Failed to save");
+    // The lock is soft: saving is still possible once the user confirms
+    const holder = this.getLockHolder();
+    if (holder && !lockConfirmed) {
+      new AreYouSure(
+        document.body,
+        () => this.saveChanges(true),
+        "Save Anyway?",
+        `${holder} opened this publisher first and may be changing it right now. Save your changes anyway?`
+      );
+      return;
+    }
 
-        this.initialConfig = JSON.parse(JSON.stringify(this.publisherConfig));
-        new Snackbar("Configuration saved successfully!", SnackbarType.SUCCESS);
-      } catch (error) {
-        console.error("Save failed", error);
-        new Snackbar("Failed to save configuration.", SnackbarType.ERROR);
-      }
-    };
+    if (this.needsReview()) {
+      new ChangeDescription(
+        document.body,
+        (details) => this.submitConfig(details),
+        "Submit for Review?",
+        this.initialConfig?.isActive === true ||
+        this.publisherConfig?.isActive === true
+          ? "This publisher is active, so the change goes live only after another user approves it. Describe your change for the reviewer."
+          : "Active publishers extend this template, so the change goes live only after another user approves it. Describe your change for the reviewer."
+      );
+      return;
+    }
 
-    new AreYouSure(
+    new ChangeDescription(
       document.body,
-      handleSave,
+      (details) => this.submitConfig(details),
       "Save Changes?",
-      "Are you sure you want to save your changes? This will overwrite the current configuration."
+      "Describe your change. It will be recorded in the version history."
     );
   }
 
+  /**
+   * Sends the current configuration to the server, based on the version it was loaded from: saved
+   * directly, or as a change request for active publishers.
+   * Handles validation failures and concurrent modification conflicts.
+   * @param details - Who made the change and why, recorded with the new version.
+   */
+  private async submitConfig(details: ChangeDetails) {
+    try {
+      const review = this.needsReview();
+      const res = review
+        ? await api.post(
+            `/api/publisher/${this.currentFilename}/change-requests`,
+            {
+              content: this.publisherConfig,
+              baseVersion: this.getBaseVersion(),
+            },
+            { headers: getChangeHeaders(details) }
+          )
+        : await api.put(
+            `/api/publisher/${this.currentFilename}`,
+            this.publisherConfig,
+            {
+              headers: {
+                "If-Match": this.currentEtag || "",
+                ...getChangeHeaders(details),
+              },
+            }
+          );
+
+      if (res.status === 422) {
+        const body = await res.json();
+        this.validationErrors = Array.isArray(body.details) ? body.details : [];
+        this.render();
+        new Snackbar(
+          "Configuration is invalid. Fix the highlighted fields.",
+          SnackbarType.ERROR
+        );
+        return;
+      }
+
+      if (res.status === 409) {
+        const body = await res.json();
+        if (body.reviewRequired || !body.version) {
+          new Snackbar(body.error, SnackbarType.ERROR);
+          return;
+        }
+        this.handleConflict(
+          body.version,
+          body.current,
+          res.headers.get("ETag"),
+          details
+        );
+        return;
+      }
+
+      if (!res.ok) throw new Error("Failed to save");
+
+      // The server drops the draft once the change is saved or submitted
+      window.clearTimeout(this.draftTimer);
+      this.draftTimer = undefined;
+      this.hasDraft = false;
+
+      if (review) {
+        const { changeRequest } = await res.json();
+        new Snackbar(
+          `Change request #${changeRequest.id} submitted for review`,
+          SnackbarType.SUCCESS
+        );
+        await this.reload();
+        return;
+      }
+
+      this.initialConfig = JSON.parse(JSON.stringify(this.publisherConfig));
+      this.currentEtag = res.headers.get("ETag");
+      this.noticedVersion = Math.max(
+        this.noticedVersion,
+        this.getBaseVersion()
+      );
+      if (this.validationErrors.length > 0) {
+        this.validationErrors = [];
+        this.render();
+      }
+      new Snackbar("Configuration saved successfully!", SnackbarType.SUCCESS);
+    } catch (error) {
+      console.error("Save failed", error);
+      new Snackbar("Failed to save configuration.", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Shows the conflict dialog after a save was rejected because the server copy changed.
+   * @param version - The version currently stored on the server.
+   * @param serverConfig - The configuration currently stored on the server.
+   * @param serverEtag - The ETag of the server copy.
+   * @param details - The change details of the rejected save, reused when overwriting.
+   */
+  private handleConflict(
+    version: number,
+    serverConfig: PublisherConfig,
+    serverEtag: string | null,
+    details: ChangeDetails
+  ) {
+    new SaveConflict(document.body, version, {
+      onCompare: () => {
+        if (!this.publisherConfig) return;
+        new CompareConfiguration(
+          document.body,
+          this.publisherConfig,
+          this.currentFilename
+        );
+      },
+      onReload: () => {
+        this.publisherConfig = serverConfig;
+        this.initialConfig = JSON.parse(JSON.stringify(serverConfig));
+        this.currentEtag = serverEtag;
+        this.validationErrors = [];
+        this.render();
+        new Snackbar(`Loaded version ${version}`, SnackbarType.INFO);
+      },
+      onOverwrite: () => {
+        this.currentEtag = serverEtag;
+        this.submitConfig(details);
+      },
+    });
+  }
+
   /**
    * Opens the comparison modal to show differences between the initial and current configuration.
    */
   private openCompareModal() {
+    if (!this.publisherConfig) return;
     new CompareConfiguration(
       document.body, // Mount to body to overlay everything
-      this.initialConfig,
       this.publisherConfig,
-      this.currentFilename // Pass filename to fetch versions
+      this.currentFilename, // Pass filename to fetch versions
+      this.canEdit() ? () => this.reload() : undefined,
+      this.environment
+    );
+  }
+
+  /**
+   * Opens the modal for promoting the configuration to a later environment.
+   */
+  private openPromoteModal() {
+    new PromoteConfiguration(
+      document.body,
+      this.currentFilename,
+      this.getEnvironmentName(),
+      this.getLaterEnvironments()
     );
   }
 
+  /**
+   * Returns the environment shown, by name.
+   */
+  private getEnvironmentName() {
+    return this.environment || this.environments?.working || "";
+  }
+
+  /**
+   * Checks whether the working environment is shown. Other environments are read-only.
+   */
+  private isWorkingEnvironment() {
+    return !this.environment || this.environment === this.environments?.working;
+  }
+
+  /**
+   * Checks whether the signed-in user can edit what is shown: editors, in the working environment.
+   */
+  private canEdit() {
+    return hasRole(UserRole.EDITOR) && this.isWorkingEnvironment();
+  }
+
+  /**
+   * Returns the environments the shown configuration can be promoted to.
+   */
+  private getLaterEnvironments() {
+    const names = this.environments?.environments || [];
+    return names.slice(names.indexOf(this.getEnvironmentName()) + 1);
+  }
+
+  /**
+   * Fills the environment switcher, shows the Promote button to editors and explains what is shown
+   * outside the working environment, where the form is read-only.
+   */
+  private renderEnvironment() {
+    const names = this.environments?.environments || [];
+    const select = this.componentElement.querySelector(
+      "#environment-select"
+    ) as HTMLSelectElement | null;
+    if (select) {
+      names.forEach((name) => {
+        const option = document.createElement("option");
+        option.value = name;
+        option.textContent = name;
+        select.appendChild(option);
+      });
+      select.value = this.getEnvironmentName();
+      select.hidden = names.length < 2;
+    }
+
+    const promoteButton = this.componentElement.querySelector(
+      "#promote-button"
+    ) as HTMLButtonElement | null;
+    if (promoteButton) {
+      promoteButton.hidden =
+        !hasRole(UserRole.EDITOR) ||
+        this.missingInEnvironment ||
+        this.getLaterEnvironments().length === 0;
+    }
+
+    const notice = this.componentElement.querySelector(
+      ".environment-notice"
+    ) as HTMLElement | null;
+    if (!notice) return;
+    notice.hidden = this.isWorkingEnvironment();
+    if (this.missingInEnvironment) {
+      notice.textContent = `${
+        this.currentFilename
+      } does not exist in ${this.getEnvironmentName()} yet. Promote it from ${
+        this.environments?.working
+      } to add it.`;
+    } else {
+      notice.textContent = `Viewing v${this.getBaseVersion()} in ${this.getEnvironmentName()}. Configurations here are read-only and change only by promotion from an earlier environment.`;
+    }
+
+    if (!this.isWorkingEnvironment()) {
+      this.componentElement
+        .querySelectorAll<
+          | HTMLInputElement
+          | HTMLSelectElement
+          | HTMLTextAreaElement
+          | HTMLButtonElement
+        >(
+          "#form-container input, #form-container select, #form-container textarea, #form-container button"
+        )
+        .forEach((element) => (element.disabled = true));
+    }
+  }
+
+  /**
+   * Reloads the configuration from the server, discarding local edits.
+   */
+  private async reload() {
+    this.validationErrors = [];
+    await this.loadData(this.currentFilename);
+    await this.loadInherited();
+    this.render();
+  }
+
+  /**
+   * Returns the name of the template the configuration extends, if any.
+   */
+  private getExtendedTemplate() {
+    const template = this.publisherConfig?.extends;
+    return typeof template === "string" && template ? template : null;
+  }
+
+  /**
+   * Loads the resolved values of the template the configuration extends.
+   * A template that cannot be loaded (e.g. while its name is being typed) leaves no inherited values.
+   */
+  private async loadInherited() {
+    const template = this.getExtendedTemplate();
+    this.inheritedFrom = template;
+    this.inherited = null;
+    if (!template) return;
+
+    try {
+      const res = await api.getInBackground(
+        withEnvironment(
+          `/api/publisher/template-${encodeURIComponent(
+            template
+          )}.json?resolved=true`,
+          this.environment
+        )
+      );
+      if (!res.ok) throw new Error(`Failed to load template: ${res.status}`);
+      this.inherited = await res.json();
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  /**
+   * Shows the inherited values above the form, for configurations extending a template.
+   */
+  private renderInheritedValues() {
+    const container = this.componentElement.querySelector(
+      ".inherited-values-container"
+    ) as HTMLElement | null;
+    if (!container || !this.publisherConfig) return;
+
+    container.innerHTML = "";
+    this.inheritedValues = this.inheritedFrom
+      ? new InheritedValues(
+          container,
+          this.publisherConfig,
+          this.inheritedFrom,
+          this.inherited,
+          () => this.render(),
+          this.canEdit()
+        )
+      : null;
+  }
+
+  /**
+   * Loads the new template once 'extends' stopped changing. Only the inherited values are re-rendered,
+   * so the field being typed in keeps its focus.
+   */
+  private scheduleTemplateReload() {
+    window.clearTimeout(this.templateTimer);
+    this.templateTimer = window.setTimeout(async () => {
+      await this.loadInherited();
+      this.renderInheritedValues();
+    }, TEMPLATE_RELOAD_DELAY_MS);
+  }
+
   /**
    * Triggers a browser download of the current configuration as a JSON file.
    */
@@ -404,13 +1280,27 @@ export class PublisherConfiguration implements Component {
     const blob = new Blob([JSON.stringify(this.publisherConfig, null, 2)], {
       type: "application/json",
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = this.currentFilename || "publisher-config.json";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    saveBlob(blob, this.currentFilename || "publisher-config.json");
+  }
+
+  /**
+   * Downloads the saved configuration as YAML for review, merged over its template. Unlike the JSON
+   * download, it does not include unsaved edits.
+   */
+  private async downloadYaml() {
+    if (!this.publisherConfig) return;
+    const downloaded = await downloadExport(
+      withEnvironment(
+        `/api/publisher/${this.currentFilename}/export.yaml?resolved=true`,
+        this.environment
+      ),
+      this.currentFilename.replace(/\.json$/, ".yaml")
+    );
+    if (downloaded && this.hasChanges()) {
+      new Snackbar(
+        "The YAML holds the saved version; your unsaved edits are not included",
+        SnackbarType.INFO
+      );
+    }
   }
 }
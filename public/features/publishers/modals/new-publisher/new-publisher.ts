@@ -0,0 +1,358 @@
+/**
+ * New Publisher Wizard
+ *
+ * A multi-step modal for onboarding a publisher.
+ * Features:
+ * - Collects the publisher ID and alias, dashboard URLs and initial page placements.
+ * - Validates each step before moving on and shows server-side validation errors.
+ * - Creates the publisher through the API (config file, registry entry and history).
+ */
+
+import { Component, ValidationIssue } from "../../../../shared/interfaces.js";
+import {
+  createElementWithClasses,
+  getChangeHeaders,
+  getStoredAuthor,
+} from "../../../../shared/utils.js";
+import { api } from "../../../../shared/api-client.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import { SnackbarType } from "../../../../shared/enums.js";
+import { Publisher } from "../../pages/publishers/publishers.js";
+
+/**
+ * A page placement entered in the wizard.
+ */
+interface PageDraft {
+  pageType: string;
+  selector: string;
+  position: string;
+}
+
+/**
+ * The details collected by the wizard.
+ */
+interface NewPublisherDraft {
+  id: string;
+  alias: string;
+  publisherDashboard: string;
+  monitorDashboard: string;
+  qaStatusDashboard: string;
+  pages: PageDraft[];
+}
+
+/** Draft fields edited through plain text inputs. */
+type TextFieldKey = Exclude<keyof NewPublisherDraft, "pages">;
+
+/** Titles of the wizard steps, in order. */
+const STEPS = ["Identity", "Dashboards", "Pages", "Review"];
+
+/** Text inputs shown on the first two steps, keyed by draft field. */
+const STEP_FIELDS: { key: TextFieldKey; label: string }[][] = [
+  [
+    { key: "id", label: "Publisher ID (e.g. pub-aurora)" },
+    { key: "alias", label: "Alias (e.g. Aurora Media)" },
+  ],
+  [
+    { key: "publisherDashboard", label: "Publisher dashboard URL" },
+    { key: "monitorDashboard", label: "Monitor dashboard URL" },
+    { key: "qaStatusDashboard", label: "QA status dashboard URL" },
+  ],
+];
+
+/**
+ * A modal wizard that creates a new publisher.
+ */
+export class NewPublisher implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  /** Called with the new registry entry once the publisher was created. */
+  onCreated: (publisher: Publisher) => void;
+  /** Index of the current step in STEPS. */
+  private step: number = 0;
+  /** The details entered so far. */
+  private draft: NewPublisherDraft = {
+    id: "",
+    alias: "",
+    publisherDashboard: "",
+    monitorDashboard: "",
+    qaStatusDashboard: "",
+    pages: [{ pageType: "homepage", selector: "main", position: "top" }],
+  };
+  /** Errors shown at the top of the current step. */
+  private errors: string[] = [];
+
+  /**
+   * Creates an instance of NewPublisher.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   * @param onCreated - Called with the new registry entry after creation.
+   */
+  constructor(
+    rootElement: HTMLElement,
+    onCreated: (publisher: Publisher) => void
+  ) {
+    this.rootElement = rootElement;
+    this.onCreated = onCreated;
+
+    this.componentElement = createElementWithClasses("div", [
+      "new-publisher-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private init() {
+    this.render();
+    this.mount();
+  }
+
+  render() {
+    const isLastStep = this.step === STEPS.length - 1;
+
+    this.componentElement.innerHTML = `
+      <div class="new-publisher-modal">
+        <h3 class="new-publisher-modal__header">New Publisher</h3>
+        <ol class="new-publisher-modal__steps">
+          ${STEPS.map(
+            (title, index) =>
+              `<li class="new-publisher-modal__step ${
+                index === this.step ? "active" : ""
+              } ${index < this.step ? "done" : ""}">${title}</li>`
+          ).join("")}
+        </ol>
+        <ul class="new-publisher-modal__errors"></ul>
+        <div class="new-publisher-modal__content"></div>
+        <div class="new-publisher-modal__footer">
+          <button class="new-publisher-modal__btn base-button" id="wizard-cancel-btn">Cancel</button>
+          <button class="new-publisher-modal__btn base-button" id="wizard-back-btn" ${
+            this.step === 0 ? "disabled" : ""
+          }>Back</button>
+          <button class="new-publisher-modal__btn new-publisher-modal__btn--primary base-button" id="wizard-next-btn">${
+            isLastStep ? "Create Publisher" : "Next"
+          }</button>
+        </div>
+      </div>
+    `;
+
+    const errorList = this.componentElement.querySelector(
+      ".new-publisher-modal__errors"
+    ) as HTMLElement;
+    this.errors.forEach((error) => {
+      const item = document.createElement("li");
+      item.textContent = error;
+      errorList.appendChild(item);
+    });
+
+    const content = this.componentElement.querySelector(
+      ".new-publisher-modal__content"
+    ) as HTMLElement;
+    if (this.step < STEP_FIELDS.length) {
+      this.renderFieldsStep(content, STEP_FIELDS[this.step]);
+    } else if (this.step === 2) {
+      this.renderPagesStep(content);
+    } else {
+      this.renderReviewStep(content);
+    }
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+  }
+
+  attachEvents() {
+    this.componentElement
+      .querySelector("#wizard-cancel-btn")
+      ?.addEventListener("click", () => this.destroy());
+
+    this.componentElement
+      .querySelector("#wizard-back-btn")
+      ?.addEventListener("click", () => {
+        this.errors = [];
+        this.step--;
+        this.render();
+      });
+
+    this.componentElement
+      .querySelector("#wizard-next-btn")
+      ?.addEventListener("click", () => this.handleNext());
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+
+  /**
+   * Renders labelled text inputs bound to draft fields.
+   * @param container - The step content element.
+   * @param fields - The fields to render.
+   */
+  private renderFieldsStep(
+    container: HTMLElement,
+    fields: { key: TextFieldKey; label: string }[]
+  ) {
+    fields.forEach(({ key, label }) => {
+      const labelElement = createElementWithClasses("label", [
+        "new-publisher-modal__label",
+      ]);
+      labelElement.textContent = label;
+
+      const input = createElementWithClasses("input", [
+        "base-input",
+      ]) as HTMLInputElement;
+      input.type = "text";
+      input.value = this.draft[key];
+      input.addEventListener("input", () => {
+        this.draft[key] = input.value.trim();
+      });
+
+      labelElement.appendChild(input);
+      container.appendChild(labelElement);
+    });
+  }
+
+  /**
+   * Renders the editable list of initial page placements.
+   * @param container - The step content element.
+   */
+  private renderPagesStep(container: HTMLElement) {
+    this.draft.pages.forEach((page, index) => {
+      const row = createElementWithClasses("div", [
+        "new-publisher-modal__page-row",
+      ]);
+
+      (["pageType", "selector", "position"] as (keyof PageDraft)[]).forEach(
+        (key) => {
+          const input = createElementWithClasses("input", [
+            "base-input",
+          ]) as HTMLInputElement;
+          input.placeholder = key;
+          input.value = page[key];
+          input.addEventListener("input", () => {
+            page[key] = input.value.trim();
+          });
+          row.appendChild(input);
+        }
+      );
+
+      const removeButton = createElementWithClasses("button", [
+        "delete-button",
+        "base-button",
+      ]);
+      removeButton.textContent = "Remove";
+      removeButton.addEventListener("click", () => {
+        this.draft.pages.splice(index, 1);
+        this.render();
+      });
+      row.appendChild(removeButton);
+
+      container.appendChild(row);
+    });
+
+    const addButton = createElementWithClasses("button", [
+      "add-button",
+      "base-button",
+    ]);
+    addButton.textContent = "+ Add Page";
+    addButton.addEventListener("click", () => {
+      this.draft.pages.push({ pageType: "", selector: "", position: "" });
+      this.render();
+    });
+    container.appendChild(addButton);
+  }
+
+  /**
+   * Renders a read-only summary of the collected details.
+   * @param container - The step content element.
+   */
+  private renderReviewStep(container: HTMLElement) {
+    const preview = createElementWithClasses("pre", [
+      "new-publisher-modal__preview",
+    ]);
+    preview.textContent = JSON.stringify(this.draft, null, 2);
+    container.appendChild(preview);
+  }
+
+  /**
+   * Returns the problems that block leaving the current step.
+   */
+  private getStepErrors(): string[] {
+    if (this.step < STEP_FIELDS.length) {
+      return STEP_FIELDS[this.step]
+        .filter(({ key }) => !this.draft[key])
+        .map(({ label }) => `${label} is required`);
+    }
+    if (this.step === 2) {
+      if (this.draft.pages.length === 0) return ["Add at least one page"];
+      return this.draft.pages.some(
+        (page) => !page.pageType || !page.selector || !page.position
+      )
+        ? ["Every page needs a page type, selector and position"]
+        : [];
+    }
+    return [];
+  }
+
+  /**
+   * Validates the current step and moves to the next one, or creates the publisher on the last step.
+   */
+  private handleNext() {
+    this.errors = this.getStepErrors();
+    if (this.errors.length > 0) {
+      this.render();
+      return;
+    }
+
+    if (this.step === STEPS.length - 1) {
+      this.createPublisher();
+      return;
+    }
+
+    this.step++;
+    this.render();
+  }
+
+  /**
+   * Sends the collected details to the server.
+   */
+  private async createPublisher() {
+    try {
+      const res = await api.post("/api/publishers", this.draft, {
+        headers: getChangeHeaders({
+          author: getStoredAuthor(),
+          message: `Created publisher ${this.draft.id}`,
+        }),
+      });
+      const body = await res.json();
+
+      if (res.status === 409 || res.status === 422) {
+        const details: ValidationIssue[] = Array.isArray(body.details)
+          ? body.details
+          : [];
+        this.errors = details.length
+          ? details.map((issue) => `${issue.path} ${issue.message}`)
+          : [body.error];
+        this.render();
+        return;
+      }
+
+      if (!res.ok) throw new Error(body.error || "Failed to create");
+
+      new Snackbar(
+        `Publisher ${body.publisher.id} created`,
+        SnackbarType.SUCCESS
+      );
+      this.destroy();
+      this.onCreated(body.publisher);
+    } catch (error) {
+      console.error("Failed to create publisher", error);
+      new Snackbar("Failed to create publisher", SnackbarType.ERROR);
+    }
+  }
+}
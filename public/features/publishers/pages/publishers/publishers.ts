@@ -5,15 +5,55 @@
  * Features:
  * - Fetches and displays a list of publishers.
  * - Provides search/filtering functionality.
+ * - Offers an advanced search over the configuration contents, showing the matching paths per row.
  * - Navigates to the configuration editor for a selected publisher.
+ * - Opens the wizard for onboarding a new publisher.
+ * - Archives publishers and restores archived ones.
+ * - Flags publishers with open change requests and links to the Pending Changes page.
+ * - Flags publishers the signed-in user has an autosaved draft of.
+ * - Opens the Bulk Edit page for changing many publishers at once.
+ * - Refreshes its rows live when configurations or the registry change on the server.
+ * - Shows who has each publisher open and who is editing it.
+ * - Lists the base templates publishers extend, and opens them in the editor.
+ * - Exports the pages of every publisher as CSV and all configurations as a ZIP bundle.
  */
 
-import { navigateToPublisherConfigurations } from "../../../../index.js";
+import {
+  navigateToBulkEdit,
+  navigateToChangeRequests,
+  navigateToPublisherConfigurations,
+} from "../../../../index.js";
 import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
 import { api } from "../../../../shared/api-client.js";
-import { SnackbarType } from "../../../../shared/enums.js";
-import { Component } from "../../../../shared/interfaces.js";
-import { createElementWithClasses } from "../../../../shared/utils.js";
+import {
+  ChangeEventType,
+  HttpMethod,
+  SnackbarType,
+  UserRole,
+} from "../../../../shared/enums.js";
+import { hasRole } from "../../../../shared/session.js";
+import {
+  ChangeDetails,
+  ChangeRequestSummary,
+  Component,
+  Draft,
+  PublisherPresence,
+  SearchMatch,
+  SearchResult,
+} from "../../../../shared/interfaces.js";
+import { ChangeDescription } from "../../../../shared/modals/change-description/change-description.js";
+import {
+  createElementWithClasses,
+  getChangeHeaders,
+} from "../../../../shared/utils.js";
+import { NewPublisher } from "../../modals/new-publisher/new-publisher.js";
+import { BaseTemplates } from "../../../base-templates/modals/base-templates/base-templates.js";
+import { downloadExport } from "../../../../shared/exports.js";
+import { subscribeToChanges } from "../../../../shared/change-events.js";
+import { PresenceAvatars } from "../../../../shared/components/presence-avatars/presence-avatars.js";
+
+/** Change events arriving within this time cause a single refresh of the rows. */
+const LIVE_REFRESH_DELAY_MS = 500;
 
 /**
  * Represents a Publisher entity fetched from the API.
@@ -22,6 +62,8 @@ export interface Publisher {
   id: string;
   alias: string;
   file: string;
+  /** When the publisher was archived (archived publishers only). */
+  archivedAt?: string;
 }
 
 /**
@@ -44,6 +86,36 @@ export class Publishers implements Component {
   /** Publishers currently displayed (filtered) */
   private filteredPublishers: Publisher[] = [];
 
+  /** All fetched archived publishers */
+  private archivedPublishers: Publisher[] = [];
+
+  /** Whether the archived list is shown instead of the active one */
+  private showArchived = false;
+
+  /** The current search query */
+  private searchQuery = "";
+
+  /** Whether the search box queries configuration contents instead of ids and aliases */
+  private advancedSearch = false;
+
+  /** Matching paths per publisher file for the last advanced search (null when there is none) */
+  private searchMatches: Map<string, SearchMatch[]> | null = null;
+
+  /** Number of open change requests per publisher file */
+  private openChangeCounts = new Map<string, number>();
+
+  /** Publisher files the signed-in user has a draft of */
+  private draftFiles = new Set<string>();
+
+  /** Who has which publisher open, by filename. */
+  private presenceByFile = new Map<string, PublisherPresence>();
+
+  /** Ends the subscription to the server's change events. */
+  private unsubscribeFromChanges: (() => void) | null = null;
+
+  /** Pending refresh after change events. */
+  private liveRefreshTimer: number | undefined;
+
   /**
    * Creates an instance of the Publishers component.
    * @param rootElement - The HTML element to mount this component into.
@@ -64,6 +136,18 @@ export class Publishers implements Component {
   private async init() {
     this.render();
     this.mount();
+    this.unsubscribeFromChanges = subscribeToChanges((event) => {
+      if (event.type === ChangeEventType.PRESENCE) {
+        this.setPresence(event.file, event.presence || null);
+        this.applyFilter();
+        return;
+      }
+      window.clearTimeout(this.liveRefreshTimer);
+      this.liveRefreshTimer = window.setTimeout(
+        () => this.getPublishers(true),
+        LIVE_REFRESH_DELAY_MS
+      );
+    });
   }
 
   /**
@@ -74,6 +158,17 @@ export class Publishers implements Component {
     this.componentElement.innerHTML = `
       <div class="publishers-search-container">
         <input type="text" id="publisher-search-input" placeholder="Search by ID or Alias..." class="base-input search-input" />
+        <button id="advanced-search-button" class="base-button files-button advanced-search-button" title="Search configuration contents, e.g. pages[].position = sidebar">Advanced</button>
+        <select id="publisher-status-select" class="base-input status-select">
+          <option value="active">Active</option>
+          <option value="archived">Archived</option>
+        </select>
+        <button id="pending-changes-button" class="base-button files-button">Pending Changes</button>
+        <button id="bulk-edit-button" class="base-button files-button">Bulk Edit</button>
+        <button id="templates-button" class="base-button files-button">Templates</button>
+        <button id="export-pages-button" class="base-button files-button" title="One row per page of every publisher">Export CSV</button>
+        <button id="export-bundle-button" class="base-button files-button" title="Every configuration and publishers.json">Export ZIP</button>
+        <button id="new-publisher-button" class="base-button new-publisher-button">New Publisher</button>
       </div>
       <div class="publishers-table" role="table">
         <div class="publishers-table__header" role="row">
@@ -109,15 +204,95 @@ export class Publishers implements Component {
 
     if (searchInput) {
       searchInput.addEventListener("input", () => {
-        this.handleSearch(searchInput.value);
+        // Advanced queries are sent to the server on Enter, not on every keystroke
+        if (!this.advancedSearch) this.handleSearch(searchInput.value);
+      });
+      searchInput.addEventListener("keydown", (event) => {
+        if (this.advancedSearch && event.key === "Enter") {
+          this.handleAdvancedSearch(searchInput.value);
+        }
       });
     }
+
+    const advancedButton = this.componentElement.querySelector(
+      "#advanced-search-button"
+    ) as HTMLButtonElement;
+    advancedButton?.addEventListener("click", () => {
+      this.advancedSearch = !this.advancedSearch;
+      advancedButton.classList.toggle(
+        "advanced-search-button--active",
+        this.advancedSearch
+      );
+      searchInput.value = "";
+      searchInput.placeholder = this.advancedSearch
+        ? "e.g. pages[].position = sidebar and customCss missing (Enter to search)"
+        : "Search by ID or Alias...";
+      this.searchQuery = "";
+      this.searchMatches = null;
+      this.applyFilter();
+      searchInput.focus();
+    });
+
+    const statusSelect = this.componentElement.querySelector(
+      "#publisher-status-select"
+    ) as HTMLSelectElement;
+
+    if (statusSelect) {
+      statusSelect.addEventListener("change", () => {
+        this.showArchived = statusSelect.value === "archived";
+        this.applyFilter();
+      });
+    }
+
+    this.componentElement
+      .querySelector("#pending-changes-button")
+      ?.addEventListener("click", () => navigateToChangeRequests());
+
+    const bulkEditButton = this.componentElement.querySelector(
+      "#bulk-edit-button"
+    ) as HTMLButtonElement;
+    if (bulkEditButton) {
+      bulkEditButton.hidden = !hasRole(UserRole.EDITOR);
+      bulkEditButton.addEventListener("click", () => navigateToBulkEdit());
+    }
+
+    this.componentElement
+      .querySelector("#templates-button")
+      ?.addEventListener(
+        "click",
+        () =>
+          new BaseTemplates(document.body, (file) => this.handleToFile(file))
+      );
+
+    this.componentElement
+      .querySelector("#export-pages-button")
+      ?.addEventListener("click", () =>
+        downloadExport("/api/exports/pages.csv", "publisher-pages.csv")
+      );
+
+    this.componentElement
+      .querySelector("#export-bundle-button")
+      ?.addEventListener("click", () =>
+        downloadExport("/api/exports/bundle.zip", "publisher-configs.zip")
+      );
+
+    const newPublisherButton = this.componentElement.querySelector(
+      "#new-publisher-button"
+    ) as HTMLButtonElement;
+    if (newPublisherButton) {
+      newPublisherButton.hidden = !hasRole(UserRole.ADMIN);
+      newPublisherButton.addEventListener("click", () =>
+        this.openNewPublisherWizard()
+      );
+    }
   }
 
   /**
    * Removes the component from the DOM.
    */
   destroy() {
+    this.unsubscribeFromChanges?.();
+    window.clearTimeout(this.liveRefreshTimer);
     this.componentElement.remove();
   }
 
@@ -126,8 +301,6 @@ export class Publishers implements Component {
    */
   private async loadTableRows() {
     await this.getPublishers();
-
-    this.renderRows(this.filteredPublishers);
   }
 
   /**
@@ -148,24 +321,59 @@ export class Publishers implements Component {
 
   /**
    * Fetches the list of publishers from the API.
+   * @param background - Refreshes without the loader and without reporting failures (live updates).
    * @returns A promise that resolves to an array of Publisher objects.
    */
-  private async getPublishers() {
+  private async getPublishers(background = false) {
+    const get = background ? api.getInBackground : api.get;
     try {
-      const res = await api.get("/api/publishers");
+      const [res, changesRes, draftsRes, presenceRes] = await Promise.all([
+        get("/api/publishers"),
+        get("/api/change-requests?status=open"),
+        hasRole(UserRole.EDITOR) ? get("/api/drafts") : null,
+        get("/api/presence"),
+      ]);
       if (!res.ok) throw new Error(`Failed to fetch publishers: ${res.status}`);
       const json = await res.json();
+
+      // The badges are informational; the list still loads without them
+      this.openChangeCounts = new Map();
+      if (changesRes.ok) {
+        (await changesRes.json()).forEach((request: ChangeRequestSummary) =>
+          this.openChangeCounts.set(
+            request.file,
+            (this.openChangeCounts.get(request.file) || 0) + 1
+          )
+        );
+      }
+      this.draftFiles = new Set();
+      if (draftsRes?.ok) {
+        (await draftsRes.json()).forEach((draft: Draft) =>
+          this.draftFiles.add(draft.file)
+        );
+      }
+      this.presenceByFile = new Map();
+      if (presenceRes.ok) {
+        (await presenceRes.json()).forEach((presence: PublisherPresence) =>
+          this.setPresence(presence.file, presence)
+        );
+      }
       const publishersArray: Publisher[] = Array.isArray(json.publishers)
         ? json.publishers
         : [];
 
       this.publishers = publishersArray;
-      this.filteredPublishers = publishersArray;
+      this.archivedPublishers = Array.isArray(json.archived)
+        ? json.archived
+        : [];
+      this.applyFilter();
 
       return publishersArray;
     } catch (error) {
       console.error("Failed to fetch publishers, using fallback data", error);
-      new Snackbar("Failed to fetch publishers", SnackbarType.ERROR);
+      if (!background) {
+        new Snackbar("Failed to fetch publishers", SnackbarType.ERROR);
+      }
       return [];
     }
   }
@@ -183,17 +391,89 @@ export class Publishers implements Component {
       <div class="publishers-table__cell"></div>
     `;
 
+    const actionsCell = row.children[row.children.length - 1];
+    const isAdmin = hasRole(UserRole.ADMIN);
+
+    const matches = this.searchMatches?.get(publisher.file);
+    if (matches) {
+      row.classList.add("publishers-table__row--matches");
+      row.appendChild(this.createMatchesElement(matches));
+    }
+
+    const openChanges = this.openChangeCounts.get(publisher.file);
+    if (openChanges) {
+      const badge = createElementWithClasses("button", ["pending-badge"]);
+      badge.textContent = `${openChanges} pending`;
+      badge.title = "Open change requests awaiting review";
+      badge.addEventListener("click", () => navigateToChangeRequests());
+      row.children[1].appendChild(badge);
+    }
+
+    if (this.draftFiles.has(publisher.file)) {
+      const badge = createElementWithClasses("span", ["draft-badge"]);
+      badge.textContent = "draft";
+      badge.title = "You have unsaved edits to this publisher";
+      row.children[1].appendChild(badge);
+    }
+
+    const presence = this.presenceByFile.get(publisher.file);
+    if (presence) {
+      new PresenceAvatars(row.children[1] as HTMLElement, presence);
+    }
+
+    if (publisher.archivedAt) {
+      if (isAdmin) {
+        actionsCell.appendChild(
+          this.createActionButton("Restore", () =>
+            this.handleRestore(publisher)
+          )
+        );
+      }
+      return row;
+    }
+
+    actionsCell.appendChild(
+      this.createActionButton("To File", () =>
+        this.handleToFile(publisher.file)
+      )
+    );
+    if (isAdmin) {
+      actionsCell.appendChild(
+        this.createActionButton("Archive", () => this.handleArchive(publisher))
+      );
+    }
+
+    return row;
+  }
+
+  /**
+   * Records who has a publisher open; publishers nobody has open or locked are forgotten.
+   * @param file - The publisher filename.
+   * @param presence - Who has it open.
+   */
+  private setPresence(file: string, presence: PublisherPresence | null) {
+    if (presence && (presence.viewers.length > 0 || presence.lock)) {
+      this.presenceByFile.set(file, presence);
+    } else {
+      this.presenceByFile.delete(file);
+    }
+  }
+
+  /**
+   * Creates a button for the actions column.
+   * @param label - The button text.
+   * @param onClick - The click handler.
+   * @returns The button element.
+   */
+  private createActionButton(label: string, onClick: () => void) {
     const button = createElementWithClasses("button", [
       "base-button",
       "files-button",
     ]) as HTMLButtonElement;
 
-    button.textContent = "To File";
-    button.onclick = () => this.handleToFile(publisher.file);
-
-    row.children[row.children.length - 1].appendChild(button);
-
-    return row;
+    button.textContent = label;
+    button.onclick = onClick;
+    return button;
   }
 
   /**
@@ -206,16 +486,169 @@ export class Publishers implements Component {
   }
 
   /**
-   * Filters the publishers list based on the search query and re-renders the table.
+   * Handles the click event for the "Archive" button.
+   * Asks for a change description, then archives the publisher and refreshes the list.
+   * @param publisher - The publisher to archive.
+   */
+  private handleArchive(publisher: Publisher) {
+    new ChangeDescription(
+      document.body,
+      (details) =>
+        this.updateArchiveState(
+          publisher,
+          HttpMethod.DELETE,
+          `/api/publisher/${publisher.file}`,
+          details
+        ),
+      `Archive ${publisher.alias}?`,
+      "The publisher is hidden from the active list. Its configuration and history are kept."
+    );
+  }
+
+  /**
+   * Handles the click event for the "Restore" button.
+   * Asks for a change description, then restores the publisher and refreshes the list.
+   * @param publisher - The archived publisher to restore.
+   */
+  private handleRestore(publisher: Publisher) {
+    new ChangeDescription(
+      document.body,
+      (details) =>
+        this.updateArchiveState(
+          publisher,
+          HttpMethod.POST,
+          `/api/publisher/${publisher.file}/restore`,
+          details
+        ),
+      `Restore ${publisher.alias}?`
+    );
+  }
+
+  /**
+   * Sends an archive or restore request and reloads the list.
+   * @param publisher - The publisher being updated.
+   * @param method - 'DELETE' to archive, 'POST' to restore.
+   * @param url - The endpoint URL.
+   * @param details - Who made the change and why.
+   */
+  private async updateArchiveState(
+    publisher: Publisher,
+    method: HttpMethod.DELETE | HttpMethod.POST,
+    url: string,
+    details: ChangeDetails
+  ) {
+    const init = { headers: getChangeHeaders(details) };
+    try {
+      const res =
+        method === HttpMethod.DELETE
+          ? await api.delete(url, init)
+          : await api.post(url, {}, init);
+      const json = await res.json();
+      if (!res.ok)
+        throw new Error(json.error || `Request failed: ${res.status}`);
+
+      new Snackbar(
+        method === HttpMethod.DELETE
+          ? `Archived ${publisher.alias}`
+          : `Restored ${publisher.alias}`,
+        SnackbarType.SUCCESS
+      );
+      await this.getPublishers();
+    } catch (error) {
+      console.error(error);
+      new Snackbar(
+        error instanceof Error ? error.message : "Request failed",
+        SnackbarType.ERROR
+      );
+    }
+  }
+
+  /**
+   * Opens the new publisher wizard. Once created, the new publisher is opened in the editor.
+   */
+  private openNewPublisherWizard() {
+    new NewPublisher(document.body, (publisher) =>
+      this.handleToFile(publisher.file)
+    );
+  }
+
+  /**
+   * Stores the search query and re-filters the table.
    * @param query - The search string.
    */
   private handleSearch(query: string) {
-    const lowerCaseQuery = query.toLowerCase().trim();
+    this.searchQuery = query;
+    this.applyFilter();
+  }
+
+  /**
+   * Runs an advanced search on the server and shows only the matching publishers.
+   * An empty query shows all publishers again.
+   * @param query - The query, e.g. 'tags contains finance'.
+   */
+  private async handleAdvancedSearch(query: string) {
+    if (!query.trim()) {
+      this.searchMatches = null;
+      this.applyFilter();
+      return;
+    }
 
-    if (!lowerCaseQuery) {
-      this.filteredPublishers = this.publishers;
+    try {
+      const res = await api.get(`/api/search?q=${encodeURIComponent(query)}`);
+      const body = await res.json();
+      if (!res.ok) {
+        new Snackbar(body.error || "Search failed", SnackbarType.ERROR);
+        return;
+      }
+      this.searchMatches = new Map(
+        (body as SearchResult[]).map((result) => [result.file, result.matches])
+      );
+      this.applyFilter();
+    } catch (error) {
+      console.error("Search failed", error);
+      new Snackbar("Search failed", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Creates the list of paths that matched an advanced search, shown below a row.
+   * @param matches - The matching paths and values.
+   * @returns The constructed HTML element.
+   */
+  private createMatchesElement(matches: SearchMatch[]) {
+    const list = createElementWithClasses("div", ["publishers-table__matches"]);
+    matches.forEach(({ path, value }) => {
+      const item = createElementWithClasses("code", ["search-match"]);
+      const text =
+        value === undefined ? "missing" : JSON.stringify(value) ?? "";
+      item.textContent = `${path}: ${
+        text.length > 60 ? `${text.slice(0, 57)}...` : text
+      }`;
+      item.title = value === undefined ? path : JSON.stringify(value, null, 2);
+      list.appendChild(item);
+    });
+    return list;
+  }
+
+  /**
+   * Filters the active or archived list by the current search query (or advanced search) and
+   * re-renders the table.
+   */
+  private applyFilter() {
+    const lowerCaseQuery = this.searchQuery.toLowerCase().trim();
+    const source = this.showArchived
+      ? this.archivedPublishers
+      : this.publishers;
+
+    if (this.advancedSearch) {
+      const matches = this.searchMatches;
+      this.filteredPublishers = matches
+        ? source.filter((p) => matches.has(p.file))
+        : source;
+    } else if (!lowerCaseQuery) {
+      this.filteredPublishers = source;
     } else {
-      this.filteredPublishers = this.publishers.filter(
+      this.filteredPublishers = source.filter(
         (p) =>
           p.id.toLowerCase().includes(lowerCaseQuery) ||
           p.alias.toLowerCase().includes(lowerCaseQuery)
@@ -0,0 +1,201 @@
+/**
+ * Registry Health Modal
+ *
+ * An admin-only modal for the registry consistency check.
+ * Features:
+ * - Lists registry entries whose file is missing, files without an entry and id/alias mismatches.
+ * - Fixes an issue with one click, saving a new version of the registry.
+ */
+
+import {
+  Component,
+  RegistryHealthReport,
+  RegistryIssue,
+} from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+import { api } from "../../../../shared/api-client.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import { RegistryIssueType, SnackbarType } from "../../../../shared/enums.js";
+
+/** Labels for the issue types. */
+const ISSUE_LABELS: Record<RegistryIssueType, string> = {
+  [RegistryIssueType.MISSING_FILE]: "Missing file",
+  [RegistryIssueType.ORPHAN]: "Orphan",
+  [RegistryIssueType.ID_MISMATCH]: "Id mismatch",
+  [RegistryIssueType.ALIAS_MISMATCH]: "Alias mismatch",
+};
+
+/**
+ * A modal listing registry issues with their fixes.
+ */
+export class RegistryHealth implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  /** The issues, as last loaded from the server (null until loaded). */
+  private issues: RegistryIssue[] | null = null;
+
+  /**
+   * Creates an instance of RegistryHealth.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   */
+  constructor(rootElement: HTMLElement) {
+    this.rootElement = rootElement;
+
+    this.componentElement = createElementWithClasses("div", [
+      "registry-health-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private async init() {
+    this.render();
+    this.mount();
+    await this.loadIssues();
+  }
+
+  render() {
+    this.componentElement.innerHTML = `
+      <div class="registry-health-modal">
+        <h3 class="registry-health-modal__header">Registry health</h3>
+        <p class="registry-health-modal__summary"></p>
+        <ul class="registry-health-modal__list"></ul>
+        <div class="registry-health-modal__footer">
+          <button class="registry-health-modal__btn base-button" id="registry-health-recheck-btn">Check again</button>
+          <button class="registry-health-modal__btn base-button" id="registry-health-close-btn">Close</button>
+        </div>
+      </div>
+    `;
+
+    const summary = this.componentElement.querySelector(
+      ".registry-health-modal__summary"
+    ) as HTMLElement;
+    if (this.issues === null) {
+      summary.textContent =
+        "Checking publishers.json against the data files...";
+    } else if (this.issues.length === 0) {
+      summary.textContent =
+        "publishers.json matches the configuration files. No issues found.";
+    } else {
+      summary.textContent = `${this.issues.length} issue${
+        this.issues.length === 1 ? "" : "s"
+      } found.`;
+    }
+
+    const list = this.componentElement.querySelector(
+      ".registry-health-modal__list"
+    ) as HTMLElement;
+    (this.issues || []).forEach((issue) =>
+      list.appendChild(this.renderIssue(issue))
+    );
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+  }
+
+  attachEvents() {
+    this.componentElement
+      .querySelector("#registry-health-close-btn")
+      ?.addEventListener("click", () => this.destroy());
+
+    this.componentElement
+      .querySelector("#registry-health-recheck-btn")
+      ?.addEventListener("click", () => this.loadIssues());
+
+    this.componentElement.addEventListener("click", (e) => {
+      if (e.target === this.componentElement) this.destroy();
+    });
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+
+  /**
+   * Renders a single issue with its fix button. Issues without an automatic fix say so instead.
+   * @param issue - The issue.
+   * @returns The row element.
+   */
+  private renderIssue(issue: RegistryIssue) {
+    const row = createElementWithClasses("li", [
+      "registry-health-modal__issue",
+    ]);
+
+    const type = createElementWithClasses("span", [
+      "registry-health-modal__type",
+    ]);
+    type.textContent = ISSUE_LABELS[issue.type] || issue.type;
+    row.appendChild(type);
+
+    const text = createElementWithClasses("div", [
+      "registry-health-modal__text",
+    ]);
+    const message = createElementWithClasses("div", [
+      "registry-health-modal__message",
+    ]);
+    message.textContent = issue.message;
+    const fix = createElementWithClasses("div", ["registry-health-modal__fix"]);
+    fix.textContent = issue.fix || "Fix by hand";
+    text.append(message, fix);
+    row.appendChild(text);
+
+    const fixButton = createElementWithClasses("button", [
+      "registry-health-modal__btn",
+      "registry-health-modal__btn--primary",
+      "base-button",
+    ]) as HTMLButtonElement;
+    fixButton.textContent = "Fix";
+    fixButton.disabled = !issue.fix;
+    fixButton.addEventListener("click", () => this.fixIssue(issue));
+    row.appendChild(fixButton);
+
+    return row;
+  }
+
+  /**
+   * Runs the consistency check and re-renders the list.
+   */
+  private async loadIssues() {
+    try {
+      const res = await api.get("/api/health/registry");
+      if (!res.ok) throw new Error("Failed to check registry");
+      const report: RegistryHealthReport = await res.json();
+      this.issues = report.issues;
+      this.render();
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to check registry", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Applies the fix of an issue and shows the remaining issues.
+   * @param issue - The issue.
+   */
+  private async fixIssue(issue: RegistryIssue) {
+    const res = await api.post("/api/health/registry/fix", { key: issue.key });
+    const body = await res.json();
+
+    if (!res.ok) {
+      new Snackbar(body.error || "Failed to fix registry", SnackbarType.ERROR);
+      await this.loadIssues();
+      return;
+    }
+
+    new Snackbar(
+      `Registry saved as v${body.registryVersion}`,
+      SnackbarType.SUCCESS
+    );
+    this.issues = body.issues;
+    this.render();
+  }
+}
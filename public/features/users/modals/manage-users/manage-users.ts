@@ -0,0 +1,246 @@
+/**
+ * Manage Users Modal
+ *
+ * An admin-only modal for the local user accounts.
+ * Features:
+ * - Lists every account with its role.
+ * - Changes an account's role or removes it.
+ * - Adds accounts with an initial password.
+ */
+
+import { Component, User } from "../../../../shared/interfaces.js";
+import { createElementWithClasses } from "../../../../shared/utils.js";
+import { api } from "../../../../shared/api-client.js";
+import { getCurrentUser } from "../../../../shared/session.js";
+import { Snackbar } from "../../../../shared/components/snackbar/snackbar.js";
+import { SnackbarType, UserRole } from "../../../../shared/enums.js";
+import { AreYouSure } from "../../../../shared/modals/are-you-sure/are-you-sure.js";
+
+/**
+ * A modal listing and editing user accounts.
+ */
+export class ManageUsers implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  /** The accounts, as last loaded from the server. */
+  private users: User[] = [];
+  /** The error shown above the add form. */
+  private error: string = "";
+
+  /**
+   * Creates an instance of ManageUsers.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   */
+  constructor(rootElement: HTMLElement) {
+    this.rootElement = rootElement;
+
+    this.componentElement = createElementWithClasses("div", [
+      "manage-users-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private async init() {
+    this.render();
+    this.mount();
+    await this.loadUsers();
+  }
+
+  render() {
+    const roleOptions = Object.values(UserRole)
+      .map((role) => `<option value="${role}">${role}</option>`)
+      .join("");
+
+    this.componentElement.innerHTML = `
+      <div class="manage-users-modal">
+        <h3 class="manage-users-modal__header">Users</h3>
+        <ul class="manage-users-modal__list"></ul>
+        <form class="manage-users-modal__form">
+          <h4 class="manage-users-modal__subheader">Add user</h4>
+          <div class="manage-users-modal__error"></div>
+          <div class="manage-users-modal__form-row">
+            <input id="new-user-username" class="base-input" type="text" placeholder="Username" required />
+            <input id="new-user-password" class="base-input" type="password" placeholder="Password" autocomplete="new-password" required />
+            <select id="new-user-role" class="base-input">${roleOptions}</select>
+            <button type="submit" class="manage-users-modal__btn manage-users-modal__btn--primary base-button">Add</button>
+          </div>
+        </form>
+        <div class="manage-users-modal__footer">
+          <button class="manage-users-modal__btn base-button" id="manage-users-close-btn">Close</button>
+        </div>
+      </div>
+    `;
+
+    (
+      this.componentElement.querySelector(
+        ".manage-users-modal__error"
+      ) as HTMLElement
+    ).textContent = this.error;
+
+    const list = this.componentElement.querySelector(
+      ".manage-users-modal__list"
+    ) as HTMLElement;
+    this.users.forEach((user) => list.appendChild(this.renderUser(user)));
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+  }
+
+  attachEvents() {
+    this.componentElement
+      .querySelector("#manage-users-close-btn")
+      ?.addEventListener("click", () => this.destroy());
+
+    this.componentElement
+      .querySelector("form")
+      ?.addEventListener("submit", (e) => {
+        e.preventDefault();
+        this.addUser();
+      });
+
+    this.componentElement.addEventListener("click", (e) => {
+      if (e.target === this.componentElement) this.destroy();
+    });
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+
+  /**
+   * Renders a single account row with its role picker and remove button.
+   * The signed-in admin cannot remove their own account.
+   * @param user - The account.
+   * @returns The row element.
+   */
+  private renderUser(user: User) {
+    const row = createElementWithClasses("li", ["manage-users-modal__user"]);
+
+    const name = createElementWithClasses("span", [
+      "manage-users-modal__username",
+    ]);
+    name.textContent = user.username;
+    row.appendChild(name);
+
+    const roleSelect = createElementWithClasses("select", [
+      "base-input",
+    ]) as HTMLSelectElement;
+    Object.values(UserRole).forEach((role) => {
+      const option = document.createElement("option");
+      option.value = role;
+      option.textContent = role;
+      roleSelect.appendChild(option);
+    });
+    roleSelect.value = user.role;
+    roleSelect.addEventListener("change", () =>
+      this.updateRole(user, roleSelect.value as UserRole)
+    );
+    row.appendChild(roleSelect);
+
+    const removeButton = createElementWithClasses("button", [
+      "delete-button",
+      "base-button",
+    ]) as HTMLButtonElement;
+    removeButton.textContent = "Remove";
+    removeButton.disabled = user.username === getCurrentUser()?.username;
+    removeButton.addEventListener("click", () => {
+      new AreYouSure(
+        document.body,
+        () => this.removeUser(user),
+        "Remove user?",
+        `${user.username} will no longer be able to sign in.`
+      );
+    });
+    row.appendChild(removeButton);
+
+    return row;
+  }
+
+  /**
+   * Loads the accounts and re-renders the list.
+   */
+  private async loadUsers() {
+    try {
+      const res = await api.get("/api/users");
+      if (!res.ok) throw new Error("Failed to load users");
+      this.users = await res.json();
+      this.render();
+    } catch (error) {
+      console.error(error);
+      new Snackbar("Failed to load users", SnackbarType.ERROR);
+    }
+  }
+
+  /**
+   * Creates an account from the add form.
+   */
+  private async addUser() {
+    const input = (id: string) =>
+      this.componentElement.querySelector(id) as HTMLInputElement;
+
+    const res = await api.post("/api/users", {
+      username: input("#new-user-username").value.trim(),
+      password: input("#new-user-password").value,
+      role: input("#new-user-role").value,
+    });
+    const body = await res.json();
+
+    if (!res.ok) {
+      this.error = body.error || "Failed to add user";
+      this.render();
+      return;
+    }
+
+    this.error = "";
+    new Snackbar(`User ${body.username} added`, SnackbarType.SUCCESS);
+    await this.loadUsers();
+  }
+
+  /**
+   * Changes an account's role.
+   * @param user - The account.
+   * @param role - The new role.
+   */
+  private async updateRole(user: User, role: UserRole) {
+    const res = await api.patch(
+      `/api/users/${encodeURIComponent(user.username)}`,
+      { role }
+    );
+    const body = await res.json();
+
+    if (!res.ok) {
+      new Snackbar(body.error || "Failed to update user", SnackbarType.ERROR);
+    } else {
+      new Snackbar(`${user.username} is now ${role}`, SnackbarType.SUCCESS);
+    }
+    await this.loadUsers();
+  }
+
+  /**
+   * Removes an account.
+   * @param user - The account.
+   */
+  private async removeUser(user: User) {
+    const res = await api.delete(
+      `/api/users/${encodeURIComponent(user.username)}`
+    );
+
+    if (!res.ok) {
+      const body = await res.json();
+      new Snackbar(body.error || "Failed to remove user", SnackbarType.ERROR);
+    } else {
+      new Snackbar(`User ${user.username} removed`, SnackbarType.SUCCESS);
+    }
+    await this.loadUsers();
+  }
+}
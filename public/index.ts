@@ -6,24 +6,89 @@
  * 1. Initializing the application state.
  * 2. Handling global routing (navigation between views).
  * 3. Mounting the appropriate page components into the DOM.
+ * 4. Showing the login page until the user is signed in.
  */
 
 import { Publishers } from "./features/publishers/pages/publishers/publishers.js";
 import { PublisherConfiguration } from "./features/publisher-configuration/pages/publisher-configuration/publisher-configuration.js";
+import { ChangeRequests } from "./features/change-requests/pages/change-requests/change-requests.js";
+import { BulkEdits } from "./features/bulk-edit/pages/bulk-edit/bulk-edit.js";
+import { Login } from "./features/login/pages/login/login.js";
+import { UserMenu } from "./shared/components/user-menu/user-menu.js";
+import { api, UNAUTHORIZED_EVENT } from "./shared/api-client.js";
+import { getCurrentUser, setCurrentUser } from "./shared/session.js";
+import { Component, User } from "./shared/interfaces.js";
 
 const appElement = document.getElementById("app");
+const headerElement = document.querySelector(".site__header") as HTMLElement;
+
+/** The user menu in the header, while someone is signed in. */
+let userMenu: UserMenu | null = null;
+
+/** The page currently shown in the app element. */
+let currentPage: Component | null = null;
+
+/**
+ * Replaces the current page, destroying it first so it can release timers and event subscriptions.
+ *
+ * @param createPage - Creates and mounts the new page into the app element.
+ */
+function showPage(createPage: (root: HTMLElement) => Component) {
+  if (!appElement) {
+    console.error("App element not found");
+    return;
+  }
+  currentPage?.destroy();
+  appElement.innerHTML = "";
+  currentPage = createPage(appElement);
+}
+
+/**
+ * Stores the signed-in user, shows the user menu and opens the Publishers list.
+ *
+ * @param user - The signed-in user.
+ */
+function startSession(user: User) {
+  setCurrentUser(user);
+  userMenu?.destroy();
+  userMenu = new UserMenu(headerElement, user, navigateToLogin);
+  navigateToPublishers();
+}
+
+/**
+ * Navigates to the Pending Changes view (change requests).
+ * Clears the current app content and initializes the ChangeRequests component.
+ */
+export function navigateToChangeRequests() {
+  showPage((root) => new ChangeRequests(root));
+}
+
+/**
+ * Navigates to the Bulk Edit view.
+ * Clears the current app content and initializes the BulkEdits component.
+ */
+export function navigateToBulkEdit() {
+  showPage((root) => new BulkEdits(root));
+}
+
+/**
+ * Navigates to the login page.
+ * Forgets the signed-in user and removes the user menu.
+ */
+export function navigateToLogin() {
+  setCurrentUser(null);
+  userMenu?.destroy();
+  userMenu = null;
+
+  showPage((root) => new Login(root, startSession));
+}
 
 /**
  * Navigates to the Publishers list view.
  * Clears the current app content and initializes the Publishers component.
  */
 export function navigateToPublishers() {
-  if (appElement) {
-    appElement.innerHTML = "";
-    new Publishers(appElement);
-  } else {
-    console.error("App element not found");
-  }
+  showPage((root) => new Publishers(root));
 }
 
 /**
@@ -31,16 +96,29 @@ export function navigateToPublishers() {
  * Clears the current app content and initializes the PublisherConfiguration component.
  *
  * @param filename - The name of the configuration file to load.
+ * @param environment - The environment to show; the working environment if omitted.
  */
-export function navigateToPublisherConfigurations(filename: string) {
-  if (appElement) {
-    appElement.innerHTML = "";
-    new PublisherConfiguration(appElement, filename);
-  } else {
-    console.error("App element not found");
-  }
+export function navigateToPublisherConfigurations(
+  filename: string,
+  environment?: string
+) {
+  showPage((root) => new PublisherConfiguration(root, filename, environment));
 }
 
-document.addEventListener("DOMContentLoaded", () => {
-  navigateToPublishers();
+// Any request rejected for a missing or expired session sends the user back to the login page
+window.addEventListener(UNAUTHORIZED_EVENT, () => {
+  if (getCurrentUser()) navigateToLogin();
+});
+
+document.addEventListener("DOMContentLoaded", async () => {
+  try {
+    const res = await api.get("/api/auth/me");
+    if (res.ok) {
+      startSession(await res.json());
+      return;
+    }
+  } catch (error) {
+    console.error("Failed to load session", error);
+  }
+  navigateToLogin();
 });
@@ -5,12 +5,18 @@
  * Features:
  * - Automatically handles loading states (visual spinner).
  * - Standardizes error handling and response formatting.
- * - Provides convenience methods for GET, POST, PUT, DELETE.
+ * - Provides convenience methods for GET, POST, PUT, PATCH, DELETE.
+ * - Announces expired or missing sessions (401 responses) so the app can show the login page.
  */
 
 import { Loader } from "./components/loader/loader.js";
 import { HttpMethod } from "./enums.js";
 
+/**
+ * Event dispatched on `window` when an API request is rejected because the user is not signed in.
+ */
+export const UNAUTHORIZED_EVENT = "deeperdive:unauthorized";
+
 /**
  * Global loader instance used for all API requests.
  */
@@ -21,18 +27,23 @@ const loader = new Loader(document.body);
  *
  * @param input - The resource URL or Request object.
  * @param init - Optional configuration for the request (headers, method, body, etc.).
+ * @param showLoader - Whether to show the loader (false for background requests such as autosaves).
  * @returns A Promise resolving to the Response object.
  */
 const request = async (
   input: RequestInfo,
-  init?: RequestInit
+  init?: RequestInit,
+  showLoader: boolean = true
 ): Promise<Response> => {
-  loader.mount();
+  if (showLoader) loader.mount();
   try {
     const response = await fetch(input, init);
+    if (response.status === 401) {
+      window.dispatchEvent(new CustomEvent(UNAUTHORIZED_EVENT));
+    }
     return response;
   } finally {
-    loader.destroy();
+    if (showLoader) loader.destroy();
   }
 };
 
@@ -49,6 +60,14 @@ export const api = {
   get: (url: string, init?: RequestInit) =>
     request(url, { ...init, method: HttpMethod.GET }),
 
+  /**
+   * Performs a GET request in the background, without the loader.
+   * @param url - The endpoint URL.
+   * @param init - Optional request configuration.
+   */
+  getInBackground: (url: string, init?: RequestInit) =>
+    request(url, { ...init, method: HttpMethod.GET }, false),
+
   /**
    * Performs a POST request with JSON body.
    * @param url - The endpoint URL.
@@ -63,6 +82,24 @@ export const api = {
       body: JSON.stringify(body),
     }),
 
+  /**
+   * Performs a POST request with JSON body in the background, without the loader.
+   * @param url - The endpoint URL.
+   * @param body - The payload to send.
+   * @param init - Optional request configuration.
+   */
+  postInBackground: (url: string, body: unknown, init?: RequestInit) =>
+    request(
+      url,
+      {
+        ...init,
+        method: HttpMethod.POST,
+        headers: { "Content-Type": "application/json", ...init?.headers },
+        body: JSON.stringify(body),
+      },
+      false
+    ),
+
   /**
    * Performs a PUT request with JSON body.
    * @param url - The endpoint URL.
@@ -77,6 +114,38 @@ export const api = {
       body: JSON.stringify(body),
     }),
 
+  /**
+   * Performs a PATCH request with JSON body.
+   * @param url - The endpoint URL.
+   * @param body - The payload to send.
+   * @param init - Optional request configuration (e.g. a JSON Patch Content-Type).
+   */
+  patch: (url: string, body: unknown, init?: RequestInit) =>
+    request(url, {
+      ...init,
+      method: HttpMethod.PATCH,
+      headers: { "Content-Type": "application/json", ...init?.headers },
+      body: JSON.stringify(body),
+    }),
+
+  /**
+   * Performs a PUT request with JSON body in the background, without the loader.
+   * @param url - The endpoint URL.
+   * @param body - The payload to send.
+   * @param init - Optional request configuration (e.g. 'keepalive' while the page unloads).
+   */
+  putInBackground: (url: string, body: unknown, init?: RequestInit) =>
+    request(
+      url,
+      {
+        ...init,
+        method: HttpMethod.PUT,
+        headers: { "Content-Type": "application/json", ...init?.headers },
+        body: JSON.stringify(body),
+      },
+      false
+    ),
+
   /**
    * Performs a DELETE request.
    * @param url - The endpoint URL.
@@ -84,4 +153,12 @@ export const api = {
    */
   delete: (url: string, init?: RequestInit) =>
     request(url, { ...init, method: HttpMethod.DELETE }),
+
+  /**
+   * Performs a DELETE request in the background, without the loader.
+   * @param url - The endpoint URL.
+   * @param init - Optional request configuration (e.g. 'keepalive' while the page unloads).
+   */
+  deleteInBackground: (url: string, init?: RequestInit) =>
+    request(url, { ...init, method: HttpMethod.DELETE }, false),
 };
@@ -0,0 +1,54 @@
+/**
+ * Change Events
+ *
+ * Subscribes to the server's stream of changes ('/api/events'): saves, restores and registry changes
+ * made by anyone, and who opened or closed which publisher, as they happen. One connection is shared by all subscribers of the page; it is opened
+ * for the first subscriber and closed when the last one unsubscribes. The browser reconnects on its own
+ * after the connection drops.
+ */
+
+import { ChangeEventType } from "./enums.js";
+import { ChangeEvent } from "./interfaces.js";
+
+/** The shared connection, while anyone is subscribed. */
+let source: EventSource | null = null;
+
+/** The current subscribers. */
+const listeners = new Set<(event: ChangeEvent) => void>();
+
+/**
+ * Passes an event from the stream to every subscriber.
+ */
+const dispatch = (message: MessageEvent) => {
+  try {
+    const event: ChangeEvent = JSON.parse(message.data);
+    listeners.forEach((listener) => listener(event));
+  } catch (error) {
+    console.error("Failed to read change event", error);
+  }
+};
+
+/**
+ * Calls a listener for every change from now on.
+ *
+ * @param listener - Called with each change.
+ * @returns A function that unsubscribes the listener.
+ */
+export function subscribeToChanges(listener: (event: ChangeEvent) => void) {
+  listeners.add(listener);
+
+  if (!source) {
+    source = new EventSource("/api/events");
+    Object.values(ChangeEventType).forEach((type) =>
+      source?.addEventListener(type, dispatch)
+    );
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
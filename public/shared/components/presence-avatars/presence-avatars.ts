@@ -0,0 +1,124 @@
+/**
+ * Presence Avatars Component
+ *
+ * Shows who else has a publisher open, e.g. "dana is editing".
+ * Features:
+ * - One avatar with initials per user; the holder of the edit lock is highlighted.
+ * - A short label naming who is editing and how many others are viewing.
+ * - Hidden while nobody else has the publisher open.
+ */
+
+import { Component, PublisherPresence } from "../../interfaces.js";
+import { createElementWithClasses } from "../../utils.js";
+import { getCurrentUser } from "../../session.js";
+
+/**
+ * The avatars of the other users who have a publisher open.
+ */
+export class PresenceAvatars implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  /** Who has the publisher open (null while unknown). */
+  presence: PublisherPresence | null;
+
+  /**
+   * Creates an instance of PresenceAvatars.
+   * @param rootElement - The element to mount into.
+   * @param presence - Who has the publisher open.
+   */
+  constructor(
+    rootElement: HTMLElement,
+    presence: PublisherPresence | null = null
+  ) {
+    this.rootElement = rootElement;
+    this.presence = presence;
+    this.componentElement = createElementWithClasses("div", [
+      "presence-avatars",
+    ]);
+
+    this.init();
+  }
+
+  private init() {
+    this.render();
+    this.mount();
+  }
+
+  render() {
+    this.componentElement.innerHTML = "";
+
+    const me = getCurrentUser()?.username;
+    const lock = this.presence?.lock || null;
+    const editor = lock && lock.username !== me ? lock.username : null;
+    const viewers = (this.presence?.viewers || [])
+      .map((viewer) => viewer.username)
+      .filter((username) => username !== me && username !== editor);
+
+    this.componentElement.hidden = !editor && viewers.length === 0;
+
+    if (editor) {
+      this.componentElement.appendChild(
+        this.createAvatar(
+          editor,
+          `${editor} is editing (since ${new Date(
+            lock?.acquiredAt || ""
+          ).toLocaleTimeString()})`,
+          true
+        )
+      );
+    }
+    viewers.forEach((username) =>
+      this.componentElement.appendChild(
+        this.createAvatar(username, `${username} is viewing`, false)
+      )
+    );
+
+    const label = createElementWithClasses("span", ["presence-avatars__label"]);
+    if (editor && viewers.length > 0) {
+      label.textContent = `${editor} is editing, ${viewers.length} viewing`;
+    } else if (editor) {
+      label.textContent = `${editor} is editing`;
+    } else if (viewers.length === 1) {
+      label.textContent = `${viewers[0]} is viewing`;
+    } else {
+      label.textContent = `${viewers.length} viewing`;
+    }
+    this.componentElement.appendChild(label);
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+  }
+
+  attachEvents() {}
+
+  destroy() {
+    this.componentElement.remove();
+  }
+
+  /**
+   * Shows new presence information.
+   * @param presence - Who has the publisher open.
+   */
+  update(presence: PublisherPresence | null) {
+    this.presence = presence;
+    this.render();
+  }
+
+  /**
+   * Creates the avatar of a user.
+   * @param username - The user.
+   * @param title - The tooltip.
+   * @param editing - Whether the user holds the edit lock.
+   * @returns The avatar element.
+   */
+  private createAvatar(username: string, title: string, editing: boolean) {
+    const avatar = createElementWithClasses("span", [
+      "presence-avatars__avatar",
+      ...(editing ? ["presence-avatars__avatar--editing"] : []),
+    ]);
+    avatar.textContent = username.slice(0, 2).toUpperCase();
+    avatar.title = title;
+    return avatar;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * User Menu Component
+ *
+ * Shows the signed-in user in the site header.
+ * Features:
+ * - Username and role.
+ * - A 'Users' button for admins that opens the user management modal.
+ * - A 'Registry' button for admins that opens the registry consistency check.
+ * - A 'Sign out' button.
+ */
+
+import { Component, User } from "../../interfaces.js";
+import { createElementWithClasses } from "../../utils.js";
+import { api } from "../../api-client.js";
+import { UserRole } from "../../enums.js";
+import { hasRole } from "../../session.js";
+import { ManageUsers } from "../../../features/users/modals/manage-users/manage-users.js";
+import { RegistryHealth } from "../../../features/registry-health/modals/registry-health/registry-health.js";
+
+/**
+ * The signed-in user's name, role and account actions.
+ */
+export class UserMenu implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  /** The signed-in user. */
+  user: User;
+  /** Called after the session was ended. */
+  onSignOut: () => void;
+
+  /**
+   * Creates an instance of UserMenu.
+   * @param rootElement - The element to mount into (the site header).
+   * @param user - The signed-in user.
+   * @param onSignOut - Called after signing out.
+   */
+  constructor(rootElement: HTMLElement, user: User, onSignOut: () => void) {
+    this.rootElement = rootElement;
+    this.user = user;
+    this.onSignOut = onSignOut;
+    this.componentElement = createElementWithClasses("div", ["user-menu"]);
+
+    this.init();
+  }
+
+  private init() {
+    this.render();
+    this.mount();
+  }
+
+  render() {
+    this.componentElement.innerHTML = `
+      <span class="user-menu__name"></span>
+      <span class="user-menu__role">${this.user.role}</span>
+      <button class="user-menu__btn base-button" id="user-menu-users-btn">Users</button>
+      <button class="user-menu__btn base-button" id="user-menu-registry-btn">Registry</button>
+      <button class="user-menu__btn base-button" id="user-menu-sign-out-btn">Sign out</button>
+    `;
+    (
+      this.componentElement.querySelector(".user-menu__name") as HTMLElement
+    ).textContent = this.user.username;
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+  }
+
+  attachEvents() {
+    const usersButton = this.componentElement.querySelector(
+      "#user-menu-users-btn"
+    ) as HTMLButtonElement;
+    usersButton.hidden = !hasRole(UserRole.ADMIN);
+    usersButton.addEventListener("click", () => new ManageUsers(document.body));
+
+    const registryButton = this.componentElement.querySelector(
+      "#user-menu-registry-btn"
+    ) as HTMLButtonElement;
+    registryButton.hidden = !hasRole(UserRole.ADMIN);
+    registryButton.addEventListener(
+      "click",
+      () => new RegistryHealth(document.body)
+    );
+
+    this.componentElement
+      .querySelector("#user-menu-sign-out-btn")
+      ?.addEventListener("click", async () => {
+        try {
+          await api.post("/api/auth/logout", {});
+        } finally {
+          this.onSignOut();
+        }
+      });
+  }
+
+  destroy() {
+    this.componentElement.remove();
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Diff View
+ *
+ * Renders structural changes computed by the server as a GitHub-style diff: one block per changed path,
+ * with the previous value in red and the new value in green. Styled by the compare modal's stylesheet.
+ */
+
+import { ConfigChange } from "./interfaces.js";
+import { DiffType } from "./enums.js";
+
+/**
+ * Creates the HTML string for a placeholder message in a diff view.
+ *
+ * @param message - The message to show.
+ * @returns The HTML string.
+ */
+export function createEmptyDiffHtml(message: string): string {
+  return `<div class="diff-empty">${message}</div>`;
+}
+
+/**
+ * Creates the HTML string for a list of changes.
+ *
+ * @param changes - The changes, as returned by the diff endpoints.
+ * @returns The HTML string.
+ */
+export function createDiffHtml(changes: ConfigChange[]): string {
+  if (changes.length === 0) {
+    return createEmptyDiffHtml("No differences.");
+  }
+
+  const escape = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+  const createLine = (type: DiffType, prefix: string, content: string) => `
+    <div class="diff-line ${type}">
+      <div class="diff-line__number">${prefix}</div>
+      <div class="diff-line__content">${escape(content)}</div>
+    </div>
+  `;
+
+  return changes
+    .map((change) => {
+      let html = createLine(DiffType.UNCHANGED, "@", change.path || "(root)");
+      if (change.type !== "added") {
+        html += createLine(
+          DiffType.REMOVED,
+          "- ",
+          JSON.stringify(change.before, null, 2)
+        );
+      }
+      if (change.type !== "removed") {
+        html += createLine(
+          DiffType.ADDED,
+          "+ ",
+          JSON.stringify(change.after, null, 2)
+        );
+      }
+      return `<div class="diff-change">${html}</div>`;
+    })
+    .join("");
+}
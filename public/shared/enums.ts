@@ -31,9 +31,85 @@ export enum HttpMethod {
   GET = "GET",
   POST = "POST",
   PUT = "PUT",
+  PATCH = "PATCH",
   DELETE = "DELETE",
 }
 
+/**
+ * User roles, from least to most privileged. Each role includes the permissions of the roles before it.
+ */
+export enum UserRole {
+  /** Read-only access. */
+  VIEWER = "viewer",
+  /** Can save configuration changes and propose changes to active publishers. */
+  EDITOR = "editor",
+  /** Can approve or reject other users' change requests. */
+  APPROVER = "approver",
+  /** Can create and archive publishers and manage users. */
+  ADMIN = "admin",
+}
+
+/**
+ * States of a change request.
+ */
+export enum ChangeRequestStatus {
+  OPEN = "open",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+}
+
+/**
+ * Kinds of bulk edit rules.
+ */
+export enum BulkEditRuleType {
+  /** Sets the value at a path. */
+  SET = "set",
+  /** Replaces one value with another wherever the path matches. */
+  REPLACE = "replace",
+  /** Adds a value to a list unless it is already there. */
+  APPEND = "append",
+  /** Applies a JSON Patch. */
+  PATCH = "patch",
+}
+
+/**
+ * Outcomes of a bulk edit rule for one publisher.
+ */
+export enum BulkEditStatus {
+  CHANGED = "changed",
+  UNCHANGED = "unchanged",
+  FAILED = "failed",
+  REVIEW_REQUIRED = "review-required",
+}
+
+/**
+ * Kinds of inconsistency between the publishers registry and the configuration files.
+ */
+export enum RegistryIssueType {
+  /** A registry entry points to a file that does not exist. */
+  MISSING_FILE = "missing-file",
+  /** A configuration file has no registry entry. */
+  ORPHAN = "orphan",
+  ID_MISMATCH = "id-mismatch",
+  ALIAS_MISMATCH = "alias-mismatch",
+}
+
+/**
+ * Kinds of changes pushed by the server's event stream.
+ */
+export enum ChangeEventType {
+  /** A new version of a publisher configuration was saved. */
+  SAVE = "save",
+  /** An older version of a publisher configuration was restored. */
+  RESTORE = "restore",
+  /** The publishers registry changed. */
+  REGISTRY = "registry",
+  /** A file was changed outside the tool and is not valid JSON. */
+  INVALID = "invalid",
+  /** Someone opened or closed a publisher, or its edit lock changed hands. */
+  PRESENCE = "presence",
+}
+
 /**
  * Types of differences in a configuration comparison.
  */
@@ -0,0 +1,51 @@
+/**
+ * Environments
+ *
+ * The environments the server keeps (e.g. dev, staging and prod), in promotion order. Configurations
+ * are edited in the first one, the working environment; the others are read-only and change only when
+ * a configuration is promoted to them. The list is loaded once per page.
+ */
+
+import { api } from "./api-client.js";
+import { EnvironmentList } from "./interfaces.js";
+
+/** The pending or finished request for the list. */
+let environmentsRequest: Promise<EnvironmentList> | null = null;
+
+/**
+ * Loads the environments. The list is requested once and shared; a failed request is retried on the
+ * next call.
+ *
+ * @returns The environments, or an empty list if they could not be loaded.
+ */
+export function loadEnvironments(): Promise<EnvironmentList> {
+  if (!environmentsRequest) {
+    environmentsRequest = api
+      .getInBackground("/api/environments")
+      .then((res) => {
+        if (!res.ok)
+          throw new Error(`Failed to load environments: ${res.status}`);
+        return res.json();
+      })
+      .catch((error) => {
+        console.error(error);
+        environmentsRequest = null;
+        return { working: "", environments: [] };
+      });
+  }
+  return environmentsRequest;
+}
+
+/**
+ * Adds the environment to an API URL, for the routes that can read other environments.
+ *
+ * @param url - The endpoint URL.
+ * @param environment - The environment, or null for the working environment.
+ * @returns The URL with an 'env' query parameter, if needed.
+ */
+export function withEnvironment(url: string, environment: string | null) {
+  if (!environment) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}env=${encodeURIComponent(
+    environment
+  )}`;
+}
@@ -0,0 +1,38 @@
+/**
+ * Exports
+ *
+ * Downloads the exports the server builds: a configuration as YAML, the pages of every publisher as
+ * CSV and a ZIP bundle of all configurations.
+ */
+
+import { api } from "./api-client.js";
+import { Snackbar } from "./components/snackbar/snackbar.js";
+import { SnackbarType } from "./enums.js";
+import { saveBlob } from "./utils.js";
+
+/**
+ * Downloads an export, under the file name the server suggests.
+ *
+ * @param url - The export endpoint.
+ * @param fallbackName - The file name used when the server does not suggest one.
+ * @returns True if the file was downloaded; failures are shown in a snackbar.
+ */
+export async function downloadExport(url: string, fallbackName: string) {
+  try {
+    const res = await api.get(url);
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}));
+      new Snackbar(body.error || "Export failed", SnackbarType.ERROR);
+      return false;
+    }
+
+    const disposition = res.headers.get("Content-Disposition") || "";
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1];
+    saveBlob(await res.blob(), filename || fallbackName);
+    return true;
+  } catch (error) {
+    console.error(error);
+    new Snackbar("Export failed", SnackbarType.ERROR);
+    return false;
+  }
+}
@@ -4,6 +4,15 @@
  * Defines global TypeScript interfaces and types, including the core `Component` contract.
  */
 
+import {
+  BulkEditRuleType,
+  BulkEditStatus,
+  ChangeEventType,
+  ChangeRequestStatus,
+  RegistryIssueType,
+  UserRole,
+} from "./enums.js";
+
 /**
  * Represents a UI component in the application.
  * All components should implement this interface to ensure a consistent lifecycle.
@@ -31,3 +40,333 @@ export interface Component {
    */
   destroy(): void;
 }
+
+/**
+ * Represents the configuration for a specific page within a publisher's setup.
+ */
+export interface PageConfig {
+  pageType: string;
+  selector: string;
+  position: string;
+}
+
+/**
+ * Represents the full configuration object for a publisher.
+ */
+export interface PublisherConfig {
+  publisherId: string;
+  aliasName: string;
+  pages: PageConfig[];
+  publisherDashboard: string;
+  monitorDashboard: string;
+  qaStatusDashboard: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A single validation failure reported by the server when a save is rejected.
+ */
+export interface ValidationIssue {
+  /** Location of the failing value, e.g. 'pages[1].selector'. Empty for the document root. */
+  path: string;
+  /** Human readable description of the failure. */
+  message: string;
+}
+
+/**
+ * Who made a change and why. Sent with every save and stored in the version history.
+ */
+export interface ChangeDetails {
+  /** Name of the person making the change. */
+  author: string;
+  /** Free-text description of the change. */
+  message: string;
+}
+
+/**
+ * Metadata of a single historical version, as returned by the versions endpoint.
+ */
+export interface VersionInfo extends ChangeDetails {
+  /** The version number. */
+  version: number;
+  /** ISO 8601 timestamp of the save. */
+  timestamp: string;
+  /** Paths that differ from the previous version, e.g. 'pages[0].position'. */
+  changedPaths: string[];
+  /** The version this one was restored from, if it is a rollback. */
+  restoredFrom?: number;
+}
+
+/**
+ * A single structural difference between two configurations, as computed by the server.
+ */
+export interface ConfigChange {
+  type: "added" | "removed" | "changed";
+  /** Dotted path of the changed value, e.g. 'pages[0].position'. */
+  path: string;
+  /** JSON Pointer of the changed value, e.g. '/pages/0/position'. */
+  pointer: string;
+  before?: unknown;
+  after?: unknown;
+  /** One-line description of the change. */
+  description: string;
+}
+
+/**
+ * A user account, as returned by the auth and users endpoints.
+ */
+export interface User {
+  username: string;
+  role: UserRole;
+  /** ISO 8601 timestamp of when the account was created. */
+  createdAt: string;
+}
+
+/**
+ * A review comment on a change request.
+ */
+export interface ChangeRequestComment {
+  author: string;
+  text: string;
+  /** ISO 8601 timestamp of the comment. */
+  timestamp: string;
+}
+
+/**
+ * A proposed change to a publisher configuration, as listed by the change requests endpoint.
+ */
+export interface ChangeRequestSummary {
+  id: number;
+  /** The publisher configuration file the change applies to. */
+  file: string;
+  /** The version the proposed content was based on. */
+  baseVersion: number;
+  author: string;
+  message: string;
+  /** ISO 8601 timestamp of the submission. */
+  createdAt: string;
+  status: ChangeRequestStatus;
+  comments: ChangeRequestComment[];
+  /** Who approved or rejected the request. */
+  reviewedBy?: string;
+  /** ISO 8601 timestamp of the approval or rejection. */
+  reviewedAt?: string;
+  /** The version created by approving the request. */
+  appliedVersion?: number;
+}
+
+/**
+ * A change request with its proposed content and diff, as returned for a single request.
+ */
+export interface ChangeRequestDetails extends ChangeRequestSummary {
+  content: unknown;
+  /** The changes against the base version. */
+  changes: ConfigChange[];
+  /** The publisher's current version; approval fails when it differs from 'baseVersion'. */
+  latestVersion: number;
+}
+
+/**
+ * An autosaved working copy of a publisher configuration, as returned by the drafts endpoints.
+ */
+export interface Draft {
+  /** The publisher configuration file being edited. */
+  file: string;
+  /** The working copy (omitted when listing drafts). */
+  content?: unknown;
+  /** The version the edits started from. */
+  baseVersion: number;
+  /** ISO 8601 timestamp of the last autosave. */
+  updatedAt: string;
+}
+
+/**
+ * A change applied to every publisher selected for a bulk edit. Paths are JSON Pointers in which
+ * a '*' token matches every element of a list.
+ */
+export interface BulkEditRule {
+  type: BulkEditRuleType;
+  /** The path to change ('set', 'replace' and 'append'). */
+  path?: string;
+  /** The value to set or append. */
+  value?: unknown;
+  /** The value to replace ('replace' only). */
+  from?: unknown;
+  /** The replacement ('replace' only). */
+  to?: unknown;
+  /** The JSON Patch operations ('patch' only). */
+  operations?: unknown[];
+}
+
+/**
+ * The outcome of a bulk edit rule for one publisher, as returned by the preview.
+ */
+export interface BulkEditPreview {
+  file: string;
+  alias: string;
+  /** The version the rule was applied to. */
+  version: number;
+  status: BulkEditStatus;
+  changes?: ConfigChange[];
+  /** Why the publisher is skipped. */
+  error?: string;
+  details?: ValidationIssue[];
+}
+
+/**
+ * A version created by a bulk edit.
+ */
+export interface BulkEditVersion {
+  file: string;
+  /** The version before the bulk edit. */
+  previousVersion: number;
+  version: number;
+  /** The version created by rolling the bulk edit back. */
+  rollbackVersion?: number;
+}
+
+/**
+ * A recorded bulk edit, as returned by the bulk edits endpoints.
+ */
+export interface BulkEdit {
+  id: number;
+  rule: BulkEditRule;
+  author: string;
+  message: string;
+  /** ISO 8601 timestamp of the bulk edit. */
+  createdAt: string;
+  versions: BulkEditVersion[];
+  rolledBackBy?: string;
+  /** ISO 8601 timestamp of the rollback. */
+  rolledBackAt?: string;
+}
+
+/**
+ * A value in a configuration that satisfied a search predicate.
+ */
+export interface SearchMatch {
+  /** The concrete path, e.g. 'pages[1].position' (the query path for 'missing' predicates). */
+  path: string;
+  /** The value at the path (omitted for 'missing' predicates). */
+  value?: unknown;
+}
+
+/**
+ * A publisher matching an advanced search, as returned by the search endpoint.
+ */
+export interface SearchResult {
+  id: string;
+  alias: string;
+  file: string;
+  archived: boolean;
+  matches: SearchMatch[];
+}
+
+/**
+ * An inconsistency between the publishers registry and the configuration files.
+ */
+export interface RegistryIssue {
+  /** Identifies the issue when fixing it. */
+  key: string;
+  type: RegistryIssueType;
+  file: string;
+  message: string;
+  /** What the automatic fix changes. Omitted when the issue must be fixed by hand. */
+  fix?: string;
+}
+
+/**
+ * The result of the registry consistency check.
+ */
+export interface RegistryHealthReport {
+  healthy: boolean;
+  issues: RegistryIssue[];
+}
+
+/**
+ * A change pushed by the server's event stream.
+ */
+export interface ChangeEvent {
+  type: ChangeEventType;
+  /** The environment of the file (omitted for the working environment's presence and invalid events). */
+  environment?: string;
+  file: string;
+  /** The version that was created. */
+  version?: number;
+  author?: string;
+  message?: string;
+  /** The version that was restored ('restore' events). */
+  restoredFrom?: number;
+  /** Whether the version records an edit made outside the tool. */
+  external?: boolean;
+  /** Why the file is not valid JSON ('invalid' events). */
+  error?: string;
+  /** Who has the publisher open ('presence' events). */
+  presence?: PublisherPresence;
+}
+
+/**
+ * Someone who has a publisher open.
+ */
+export interface PresenceViewer {
+  username: string;
+  /** ISO 8601 timestamp of when they opened the publisher. */
+  since: string;
+  /** Whether they hold the edit lock. */
+  editing: boolean;
+}
+
+/**
+ * The soft edit lock of a publisher, held by the first editor who opened it.
+ */
+export interface EditLock {
+  username: string;
+  acquiredAt: string;
+  /** ISO 8601 timestamp of when the lock expires unless its holder's heartbeats renew it. */
+  expiresAt: string;
+}
+
+/**
+ * Who has a publisher open, and who is editing it.
+ */
+export interface PublisherPresence {
+  file: string;
+  /** One entry per user. */
+  viewers: PresenceViewer[];
+  lock: EditLock | null;
+}
+
+/**
+ * The environments, in promotion order.
+ */
+export interface EnvironmentList {
+  /** The environment where configurations are edited (the first one). */
+  working: string;
+  environments: string[];
+}
+
+/**
+ * What promoting a configuration would change in the target environment.
+ */
+export interface PromotionPreview {
+  from: string;
+  to: string;
+  /** The source's latest version, which is promoted. */
+  fromVersion: number;
+  /** The target's latest version (0 when the publisher does not exist there yet). */
+  toVersion: number;
+  changes: ConfigChange[];
+}
+
+/**
+ * A base template, as listed by GET /api/templates.
+ */
+export interface TemplateInfo {
+  name: string;
+  /** The data filename, e.g. 'template-base.json'. */
+  file: string;
+  /** The template this one extends, if any. */
+  extends: string | null;
+  /** The configurations (publishers or templates) extending it directly. */
+  usedBy: string[];
+}
@@ -0,0 +1,141 @@
+/**
+ * Change Description Modal
+ *
+ * A confirmation dialog that also collects who is making a change and why.
+ * Features:
+ * - Author name input, remembered between saves (fixed to the account name when signed in).
+ * - Required free-text description of the change.
+ * - Backdrop click to close.
+ */
+
+import { ChangeDetails, Component } from "../../interfaces.js";
+import {
+  createElementWithClasses,
+  getStoredAuthor,
+  setStoredAuthor,
+} from "../../utils.js";
+import { getCurrentUser } from "../../session.js";
+
+/**
+ * A confirmation modal that asks for the author and a description of the change.
+ */
+export class ChangeDescription implements Component {
+  rootElement: HTMLElement;
+  componentElement: HTMLElement;
+  onConfirm: (details: ChangeDetails) => void;
+  title: string;
+  message: string;
+
+  /**
+   * Creates an instance of ChangeDescription.
+   * @param rootElement - The element to append the modal to (usually document.body).
+   * @param onConfirm - Called with the entered details when the user confirms.
+   * @param title - The title of the modal.
+   * @param message - The message body of the modal.
+   */
+  constructor(
+    rootElement: HTMLElement,
+    onConfirm: (details: ChangeDetails) => void,
+    title: string = "Describe your change",
+    message: string = ""
+  ) {
+    this.rootElement = rootElement;
+    this.onConfirm = onConfirm;
+    this.title = title;
+    this.message = message;
+
+    this.componentElement = createElementWithClasses("div", [
+      "change-description-overlay",
+    ]);
+
+    this.init();
+  }
+
+  private init() {
+    this.render();
+    this.mount();
+  }
+
+  render() {
+    this.componentElement.innerHTML = `
+      <form class="change-description-modal">
+        <h3 class="change-description-modal__header">${this.title}</h3>
+        <div class="change-description-modal__content">${this.message}</div>
+        <label class="change-description-modal__label" for="change-author-input">Your name</label>
+        <input id="change-author-input" class="base-input" type="text" required />
+        <label class="change-description-modal__label" for="change-message-input">What changed and why?</label>
+        <textarea id="change-message-input" class="base-input change-description-modal__message" rows="3" required></textarea>
+        <div class="change-description-modal__footer">
+          <button type="button" class="change-description-modal__btn base-button change-description-modal__btn--cancel" id="change-cancel-btn">Cancel</button>
+          <button type="submit" class="change-description-modal__btn base-button change-description-modal__btn--confirm">Confirm</button>
+        </div>
+      </form>
+    `;
+
+    const authorInput = this.componentElement.querySelector(
+      "#change-author-input"
+    ) as HTMLInputElement;
+    // The server records signed-in users under their account name, whatever is typed here
+    const user = getCurrentUser();
+    authorInput.value = user ? user.username : getStoredAuthor();
+    authorInput.readOnly = !!user;
+
+    this.attachEvents();
+  }
+
+  mount() {
+    this.rootElement.appendChild(this.componentElement);
+    // Force reflow
+    this.componentElement.getBoundingClientRect();
+    this.componentElement.classList.add("open");
+
+    // Focus the first field that still needs input
+    const focusTarget =
+      getCurrentUser() || getStoredAuthor()
+        ? "#change-message-input"
+        : "#change-author-input";
+    (this.componentElement.querySelector(focusTarget) as HTMLElement)?.focus();
+  }
+
+  attachEvents() {
+    const form = this.componentElement.querySelector("form");
+    const cancelBtn = this.componentElement.querySelector("#change-cancel-btn");
+    const overlay = this.componentElement;
+
+    cancelBtn?.addEventListener("click", () => this.destroy());
+
+    form?.addEventListener("submit", (e) => {
+      e.preventDefault();
+      const author = (
+        this.componentElement.querySelector(
+          "#change-author-input"
+        ) as HTMLInputElement
+      ).value.trim();
+      const message = (
+        this.componentElement.querySelector(
+          "#change-message-input"
+        ) as HTMLTextAreaElement
+      ).value.trim();
+
+      if (!author || !message) return;
+
+      setStoredAuthor(author);
+      this.onConfirm({ author, message });
+      this.destroy();
+    });
+
+    // Close on click outside
+    overlay.addEventListener("click", (e) => {
+      if (e.target === overlay) {
+        this.destroy();
+      }
+    });
+  }
+
+  destroy() {
+    this.componentElement.classList.remove("open");
+    setTimeout(() => {
+      this.componentElement.remove();
+    }, 300);
+  }
+}
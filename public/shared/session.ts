@@ -0,0 +1,51 @@
+/**
+ * Session State
+ *
+ * Holds the signed-in user for the lifetime of the page, so components can show or hide
+ * actions based on the user's role. The server enforces the same roles on every request.
+ */
+
+import { UserRole } from "./enums.js";
+import { User } from "./interfaces.js";
+
+/** Roles from least to most privileged. */
+const ROLE_ORDER = [
+  UserRole.VIEWER,
+  UserRole.EDITOR,
+  UserRole.APPROVER,
+  UserRole.ADMIN,
+];
+
+/** The signed-in user, or null before sign-in. */
+let currentUser: User | null = null;
+
+/**
+ * Returns the signed-in user.
+ *
+ * @returns The user, or null when nobody is signed in.
+ */
+export function getCurrentUser() {
+  return currentUser;
+}
+
+/**
+ * Stores the signed-in user (or null after signing out).
+ *
+ * @param user - The user.
+ */
+export function setCurrentUser(user: User | null) {
+  currentUser = user;
+}
+
+/**
+ * Checks whether the signed-in user has at least the given role.
+ *
+ * @param role - The least privileged role required.
+ * @returns True if the user's role includes the required role.
+ */
+export function hasRole(role: UserRole) {
+  return (
+    !!currentUser &&
+    ROLE_ORDER.indexOf(currentUser.role) >= ROLE_ORDER.indexOf(role)
+  );
+}
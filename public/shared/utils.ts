@@ -4,6 +4,8 @@
  * General helper functions used throughout the application.
  */
 
+import { ChangeDetails } from "./interfaces.js";
+
 /**
  * Creates an HTML element with one or more class names.
  *
@@ -21,3 +23,57 @@ export function createElementWithClasses(
   }
   return element;
 }
+
+/** Local storage key holding the name the user last saved changes under. */
+const AUTHOR_STORAGE_KEY = "deeperdive.author";
+
+/**
+ * Returns the name the user last saved changes under.
+ *
+ * @returns The stored author name, or an empty string.
+ */
+export function getStoredAuthor() {
+  return localStorage.getItem(AUTHOR_STORAGE_KEY) || "";
+}
+
+/**
+ * Remembers the name the user saves changes under for future saves.
+ *
+ * @param author - The author name.
+ */
+export function setStoredAuthor(author: string) {
+  localStorage.setItem(AUTHOR_STORAGE_KEY, author);
+}
+
+/**
+ * Builds the request headers that attach change details to a write request.
+ * Values are URI-encoded so they can carry non-ASCII text.
+ *
+ * @param details - Who made the change and why.
+ * @returns Headers to merge into the request.
+ */
+export function getChangeHeaders(
+  details: ChangeDetails
+): Record<string, string> {
+  return {
+    "X-Author": encodeURIComponent(details.author),
+    "X-Change-Message": encodeURIComponent(details.message),
+  };
+}
+
+/**
+ * Makes the browser download a file.
+ *
+ * @param blob - The file content.
+ * @param filename - The suggested file name.
+ */
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
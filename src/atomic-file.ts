@@ -0,0 +1,57 @@
+/**
+ * Atomic File Writes
+ *
+ * Writes go to a temporary file in the target's directory and are then renamed over the target.
+ * A rename within one directory is atomic, so readers (and a restarted server) see either the old
+ * or the new content, never a truncated file.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { randomBytes } from "crypto";
+
+/** Suffix of temporary files; leftovers from a crash are removed at startup. */
+export const TEMP_FILE_SUFFIX = ".tmp";
+
+/**
+ * Atomically replaces a file's content.
+ *
+ * @param filePath - The file to write.
+ * @param content - The new content.
+ */
+export const writeFileAtomic = async (
+  filePath: string,
+  content: string | Uint8Array
+) => {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${randomBytes(6).toString(
+      "hex"
+    )}${TEMP_FILE_SUFFIX}`
+  );
+
+  try {
+    await fs.writeFile(tempPath, content, "utf-8");
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+};
+
+/**
+ * Removes temporary files left behind by interrupted writes.
+ *
+ * @param dir - The directory to clean.
+ * @returns The names of the removed files.
+ */
+export const removeStaleTempFiles = async (dir: string) => {
+  const files = await fs.readdir(dir);
+  const stale = files.filter(
+    (f) => f.startsWith(".") && f.endsWith(TEMP_FILE_SUFFIX)
+  );
+  await Promise.all(
+    stale.map((f) => fs.rm(path.join(dir, f), { force: true }))
+  );
+  return stale;
+};
@@ -0,0 +1,138 @@
+/**
+ * Audit Log
+ *
+ * An append-only JSONL file with one record per audited request: who did what to which file, from where,
+ * and whether it succeeded. Records are only ever appended, never rewritten.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import { runExclusive } from "./write-queue.js";
+
+/**
+ * A single audit log entry.
+ */
+export interface AuditRecord {
+  /** ISO 8601 timestamp of the request. */
+  timestamp: string;
+  /** The editor, from the X-Author header ('anonymous' when missing, 'external' for changes made outside the API). */
+  actor: string;
+  /** What was attempted, e.g. 'update', 'patch', 'archive', 'read-versions'. */
+  action: string;
+  /** The publisher configuration file the request targeted. */
+  file: string;
+  /** The environment the request targeted, when it is not the working environment. */
+  environment?: string;
+  /** The version created by the request, if any. */
+  version?: number;
+  /** The registry version created by the request, if it changed 'publishers.json'. */
+  registryVersion?: number;
+  /** Paths changed by the new version, e.g. 'pages[0].position'. */
+  changedPaths?: string[];
+  /** The change description, if one was sent. */
+  message?: string;
+  /** The client's IP address (empty for changes made outside the API). */
+  ip: string;
+  outcome: "success" | "failure";
+  /** The HTTP status code of the response (omitted for changes made outside the API). */
+  status?: number;
+  /** The error returned to the client, for failures. */
+  error?: string;
+}
+
+/**
+ * Criteria for querying the audit log. All criteria are optional and combined with AND.
+ */
+export interface AuditFilter {
+  /** Only records for these files. */
+  files?: string[];
+  /** Only records by this actor (case-insensitive). */
+  actor?: string;
+  /** Only records with a changed path starting with this prefix, e.g. 'pages' or 'isActive'. */
+  pathPrefix?: string;
+  /** Only records at or after this time. */
+  from?: Date;
+  /** Only records at or before this time. */
+  to?: Date;
+  action?: string;
+  outcome?: AuditRecord["outcome"];
+  /** Maximum number of records to return (newest first). */
+  limit?: number;
+}
+
+/**
+ * Appends to and queries a JSONL audit log file.
+ */
+export class AuditLog {
+  /** Path of the JSONL file. */
+  readonly filePath: string;
+
+  /**
+   * Creates an audit log. The file and its folder are created on the first append.
+   * @param filePath - The JSONL file.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Appends a record. Appends are queued so concurrent requests never interleave lines.
+   *
+   * @param record - The record to append.
+   */
+  append(record: AuditRecord) {
+    return runExclusive(this.filePath, async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(
+        this.filePath,
+        `${JSON.stringify(record)}\n`,
+        "utf-8"
+      );
+    });
+  }
+
+  /**
+   * Reads the records matching a filter.
+   *
+   * @param filter - The criteria to match.
+   * @returns The matching records, newest first.
+   */
+  async query(filter: AuditFilter = {}) {
+    if (!existsSync(this.filePath)) return [];
+
+    const lines = (await fs.readFile(this.filePath, "utf-8")).split("\n");
+    const records: AuditRecord[] = [];
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash is skipped rather than failing the whole query
+      }
+    }
+
+    const matches = records.filter((record) => {
+      const time = new Date(record.timestamp).getTime();
+      const { pathPrefix } = filter;
+      return (
+        (!filter.files || filter.files.includes(record.file)) &&
+        (!filter.actor ||
+          record.actor.toLowerCase() === filter.actor.toLowerCase()) &&
+        (!pathPrefix ||
+          (record.changedPaths || []).some(
+            (changed) =>
+              changed === pathPrefix ||
+              changed.startsWith(`${pathPrefix}.`) ||
+              changed.startsWith(`${pathPrefix}[`)
+          )) &&
+        (!filter.from || time >= filter.from.getTime()) &&
+        (!filter.to || time <= filter.to.getTime()) &&
+        (!filter.action || record.action === filter.action) &&
+        (!filter.outcome || record.outcome === filter.outcome)
+      );
+    });
+
+    return matches.reverse().slice(0, filter.limit);
+  }
+}
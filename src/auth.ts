@@ -0,0 +1,483 @@
+/**
+ * Authentication and Authorization
+ *
+ * Local user accounts stored on disk (passwords hashed with scrypt), in-memory sessions identified by an
+ * HttpOnly cookie, and four roles: viewer (read-only), editor (save changes and propose changes to
+ * active publishers), approver (review change requests) and admin (create and archive publishers,
+ * manage users). Each role includes the permissions of the roles before it.
+ */
+
+import express from "express";
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { writeFileAtomic } from "./atomic-file.js";
+import { runExclusive } from "./write-queue.js";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+/** The roles, from least to most privileged. */
+export const ROLES = ["viewer", "editor", "approver", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/**
+ * A user account as stored on disk.
+ */
+export interface UserAccount {
+  username: string;
+  role: Role;
+  /** 'scrypt$<salt>$<hash>', both hex encoded. */
+  passwordHash: string;
+  /** ISO 8601 timestamp of when the account was created. */
+  createdAt: string;
+}
+
+/**
+ * A user account without its password hash, safe to send to clients.
+ */
+export type User = Omit<UserAccount, "passwordHash">;
+
+declare module "express-serve-static-core" {
+  interface Request {
+    /** The signed-in user (set by the authenticate middleware). */
+    user?: User;
+  }
+}
+
+/** Name of the session cookie. */
+export const SESSION_COOKIE = "dd_session";
+
+/** How long a session stays valid without requests. */
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+/** Usernames: letters, digits, dots, dashes and underscores. */
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+/** Minimum password length. */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Raised when a user operation is not allowed. 'status' is the HTTP status to respond with.
+ */
+export class UserError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "UserError";
+  }
+}
+
+/**
+ * Hashes a password with a random salt.
+ *
+ * @param password - The plain text password.
+ * @returns The encoded hash.
+ */
+export const hashPassword = async (password: string) => {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+};
+
+/**
+ * Checks a password against an encoded hash in constant time.
+ *
+ * @param password - The plain text password.
+ * @param encoded - The hash created by hashPassword.
+ * @returns True if the password matches.
+ */
+export const verifyPassword = async (password: string, encoded: string) => {
+  const [scheme, salt, hash] = encoded.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+};
+
+/**
+ * Checks whether a role includes the permissions of another role.
+ *
+ * @param role - The user's role.
+ * @param required - The role a route requires.
+ * @returns True if the role is at least as privileged as the required role.
+ */
+export const hasRole = (role: Role, required: Role) =>
+  ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+/**
+ * Strips the password hash from an account.
+ */
+const toUser = ({ passwordHash, ...user }: UserAccount): User => {
+  void passwordHash;
+  return user;
+};
+
+/**
+ * User accounts stored in a JSON file.
+ */
+export class UserStore {
+  /** Path of the JSON file holding the accounts. */
+  readonly filePath: string;
+
+  /**
+   * Creates a store over a JSON file. The file and its folder are created on the first write.
+   * @param filePath - The accounts file.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Creates the first admin account when there are no accounts yet.
+   * Without a configured password, a random one is generated and printed once.
+   *
+   * @param username - The admin username.
+   * @param password - The admin password, if configured.
+   */
+  async ensureAdmin(username: string, password?: string) {
+    if ((await this.read()).length > 0) return;
+
+    const initialPassword = password || randomBytes(9).toString("base64url");
+    await this.create(username, initialPassword, "admin");
+    console.log(
+      password
+        ? `Created admin account '${username}'.`
+        : `Created admin account '${username}' with password: ${initialPassword}`
+    );
+  }
+
+  /**
+   * Lists all accounts.
+   *
+   * @returns The users, without password hashes.
+   */
+  async list() {
+    return (await this.read()).map(toUser);
+  }
+
+  /**
+   * Checks a username and password.
+   *
+   * @param username - The username.
+   * @param password - The plain text password.
+   * @returns The user if the credentials are valid, otherwise null.
+   */
+  async authenticate(username: string, password: string) {
+    const account = (await this.read()).find(
+      (item) => item.username === username
+    );
+    if (!account || !(await verifyPassword(password, account.passwordHash))) {
+      return null;
+    }
+    return toUser(account);
+  }
+
+  /**
+   * Looks up a user.
+   *
+   * @param username - The username.
+   * @returns The user, or null if there is no such account.
+   */
+  async get(username: string) {
+    const account = (await this.read()).find(
+      (item) => item.username === username
+    );
+    return account ? toUser(account) : null;
+  }
+
+  /**
+   * Creates an account.
+   *
+   * @param username - The new username.
+   * @param password - The plain text password.
+   * @param role - The role to grant.
+   * @returns The new user.
+   * @throws {UserError} If the details are invalid (422) or the username is taken (409).
+   */
+  create(username: string, password: string, role: Role) {
+    return runExclusive(this.filePath, async () => {
+      this.validate({ username, password, role });
+      const accounts = await this.read();
+      if (accounts.some((item) => item.username === username)) {
+        throw new UserError(`User '${username}' already exists`, 409);
+      }
+
+      const account: UserAccount = {
+        username,
+        role,
+        passwordHash: await hashPassword(password),
+        createdAt: new Date().toISOString(),
+      };
+      await this.write([...accounts, account]);
+      return toUser(account);
+    });
+  }
+
+  /**
+   * Changes an account's role and/or password.
+   *
+   * @param username - The username.
+   * @param changes - The new role and/or password.
+   * @returns The updated user.
+   * @throws {UserError} If the user does not exist (404), the changes are invalid (422)
+   * or the change would leave no admin (409).
+   */
+  update(username: string, changes: { role?: Role; password?: string }) {
+    return runExclusive(this.filePath, async () => {
+      this.validate(changes);
+      const accounts = await this.read();
+      const account = accounts.find((item) => item.username === username);
+      if (!account) throw new UserError(`User '${username}' not found`, 404);
+
+      if (changes.role && changes.role !== "admin") {
+        this.assertOtherAdmin(accounts, username);
+      }
+
+      const updated: UserAccount = {
+        ...account,
+        ...(changes.role && { role: changes.role }),
+        ...(changes.password && {
+          passwordHash: await hashPassword(changes.password),
+        }),
+      };
+      await this.write(
+        accounts.map((item) => (item === account ? updated : item))
+      );
+      return toUser(updated);
+    });
+  }
+
+  /**
+   * Deletes an account.
+   *
+   * @param username - The username.
+   * @throws {UserError} If the user does not exist (404) or is the last admin (409).
+   */
+  remove(username: string) {
+    return runExclusive(this.filePath, async () => {
+      const accounts = await this.read();
+      if (!accounts.some((item) => item.username === username)) {
+        throw new UserError(`User '${username}' not found`, 404);
+      }
+      this.assertOtherAdmin(accounts, username);
+      await this.write(accounts.filter((item) => item.username !== username));
+    });
+  }
+
+  /**
+   * Validates the fields present in a create or update request.
+   *
+   * @throws {UserError} With status 422 if a field is invalid.
+   */
+  private validate(fields: {
+    username?: string;
+    password?: string;
+    role?: string;
+  }) {
+    if (
+      fields.username !== undefined &&
+      !USERNAME_PATTERN.test(fields.username)
+    ) {
+      throw new UserError(
+        "Username must be 1-64 letters, digits, dots, dashes or underscores",
+        422
+      );
+    }
+    if (
+      fields.password !== undefined &&
+      fields.password.length < MIN_PASSWORD_LENGTH
+    ) {
+      throw new UserError(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+        422
+      );
+    }
+    if (fields.role !== undefined && !ROLES.includes(fields.role as Role)) {
+      throw new UserError(`Role must be one of: ${ROLES.join(", ")}`, 422);
+    }
+  }
+
+  /**
+   * Ensures an admin other than the given user remains, so admins cannot lock everyone out.
+   *
+   * @throws {UserError} With status 409 if the user is the last admin.
+   */
+  private assertOtherAdmin(accounts: UserAccount[], username: string) {
+    const otherAdmins = accounts.filter(
+      (item) => item.role === "admin" && item.username !== username
+    );
+    const isAdmin = accounts.some(
+      (item) => item.username === username && item.role === "admin"
+    );
+    if (isAdmin && otherAdmins.length === 0) {
+      throw new UserError("At least one admin account must remain", 409);
+    }
+  }
+
+  private async read(): Promise<UserAccount[]> {
+    if (!existsSync(this.filePath)) return [];
+    return JSON.parse(await fs.readFile(this.filePath, "utf-8")).users;
+  }
+
+  private async write(accounts: UserAccount[]) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFileAtomic(
+      this.filePath,
+      JSON.stringify({ users: accounts }, null, 2)
+    );
+  }
+}
+
+/**
+ * Active sessions, kept in memory (restarting the server signs everyone out).
+ */
+export class SessionStore {
+  /** Sessions keyed by token. */
+  private sessions = new Map<string, { username: string; expiresAt: number }>();
+
+  /**
+   * Starts a session.
+   *
+   * @param username - The signed-in user.
+   * @returns The session token.
+   */
+  create(username: string) {
+    const token = randomBytes(32).toString("hex");
+    this.sessions.set(token, {
+      username,
+      expiresAt: Date.now() + SESSION_TTL_MS,
+    });
+    return token;
+  }
+
+  /**
+   * Resolves a session token and extends the session.
+   *
+   * @param token - The session token.
+   * @returns The username, or null if the session does not exist or expired.
+   */
+  get(token: string) {
+    const session = this.sessions.get(token);
+    if (!session) return null;
+    if (session.expiresAt < Date.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+    session.expiresAt = Date.now() + SESSION_TTL_MS;
+    return session.username;
+  }
+
+  /**
+   * Ends a session.
+   *
+   * @param token - The session token.
+   */
+  destroy(token: string) {
+    this.sessions.delete(token);
+  }
+
+  /**
+   * Ends every session of a user (e.g. after their account was deleted or their password changed).
+   *
+   * @param username - The user.
+   */
+  destroyForUser(username: string) {
+    this.sessions.forEach((session, token) => {
+      if (session.username === username) this.sessions.delete(token);
+    });
+  }
+}
+
+/**
+ * Reads the session token from the request's cookies.
+ *
+ * @param req - The incoming request.
+ * @returns The token, or an empty string.
+ */
+export const getSessionToken = (req: express.Request) => {
+  const cookies = (req.get("Cookie") || "").split(";");
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return "";
+};
+
+/**
+ * Sets the session cookie on a response.
+ *
+ * @param req - The incoming request (to detect HTTPS).
+ * @param res - The response.
+ * @param token - The session token, or an empty string to clear the cookie.
+ */
+export const setSessionCookie = (
+  req: express.Request,
+  res: express.Response,
+  token: string
+) => {
+  const options = {
+    httpOnly: true,
+    sameSite: "strict" as const,
+    secure: req.secure,
+    path: "/",
+  };
+
+  if (token) {
+    res.cookie(SESSION_COOKIE, token, { ...options, maxAge: SESSION_TTL_MS });
+  } else {
+    res.clearCookie(SESSION_COOKIE, options);
+  }
+};
+
+/**
+ * Creates middleware that resolves the session cookie to a user and rejects requests without one (401).
+ *
+ * @param users - The account store.
+ * @param sessions - The session store.
+ * @returns The middleware.
+ */
+export const authenticate =
+  (users: UserStore, sessions: SessionStore): express.RequestHandler =>
+  async (req, res, next) => {
+    try {
+      const token = getSessionToken(req);
+      const username = token ? sessions.get(token) : null;
+      const user = username ? await users.get(username) : null;
+
+      if (!user) {
+        return res.status(401).json({ error: "Sign in to continue" });
+      }
+      req.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Creates middleware that rejects signed-in users below a role (403).
+ *
+ * @param role - The least privileged role allowed.
+ * @returns The middleware.
+ */
+export const requireRole =
+  (role: Role): express.RequestHandler =>
+  (req, res, next) => {
+    if (!req.user || !hasRole(req.user.role, role)) {
+      return res
+        .status(403)
+        .json({ error: `This action requires the ${role} role` });
+    }
+    next();
+  };
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyBulkEditRule, parseBulkEditRule } from "./bulk-edits.js";
+import { PatchError } from "./patch.js";
+
+test("Bulk edit rules reject paths through reserved keys", () => {
+  for (const rule of [
+    { type: "set", path: "/__proto__/polluted", value: "yes" },
+    { type: "append", path: "/*/constructor/prototype", value: "yes" },
+    {
+      type: "patch",
+      operations: [{ op: "add", path: "/__proto__/polluted", value: "yes" }],
+    },
+    {
+      type: "patch",
+      operations: [{ op: "copy", from: "/constructor", path: "/copied" }],
+    },
+    { type: "patch", operations: [{ op: "add", value: "yes" }] },
+  ]) {
+    assert.throws(
+      () => parseBulkEditRule(rule),
+      (error) => error instanceof PatchError && error.reason === "invalid"
+    );
+  }
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
+
+test("Bulk edit rules still apply to own keys", () => {
+  const rule = parseBulkEditRule({
+    type: "append",
+    path: "/pages/*/tags",
+    value: "news",
+  });
+  assert.deepEqual(
+    applyBulkEditRule({ pages: [{ tags: [] }, { tags: ["sport"] }] }, rule),
+    { pages: [{ tags: ["news"] }, { tags: ["sport", "news"] }] }
+  );
+});
@@ -0,0 +1,411 @@
+/**
+ * Bulk Edits
+ *
+ * One rule applied to many publisher configurations at once, e.g. "append 'news.example.com' to
+ * /allowedDomains" or "replace 'text' with 'article' in the pageType of every page".
+ * Rules address values with JSON Pointers in which a '*' token matches every element of an array
+ * (or every member of an object), so every page's type is addressed as '/pages', '*', 'pageType'.
+ * Each changed publisher gets its own version; the versions of one bulk edit are recorded together
+ * in a JSON file so the whole edit can be rolled back at once.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import { JsonPatchOperation } from "./diff.js";
+import { PatchError, applyJsonPatch, isUnsafeKey } from "./patch.js";
+import { writeFileAtomic } from "./atomic-file.js";
+import { runExclusive } from "./write-queue.js";
+
+/**
+ * A change to apply to every selected publisher.
+ * - 'set' sets the value at each matched path (adding object members that do not exist).
+ * - 'replace' replaces matched values equal to 'from' with 'to'; other values are left alone.
+ * - 'append' adds 'value' to each matched array unless it already contains it (missing arrays are created).
+ * - 'patch' applies an RFC 6902 JSON Patch as is (no wildcards).
+ */
+export type BulkEditRule =
+  | { type: "set"; path: string; value: unknown }
+  | { type: "replace"; path: string; from: unknown; to: unknown }
+  | { type: "append"; path: string; value: unknown }
+  | { type: "patch"; operations: JsonPatchOperation[] };
+
+/**
+ * A version created by a bulk edit.
+ */
+export interface BulkEditVersion {
+  /** The publisher configuration file. */
+  file: string;
+  /** The version before the bulk edit, restored by a rollback. */
+  previousVersion: number;
+  /** The version created by the bulk edit. */
+  version: number;
+  /** The version created by rolling the bulk edit back. */
+  rollbackVersion?: number;
+}
+
+/**
+ * A recorded bulk edit.
+ */
+export interface BulkEdit {
+  /** Sequential id, starting at 1. Also noted in the description of every version it created. */
+  id: number;
+  rule: BulkEditRule;
+  /** Who applied the edit. */
+  author: string;
+  /** The change description. */
+  message: string;
+  /** ISO 8601 timestamp of the edit. */
+  createdAt: string;
+  /** The versions created, one per changed publisher. */
+  versions: BulkEditVersion[];
+  /** Who rolled the edit back. */
+  rolledBackBy?: string;
+  /** ISO 8601 timestamp of the rollback. */
+  rolledBackAt?: string;
+}
+
+/**
+ * Raised when a bulk edit operation is not allowed. 'status' is the HTTP status to respond with.
+ */
+export class BulkEditError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "BulkEditError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Rejects JSON Pointers that go through a reserved key such as '__proto__'. Rule paths are expanded
+ * into patch operations, so they are checked before anything is applied.
+ *
+ * @param pointer - The pointer (wildcards allowed).
+ * @param label - How the pointer is named in the error, e.g. "Rule 'path'".
+ * @throws {PatchError} With reason 'invalid' if a token is reserved.
+ */
+const checkPointer = (pointer: string, label: string) => {
+  const unsafe = pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .find(isUnsafeKey);
+  if (unsafe !== undefined) {
+    throw new PatchError(
+      `${label} uses the reserved key '${unsafe}'`,
+      "invalid"
+    );
+  }
+};
+
+/**
+ * Checks a rule sent by a client.
+ *
+ * @param rule - The parsed request body field.
+ * @returns The rule.
+ * @throws {PatchError} With reason 'invalid' if the rule is malformed.
+ */
+export const parseBulkEditRule = (rule: unknown): BulkEditRule => {
+  if (!isObject(rule)) {
+    throw new PatchError("A rule is required", "invalid");
+  }
+
+  if (rule.type === "patch") {
+    if (!Array.isArray(rule.operations) || rule.operations.length === 0) {
+      throw new PatchError(
+        "A 'patch' rule needs a non-empty 'operations' array",
+        "invalid"
+      );
+    }
+    rule.operations.forEach((operation: unknown, index) => {
+      if (!isObject(operation) || typeof operation.path !== "string") {
+        throw new PatchError(`Operation ${index} has no valid path`, "invalid");
+      }
+      checkPointer(operation.path, `Operation ${index}`);
+      if (typeof operation.from === "string") {
+        checkPointer(operation.from, `Operation ${index}`);
+      }
+    });
+    return rule as BulkEditRule;
+  }
+
+  if (!["set", "replace", "append"].includes(rule.type as string)) {
+    throw new PatchError(
+      "Rule 'type' must be 'set', 'replace', 'append' or 'patch'",
+      "invalid"
+    );
+  }
+  if (typeof rule.path !== "string" || !rule.path.startsWith("/")) {
+    throw new PatchError(
+      "Rule 'path' must be a JSON Pointer such as '/allowedDomains'",
+      "invalid"
+    );
+  }
+  checkPointer(rule.path, "Rule 'path'");
+  const required = rule.type === "replace" ? ["from", "to"] : ["value"];
+  const missing = required.filter((key) => !(key in rule));
+  if (missing.length > 0) {
+    throw new PatchError(
+      `A '${rule.type}' rule needs ${missing
+        .map((key) => `'${key}'`)
+        .join(" and ")}`,
+      "invalid"
+    );
+  }
+  return rule as BulkEditRule;
+};
+
+/**
+ * Describes a rule in one line, used as the default change description.
+ *
+ * @param rule - The rule.
+ * @returns The description, e.g. 'Append "news.example.com" to /allowedDomains'.
+ */
+export const describeBulkEditRule = (rule: BulkEditRule) => {
+  switch (rule.type) {
+    case "set":
+      return `Set ${rule.path} to ${JSON.stringify(rule.value)}`;
+    case "replace":
+      return `Replace ${JSON.stringify(rule.from)} with ${JSON.stringify(
+        rule.to
+      )} at ${rule.path}`;
+    case "append":
+      return `Append ${JSON.stringify(rule.value)} to ${rule.path}`;
+    case "patch":
+      return "Apply JSON Patch";
+  }
+};
+
+/**
+ * A location matched by a wildcard pointer.
+ */
+interface PointerMatch {
+  /** The concrete JSON Pointer, e.g. '/pages/2/pageType'. */
+  pointer: string;
+  /** Whether a value exists at the pointer. */
+  exists: boolean;
+  value: unknown;
+}
+
+/**
+ * Expands a JSON Pointer whose '*' tokens match every element or member of a container.
+ * Other tokens are kept as they are, so a pointer without wildcards always yields exactly one match.
+ *
+ * @param document - The document to match against.
+ * @param pointer - The pointer, with '*' tokens as wildcards.
+ * @returns The matched locations in document order.
+ */
+const expandPointer = (document: unknown, pointer: string): PointerMatch[] => {
+  const tokens = pointer.slice(1).split("/");
+
+  const expand = (
+    value: unknown,
+    exists: boolean,
+    index: number,
+    prefix: string
+  ): PointerMatch[] => {
+    if (index === tokens.length) return [{ pointer: prefix, exists, value }];
+
+    const token = tokens[index];
+    const container =
+      typeof value === "object" && value !== null
+        ? (value as Record<string, unknown>)
+        : null;
+
+    if (token === "*") {
+      if (!container) return [];
+      return Object.keys(container).flatMap((key) =>
+        expand(
+          container[key],
+          true,
+          index + 1,
+          `${prefix}/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`
+        )
+      );
+    }
+
+    const key = token.replace(/~1/g, "/").replace(/~0/g, "~");
+    const next = `${prefix}/${token}`;
+    if (!container || !Object.prototype.hasOwnProperty.call(container, key)) {
+      return expand(undefined, false, index + 1, next);
+    }
+    return expand(container[key], true, index + 1, next);
+  };
+
+  return expand(document, true, 0, "");
+};
+
+/**
+ * Applies a rule to a document.
+ *
+ * @param document - The document (left untouched).
+ * @param rule - The rule to apply.
+ * @returns The changed copy (equal to the document when the rule matches nothing).
+ * @throws {PatchError} If the rule does not fit the document, e.g. a parent path does not exist.
+ */
+export const applyBulkEditRule = (document: unknown, rule: BulkEditRule) => {
+  if (rule.type === "patch") return applyJsonPatch(document, rule.operations);
+
+  const operations = expandPointer(document, rule.path).flatMap(
+    (match): JsonPatchOperation[] => {
+      switch (rule.type) {
+        case "set":
+          return [
+            {
+              op: match.exists ? "replace" : "add",
+              path: match.pointer,
+              value: rule.value,
+            },
+          ];
+        case "replace":
+          return match.exists && isEqual(match.value, rule.from)
+            ? [{ op: "replace", path: match.pointer, value: rule.to }]
+            : [];
+        case "append":
+          if (!match.exists) {
+            return [{ op: "add", path: match.pointer, value: [rule.value] }];
+          }
+          if (!Array.isArray(match.value)) {
+            throw new PatchError(
+              `'${match.pointer}' is not an array`,
+              "conflict"
+            );
+          }
+          return match.value.some((item) => isEqual(item, rule.value))
+            ? []
+            : [{ op: "add", path: `${match.pointer}/-`, value: rule.value }];
+      }
+    }
+  );
+
+  return applyJsonPatch(document, operations);
+};
+
+/**
+ * Bulk edits stored in a JSON file.
+ */
+export class BulkEditStore {
+  /** Path of the JSON file holding the bulk edits. */
+  readonly filePath: string;
+
+  /**
+   * Creates a store over a JSON file. The file and its folder are created on the first write.
+   * @param filePath - The bulk edits file.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Lists the bulk edits.
+   *
+   * @returns The bulk edits, newest first.
+   */
+  async list() {
+    return (await this.read()).reverse();
+  }
+
+  /**
+   * Looks up a bulk edit.
+   *
+   * @param id - The bulk edit id.
+   * @returns The bulk edit, or null if there is no such edit.
+   */
+  async get(id: number) {
+    return (await this.read()).find((edit) => edit.id === id) || null;
+  }
+
+  /**
+   * Records a bulk edit. 'apply' receives the new id (so versions can reference it) and saves the
+   * versions; the edit is only recorded if at least one version was created.
+   *
+   * @param input - The rule and who applied it.
+   * @param apply - Saves the changed publishers and returns the versions created.
+   * @returns The recorded bulk edit.
+   * @throws {BulkEditError} With status 409 if no publisher was changed.
+   */
+  create(
+    input: Pick<BulkEdit, "rule" | "author" | "message">,
+    apply: (id: number) => Promise<BulkEditVersion[]>
+  ) {
+    return runExclusive(this.filePath, async () => {
+      const edits = await this.read();
+      const id = Math.max(0, ...edits.map((item) => item.id)) + 1;
+
+      const versions = await apply(id);
+      if (versions.length === 0) {
+        throw new BulkEditError(
+          "The rule did not change any of the selected publishers",
+          409
+        );
+      }
+
+      const edit: BulkEdit = {
+        id,
+        ...input,
+        createdAt: new Date().toISOString(),
+        versions,
+      };
+      await this.write([...edits, edit]);
+      return edit;
+    });
+  }
+
+  /**
+   * Rolls a bulk edit back. 'rollback' restores the previous versions and returns the versions it
+   * created; the edit is only marked as rolled back once that succeeded.
+   *
+   * @param id - The bulk edit id.
+   * @param user - Who is rolling the edit back.
+   * @param rollback - Restores the publishers and returns the new version per file.
+   * @returns The updated bulk edit.
+   * @throws {BulkEditError} If the edit does not exist (404) or was already rolled back (409).
+   */
+  rollBack(
+    id: number,
+    user: string,
+    rollback: (edit: BulkEdit) => Promise<Map<string, number>>
+  ) {
+    return runExclusive(this.filePath, async () => {
+      const edits = await this.read();
+      const edit = edits.find((item) => item.id === id);
+      if (!edit) {
+        throw new BulkEditError(`Bulk edit ${id} not found`, 404);
+      }
+      if (edit.rolledBackAt) {
+        throw new BulkEditError(`Bulk edit ${id} was already rolled back`, 409);
+      }
+
+      const restored = await rollback(edit);
+      const updated: BulkEdit = {
+        ...edit,
+        versions: edit.versions.map((item) => ({
+          ...item,
+          rollbackVersion: restored.get(item.file),
+        })),
+        rolledBackBy: user,
+        rolledBackAt: new Date().toISOString(),
+      };
+      await this.write(edits.map((item) => (item === edit ? updated : item)));
+      return updated;
+    });
+  }
+
+  private async read(): Promise<BulkEdit[]> {
+    if (!existsSync(this.filePath)) return [];
+    return JSON.parse(await fs.readFile(this.filePath, "utf-8")).bulkEdits;
+  }
+
+  private async write(edits: BulkEdit[]) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFileAtomic(
+      this.filePath,
+      JSON.stringify({ bulkEdits: edits }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Change Requests
+ *
+ * Proposed changes to publisher configurations that wait for review instead of going live.
+ * An editor submits the full proposed content together with the version it was based on; a different
+ * user with the approver role approves it (which saves it as a new version) or rejects it.
+ * Requests are kept in a single JSON file, including closed ones, so the review trail stays readable.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import { writeFileAtomic } from "./atomic-file.js";
+import { runExclusive } from "./write-queue.js";
+
+export type ChangeRequestStatus = "open" | "approved" | "rejected";
+
+/**
+ * A review comment on a change request.
+ */
+export interface ChangeRequestComment {
+  author: string;
+  text: string;
+  /** ISO 8601 timestamp of the comment. */
+  timestamp: string;
+}
+
+/**
+ * A proposed change to a publisher configuration.
+ */
+export interface ChangeRequest {
+  /** Sequential id, starting at 1. */
+  id: number;
+  /** The publisher configuration file the change applies to. */
+  file: string;
+  /** The version the proposed content was based on. */
+  baseVersion: number;
+  /** The full proposed content. */
+  content: unknown;
+  /** Who proposed the change. */
+  author: string;
+  /** The change description, used as the version message on approval. */
+  message: string;
+  /** ISO 8601 timestamp of the submission. */
+  createdAt: string;
+  status: ChangeRequestStatus;
+  comments: ChangeRequestComment[];
+  /** Who approved or rejected the request. */
+  reviewedBy?: string;
+  /** ISO 8601 timestamp of the approval or rejection. */
+  reviewedAt?: string;
+  /** The version created by approving the request. */
+  appliedVersion?: number;
+}
+
+/**
+ * A change request without its content, as listed.
+ */
+export type ChangeRequestSummary = Omit<ChangeRequest, "content">;
+
+/**
+ * Criteria for listing change requests. Both are optional and combined with AND.
+ */
+export interface ChangeRequestFilter {
+  status?: ChangeRequestStatus;
+  file?: string;
+}
+
+/**
+ * Raised when a change request operation is not allowed. 'status' is the HTTP status to respond with.
+ */
+export class ChangeRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ChangeRequestError";
+  }
+}
+
+/**
+ * Strips the proposed content from a change request.
+ */
+export const toSummary = ({ content, ...summary }: ChangeRequest) => {
+  void content;
+  return summary;
+};
+
+/**
+ * Change requests stored in a JSON file.
+ */
+export class ChangeRequestStore {
+  /** Path of the JSON file holding the requests. */
+  readonly filePath: string;
+
+  /**
+   * Creates a store over a JSON file. The file and its folder are created on the first write.
+   * @param filePath - The change requests file.
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Lists change requests.
+   *
+   * @param filter - The criteria to match.
+   * @returns The matching requests without their content, newest first.
+   */
+  async list(
+    filter: ChangeRequestFilter = {}
+  ): Promise<ChangeRequestSummary[]> {
+    return (await this.read())
+      .filter(
+        (request) =>
+          (!filter.status || request.status === filter.status) &&
+          (!filter.file || request.file === filter.file)
+      )
+      .reverse()
+      .map(toSummary);
+  }
+
+  /**
+   * Looks up a change request.
+   *
+   * @param id - The request id.
+   * @returns The request, or null if there is no such request.
+   */
+  async get(id: number) {
+    return (await this.read()).find((request) => request.id === id) || null;
+  }
+
+  /**
+   * Submits a change request.
+   *
+   * @param input - The proposed change.
+   * @returns The new open request.
+   */
+  create(
+    input: Pick<
+      ChangeRequest,
+      "file" | "baseVersion" | "content" | "author" | "message"
+    >
+  ) {
+    return runExclusive(this.filePath, async () => {
+      const requests = await this.read();
+      const request: ChangeRequest = {
+        id: Math.max(0, ...requests.map((item) => item.id)) + 1,
+        ...input,
+        createdAt: new Date().toISOString(),
+        status: "open",
+        comments: [],
+      };
+      await this.write([...requests, request]);
+      return request;
+    });
+  }
+
+  /**
+   * Adds a comment to a change request.
+   *
+   * @param id - The request id.
+   * @param author - Who wrote the comment.
+   * @param text - The comment.
+   * @returns The updated request.
+   * @throws {ChangeRequestError} If the request does not exist (404) or the comment is empty (422).
+   */
+  addComment(id: number, author: string, text: string) {
+    return runExclusive(this.filePath, async () => {
+      if (!text.trim()) {
+        throw new ChangeRequestError("Comment must not be empty", 422);
+      }
+      return this.update(id, (request) => ({
+        ...request,
+        comments: [
+          ...request.comments,
+          { author, text: text.trim(), timestamp: new Date().toISOString() },
+        ],
+      }));
+    });
+  }
+
+  /**
+   * Approves or rejects an open change request. Approval runs 'apply' first and only closes the
+   * request once the change was saved, so a failed apply leaves the request open.
+   *
+   * @param id - The request id.
+   * @param reviewer - Who is reviewing the request.
+   * @param decision - 'approved' or 'rejected'.
+   * @param apply - Saves the approved content and returns the new version (approval only).
+   * @returns The closed request.
+   * @throws {ChangeRequestError} If the request does not exist (404), is already closed (409)
+   * or was submitted by the reviewer (403).
+   */
+  review(
+    id: number,
+    reviewer: string,
+    decision: Exclude<ChangeRequestStatus, "open">,
+    apply?: (request: ChangeRequest) => Promise<number>
+  ) {
+    return runExclusive(this.filePath, async () => {
+      const request = await this.get(id);
+      if (!request) {
+        throw new ChangeRequestError(`Change request ${id} not found`, 404);
+      }
+      if (request.status !== "open") {
+        throw new ChangeRequestError(
+          `Change request ${id} is already ${request.status}`,
+          409
+        );
+      }
+      if (request.author === reviewer) {
+        throw new ChangeRequestError(
+          "Change requests must be reviewed by someone other than their author",
+          403
+        );
+      }
+
+      const appliedVersion =
+        decision === "approved" && apply ? await apply(request) : undefined;
+
+      return this.update(id, (item) => ({
+        ...item,
+        status: decision,
+        reviewedBy: reviewer,
+        reviewedAt: new Date().toISOString(),
+        ...(appliedVersion !== undefined && { appliedVersion }),
+      }));
+    });
+  }
+
+  /**
+   * Replaces a request with an updated copy. Callers hold the store's write queue.
+   *
+   * @throws {ChangeRequestError} With status 404 if the request does not exist.
+   */
+  private async update(
+    id: number,
+    change: (request: ChangeRequest) => ChangeRequest
+  ) {
+    const requests = await this.read();
+    const request = requests.find((item) => item.id === id);
+    if (!request) {
+      throw new ChangeRequestError(`Change request ${id} not found`, 404);
+    }
+
+    const updated = change(request);
+    await this.write(
+      requests.map((item) => (item === request ? updated : item))
+    );
+    return updated;
+  }
+
+  private async read(): Promise<ChangeRequest[]> {
+    if (!existsSync(this.filePath)) return [];
+    return JSON.parse(await fs.readFile(this.filePath, "utf-8")).changeRequests;
+  }
+
+  private async write(requests: ChangeRequest[]) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFileAtomic(
+      this.filePath,
+      JSON.stringify({ changeRequests: requests }, null, 2)
+    );
+  }
+}
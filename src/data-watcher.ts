@@ -0,0 +1,96 @@
+/**
+ * Data Directory Watcher
+ *
+ * Notices changes to the live documents made outside the server, e.g. a file edited by hand or rewritten
+ * by a script. The file system reports several events for one change (and reports the server's own
+ * atomic writes as well), so events are collected per file for a short while and handed on by filename
+ * only: deciding whether the content really changed is up to the listener.
+ */
+
+import { FSWatcher, watch } from "fs";
+
+/**
+ * Watches the top-level JSON documents of a data directory.
+ */
+export class DataWatcher {
+  /** Folder holding the live documents. Subfolders (history, audit, ...) are not watched. */
+  readonly dataDir: string;
+
+  /** Called once per changed document, after the events for it have settled. */
+  private readonly onChange: (filename: string) => Promise<void>;
+
+  /** How long to wait for further events before reporting a document. */
+  private readonly delayMs: number;
+
+  private watcher?: FSWatcher;
+
+  /** Pending reports by filename. */
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Creates a watcher. Nothing is watched until start() is called.
+   * @param dataDir - The folder holding the live documents.
+   * @param onChange - Called with the filename of each changed document.
+   * @param delayMs - How long events for one document are collected.
+   */
+  constructor(
+    dataDir: string,
+    onChange: (filename: string) => Promise<void>,
+    delayMs: number = 300
+  ) {
+    this.dataDir = dataDir;
+    this.onChange = onChange;
+    this.delayMs = delayMs;
+  }
+
+  /**
+   * Starts watching.
+   */
+  start() {
+    this.watcher = watch(this.dataDir, (_event, filename) => {
+      if (filename && this.isDocument(filename.toString())) {
+        this.schedule(filename.toString());
+      }
+    });
+    this.watcher.on("error", (error) =>
+      console.error(`Failed to watch ${this.dataDir}:`, error)
+    );
+  }
+
+  /**
+   * Stops watching and drops pending reports.
+   */
+  stop() {
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Checks whether a filename is a live document (not a hidden file, such as the temporary file of an
+   * atomic write).
+   */
+  private isDocument(filename: string) {
+    return filename.endsWith(".json") && !filename.startsWith(".");
+  }
+
+  /**
+   * Reports a document once no further events arrived for it within the delay.
+   */
+  private schedule(filename: string) {
+    clearTimeout(this.timers.get(filename));
+    this.timers.set(
+      filename,
+      setTimeout(() => {
+        this.timers.delete(filename);
+        this.onChange(filename).catch((error) =>
+          console.error(
+            `Failed to process external change to ${filename}:`,
+            error
+          )
+        );
+      }, this.delayMs)
+    );
+  }
+}
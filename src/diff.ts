@@ -0,0 +1,197 @@
+/**
+ * Structural JSON Diff
+ *
+ * Compares two parsed JSON documents value by value (not line by line),
+ * so reordering object keys does not register as a change.
+ * The same engine produces RFC 6902 JSON Patches, readable change lists and changed path summaries.
+ */
+
+/**
+ * A single RFC 6902 JSON Patch operation.
+ */
+export interface JsonPatchOperation {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  /** JSON Pointer to the target location, e.g. '/pages/0/position'. */
+  path: string;
+  value?: unknown;
+  /** JSON Pointer to the source location (move and copy only). */
+  from?: string;
+}
+
+/**
+ * A single difference between two documents, in readable form.
+ */
+export interface Change {
+  type: "added" | "removed" | "changed";
+  /** Dotted path of the changed value, e.g. 'pages[0].position'. */
+  path: string;
+  /** JSON Pointer of the changed value, e.g. '/pages/0/position'. */
+  pointer: string;
+  before?: unknown;
+  after?: unknown;
+  /** One-line description, e.g. 'pages[0].position changed from "top" to "sidebar"'. */
+  description: string;
+}
+
+/**
+ * Checks whether a value is a plain JSON object (not an array or null).
+ *
+ * @param value - The value to check.
+ * @returns True for plain objects.
+ */
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Appends an object key or array index to a dotted path.
+ *
+ * @param base - The parent path.
+ * @param key - The key or index to append.
+ * @returns The child path, e.g. 'pages[1].selector'.
+ */
+const childPath = (base: string, key: string | number): string =>
+  typeof key === "number" ? `${base}[${key}]` : base ? `${base}.${key}` : key;
+
+/**
+ * Appends an object key or array index to a JSON Pointer, escaping '~' and '/'.
+ *
+ * @param base - The parent pointer.
+ * @param key - The key or index to append.
+ * @returns The child pointer, e.g. '/pages/1/selector'.
+ */
+const childPointer = (base: string, key: string | number): string =>
+  `${base}/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+
+/**
+ * Builds a readable change record.
+ */
+const createChange = (
+  type: Change["type"],
+  path: string,
+  pointer: string,
+  before: unknown,
+  after: unknown
+): Change => {
+  const label = path || "(root)";
+  const description =
+    type === "added"
+      ? `${label} added: ${JSON.stringify(after)}`
+      : type === "removed"
+      ? `${label} removed (was ${JSON.stringify(before)})`
+      : `${label} changed from ${JSON.stringify(before)} to ${JSON.stringify(
+          after
+        )}`;
+
+  return {
+    type,
+    path,
+    pointer,
+    ...(type !== "added" && { before }),
+    ...(type !== "removed" && { after }),
+    description,
+  };
+};
+
+/**
+ * Lists the differences between two documents.
+ * Objects and arrays are descended into; any other difference is reported at the deepest differing path.
+ * Array removals are listed from the highest index down so the derived patch applies in order.
+ *
+ * @param before - The previous document.
+ * @param after - The new document.
+ * @param basePath - The dotted path of the documents being compared (used for recursion).
+ * @param basePointer - The JSON Pointer of the documents being compared (used for recursion).
+ * @returns The changes in document order.
+ */
+export const getChanges = (
+  before: unknown,
+  after: unknown,
+  basePath: string = "",
+  basePointer: string = ""
+): Change[] => {
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].flatMap((key) => {
+      const path = childPath(basePath, key);
+      const pointer = childPointer(basePointer, key);
+      if (!(key in after)) {
+        return [createChange("removed", path, pointer, before[key], undefined)];
+      }
+      if (!(key in before)) {
+        return [createChange("added", path, pointer, undefined, after[key])];
+      }
+      return getChanges(before[key], after[key], path, pointer);
+    });
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const common = Math.min(before.length, after.length);
+    const changes = Array.from({ length: common }, (_, index) =>
+      getChanges(
+        before[index],
+        after[index],
+        childPath(basePath, index),
+        childPointer(basePointer, index)
+      )
+    ).flat();
+
+    for (let index = common; index < after.length; index++) {
+      changes.push(
+        createChange(
+          "added",
+          childPath(basePath, index),
+          childPointer(basePointer, index),
+          undefined,
+          after[index]
+        )
+      );
+    }
+
+    for (let index = before.length - 1; index >= common; index--) {
+      changes.push(
+        createChange(
+          "removed",
+          childPath(basePath, index),
+          childPointer(basePointer, index),
+          before[index],
+          undefined
+        )
+      );
+    }
+
+    return changes;
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [createChange("changed", basePath, basePointer, before, after)];
+};
+
+/**
+ * Creates an RFC 6902 JSON Patch that transforms one document into another.
+ *
+ * @param before - The source document.
+ * @param after - The target document.
+ * @returns The patch operations.
+ */
+export const createPatch = (
+  before: unknown,
+  after: unknown
+): JsonPatchOperation[] =>
+  getChanges(before, after).map((change) =>
+    change.type === "added"
+      ? { op: "add", path: change.pointer, value: change.after }
+      : change.type === "removed"
+      ? { op: "remove", path: change.pointer }
+      : { op: "replace", path: change.pointer, value: change.after }
+  );
+
+/**
+ * Lists the paths whose values differ between two documents.
+ *
+ * @param before - The previous document.
+ * @param after - The new document.
+ * @returns The changed paths in document order, e.g. ['pages[0].position', 'tags'].
+ */
+export const getChangedPaths = (before: unknown, after: unknown): string[] =>
+  getChanges(before, after).map((change) => change.path);
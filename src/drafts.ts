@@ -0,0 +1,144 @@
+/**
+ * Drafts
+ *
+ * Autosaved working copies of publisher configurations, one per user and publisher.
+ * A draft is not a version: it never touches the live file or the history, and it is dropped once the
+ * user saves or discards their edits. Each user's drafts are kept in one JSON file named after them.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import { writeFileAtomic } from "./atomic-file.js";
+import { runExclusive } from "./write-queue.js";
+
+/**
+ * An autosaved working copy.
+ */
+export interface Draft {
+  /** The publisher configuration file being edited. */
+  file: string;
+  /** The working copy. */
+  content: unknown;
+  /** The version the edits started from. */
+  baseVersion: number;
+  /** ISO 8601 timestamp of the last autosave. */
+  updatedAt: string;
+}
+
+/**
+ * A draft without its content, as listed.
+ */
+export type DraftSummary = Omit<Draft, "content">;
+
+/**
+ * Strips the working copy from a draft.
+ */
+const toSummary = ({ content, ...summary }: Draft): DraftSummary => {
+  void content;
+  return summary;
+};
+
+/**
+ * Per-user drafts stored as JSON files in a folder.
+ */
+export class DraftStore {
+  /** Folder holding one '<username>.json' file per user. */
+  readonly dir: string;
+
+  /**
+   * Creates a store over a folder. The folder is created on the first write.
+   * @param dir - The drafts folder.
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Lists a user's drafts.
+   *
+   * @param username - The user.
+   * @returns The drafts without their content, most recently saved first.
+   */
+  async list(username: string) {
+    return (await this.read(username))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(toSummary);
+  }
+
+  /**
+   * Reads a user's draft of a publisher.
+   *
+   * @param username - The user.
+   * @param file - The publisher file.
+   * @returns The draft, or null if there is none.
+   */
+  async get(username: string, file: string) {
+    return (
+      (await this.read(username)).find((draft) => draft.file === file) || null
+    );
+  }
+
+  /**
+   * Creates or replaces a user's draft of a publisher.
+   *
+   * @param username - The user.
+   * @param file - The publisher file.
+   * @param content - The working copy.
+   * @param baseVersion - The version the edits started from.
+   * @returns The saved draft without its content.
+   */
+  save(username: string, file: string, content: unknown, baseVersion: number) {
+    return runExclusive(this.getFilePath(username), async () => {
+      const draft: Draft = {
+        file,
+        content,
+        baseVersion,
+        updatedAt: new Date().toISOString(),
+      };
+      const others = (await this.read(username)).filter(
+        (item) => item.file !== file
+      );
+      await this.write(username, [...others, draft]);
+      return toSummary(draft);
+    });
+  }
+
+  /**
+   * Deletes a user's draft of a publisher.
+   *
+   * @param username - The user.
+   * @param file - The publisher file.
+   * @returns True if a draft was deleted.
+   */
+  remove(username: string, file: string) {
+    return runExclusive(this.getFilePath(username), async () => {
+      const drafts = await this.read(username);
+      const remaining = drafts.filter((item) => item.file !== file);
+      if (remaining.length === drafts.length) return false;
+      await this.write(username, remaining);
+      return true;
+    });
+  }
+
+  /**
+   * Returns the path of a user's drafts file. Usernames only contain characters that are safe in filenames.
+   */
+  private getFilePath(username: string) {
+    return path.join(this.dir, `${username}.json`);
+  }
+
+  private async read(username: string): Promise<Draft[]> {
+    const filePath = this.getFilePath(username);
+    if (!existsSync(filePath)) return [];
+    return JSON.parse(await fs.readFile(filePath, "utf-8")).drafts;
+  }
+
+  private async write(username: string, drafts: Draft[]) {
+    await fs.mkdir(this.dir, { recursive: true });
+    await writeFileAtomic(
+      this.getFilePath(username),
+      JSON.stringify({ drafts }, null, 2)
+    );
+  }
+}
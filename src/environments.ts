@@ -0,0 +1,125 @@
+/**
+ * Environments
+ *
+ * Named copies of the configurations (e.g. dev, staging and prod), each with its own documents and
+ * version history. The first environment is the working environment, where all editing happens; the
+ * later ones change only when a configuration is promoted to them from an earlier environment.
+ */
+
+import { ChangeDetails, ConfigRepository } from "./repository/index.js";
+
+/** The environments used when none are configured. */
+export const DEFAULT_ENVIRONMENTS = ["dev", "staging", "prod"];
+
+/**
+ * Parses a comma-separated list of environment names, e.g. 'dev,staging,prod'.
+ *
+ * @param value - The list, usually from the ENVIRONMENTS variable.
+ * @returns The names in promotion order (the defaults when the list is empty).
+ * @throws {Error} If a name is invalid or listed twice.
+ */
+export const parseEnvironmentNames = (value?: string) => {
+  const names = (value || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.length === 0) return DEFAULT_ENVIRONMENTS;
+
+  for (const name of names) {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(name)) {
+      throw new Error(
+        `Invalid environment name '${name}': use lowercase letters, digits and dashes`
+      );
+    }
+  }
+  if (new Set(names).size !== names.length) {
+    throw new Error(`Environment names must be unique: ${value}`);
+  }
+  return names;
+};
+
+/**
+ * The environments and their repositories, in promotion order.
+ */
+export class Environments {
+  /** The environment names in promotion order. The first is the working environment. */
+  readonly names: string[];
+
+  private repositories: Map<string, ConfigRepository>;
+
+  /**
+   * Creates the environments.
+   * @param repositories - The repository of each environment, in promotion order.
+   */
+  constructor(repositories: Map<string, ConfigRepository>) {
+    this.repositories = repositories;
+    this.names = [...repositories.keys()];
+  }
+
+  /** The environment where configurations are edited. */
+  get working() {
+    return this.names[0];
+  }
+
+  /**
+   * Returns the repository of an environment.
+   *
+   * @param name - The environment name.
+   * @returns The repository, or null for unknown environments.
+   */
+  get(name: string) {
+    return this.repositories.get(name) || null;
+  }
+
+  /**
+   * Checks whether configurations may be promoted from one environment to another: both must exist
+   * and the target must come later.
+   *
+   * @param from - The source environment.
+   * @param to - The target environment.
+   */
+  isPromotion(from: string, to: string) {
+    const fromIndex = this.names.indexOf(from);
+    return fromIndex !== -1 && this.names.indexOf(to) > fromIndex;
+  }
+
+  /**
+   * Checks whether an environment is the last one (usually production).
+   *
+   * @param name - The environment name.
+   */
+  isLast(name: string) {
+    return name === this.names[this.names.length - 1];
+  }
+
+  /**
+   * Prepares the storage of every environment. Environments without any documents (e.g. added since
+   * the last start) are filled with copies of the newest versions of the working environment's
+   * documents, as their first versions.
+   *
+   * @param details - Recorded with the copied versions.
+   */
+  async initialize(details: ChangeDetails) {
+    const working = this.repositories.get(this.working) as ConfigRepository;
+    for (const repository of this.repositories.values()) {
+      await repository.initialize();
+    }
+
+    for (const name of this.names.slice(1)) {
+      const repository = this.repositories.get(name) as ConfigRepository;
+      if ((await repository.list()).length > 0) continue;
+
+      // Copy the newest versions: a live file may hold an unrecorded (or invalid) external edit
+      for (const filename of await working.list()) {
+        const content = await working.getVersion(
+          filename,
+          await working.getLatestVersion(filename)
+        );
+        if (content !== null) {
+          await repository.save(filename, content, details);
+        }
+      }
+      console.log(`Created environment '${name}' from '${this.working}'`);
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Change Events
+ *
+ * Broadcasts changes to every connected browser as Server-Sent Events, so open editors learn about
+ * saves by other users and lists refresh without reloading. Events are not stored: a client that
+ * (re)connects only receives what happens from then on.
+ */
+
+import express from "express";
+import { PublisherPresence } from "./presence.js";
+
+/**
+ * What happened.
+ * - 'save': a new version of a publisher configuration was saved (including external edits).
+ * - 'restore': an older version of a publisher configuration was restored as a new version.
+ * - 'registry': a new version of the publishers registry was saved or restored.
+ * - 'invalid': a file was changed outside the tool and is not valid JSON.
+ * - 'presence': someone opened or closed a publisher, or its edit lock changed hands.
+ */
+export type ChangeEventType =
+  | "save"
+  | "restore"
+  | "registry"
+  | "invalid"
+  | "presence";
+
+/**
+ * A change, as sent to the browsers. The event type is also the SSE event name.
+ */
+export interface ChangeEvent {
+  type: ChangeEventType;
+  /** The environment of the file ('save', 'restore' and 'registry' events; otherwise the working environment). */
+  environment?: string;
+  /** The data file that changed. */
+  file: string;
+  /** The version that was created. */
+  version?: number;
+  /** Who made the change ('external' for edits made outside the tool). */
+  author?: string;
+  /** The change description. */
+  message?: string;
+  /** The version that was restored ('restore' events). */
+  restoredFrom?: number;
+  /** Whether the version records an edit made outside the tool. */
+  external?: boolean;
+  /** Why the file is not valid JSON ('invalid' events). */
+  error?: string;
+  /** Who has the publisher open and who is editing it ('presence' events). */
+  presence?: PublisherPresence;
+}
+
+/** Comment lines are sent this often so proxies do not close idle streams. */
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/** How long browsers wait before reconnecting after the stream was closed. */
+const RETRY_MS = 5000;
+
+/**
+ * The open event streams.
+ */
+export class ChangeEvents {
+  private clients = new Set<express.Response>();
+  private heartbeat?: NodeJS.Timeout;
+
+  /**
+   * Turns a response into an event stream that receives every change from now on.
+   * The stream stays open until the browser disconnects.
+   *
+   * @param req - The request for the stream.
+   * @param res - Its response.
+   */
+  subscribe(req: express.Request, res: express.Response) {
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      // Keeps reverse proxies such as nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    this.clients.add(res);
+    if (!this.heartbeat) {
+      this.heartbeat = setInterval(
+        () => this.clients.forEach((client) => client.write(": ping\n\n")),
+        HEARTBEAT_INTERVAL_MS
+      );
+      this.heartbeat.unref();
+    }
+
+    req.on("close", () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) {
+        clearInterval(this.heartbeat);
+        this.heartbeat = undefined;
+      }
+    });
+  }
+
+  /**
+   * Sends a change to every open stream.
+   *
+   * @param event - The change.
+   */
+  publish(event: ChangeEvent) {
+    const message = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    this.clients.forEach((client) => client.write(message));
+  }
+}
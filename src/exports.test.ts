@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parse } from "yaml";
+import { toYaml } from "./exports.js";
+
+/** Parses YAML the way YAML 1.1 readers such as PyYAML do. */
+const parseYaml11 = (text: string) => parse(text, { version: "1.1" });
+
+test("YAML export reads back as the same strings under YAML 1.1", () => {
+  const config = {
+    time: "12:30",
+    grouped: "1_000",
+    binary: "0b101",
+    hex: "0x1F",
+    fraction: ".5",
+    word: "Yes",
+    mergeKey: "<<",
+    defaultValue: "=",
+    nextLine: "a\u0085b",
+    separators: "a\u2028b\u2029c",
+    control: "a\u007fb\u0001c",
+    tabbed: "a\tb",
+    css: "body {\n\tmargin: 0;\n}\n",
+    ["<<"]: { merged: false },
+    "12:30": "key",
+  };
+  assert.deepEqual(parseYaml11(toYaml(config)), config);
+});
+
+test("YAML export keeps multi-line strings as literal blocks", () => {
+  assert.equal(
+    toYaml({ customCss: "a {}\nb {}\n" }),
+    "customCss: |\n  a {}\n  b {}\n"
+  );
+});
@@ -0,0 +1,227 @@
+/**
+ * Configuration Exports
+ *
+ * Formats configurations for people outside the tool: YAML for reviewing a single configuration and a
+ * flat CSV of every publisher's pages for spreadsheets. The ZIP bundle is built with JSZip.
+ */
+
+/**
+ * A publisher and its resolved configuration, as exported to the pages CSV.
+ */
+export interface ExportedPublisher {
+  file: string;
+  /** Whether the publisher is archived in the registry. */
+  archived: boolean;
+  /** The resolved configuration, or null if it could not be read. */
+  config: unknown;
+}
+
+/** The columns of the pages CSV. */
+const PAGE_COLUMNS = [
+  "publisherId",
+  "aliasName",
+  "file",
+  "status",
+  "isActive",
+  "pageType",
+  "selector",
+  "position",
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Words YAML reads as booleans, null, a merge key or a default value when unquoted. YAML 1.1
+ * readers (e.g. PyYAML) are the strictest, so their rules apply.
+ */
+const RESERVED_WORDS = /^(true|false|yes|no|on|off|y|n|null|~|<<|=)$/i;
+
+/**
+ * Matches anything a YAML 1.1 reader may take for a number, including sexagesimal ('12:30'),
+ * binary, hexadecimal and digit-grouped ('1_000') forms.
+ */
+const NUMBER_LIKE = /^[-+]?\.?\d[\dA-Fa-fXxOoEe_.:+-]*$/;
+
+/**
+ * Characters that must be escaped: control characters (other than tabs and line feeds), the
+ * byte order mark, and the line breaks only YAML 1.1 knows (NEL, U+2028 and U+2029).
+ */
+const UNSAFE_CHARACTERS =
+  /[^\t\n\x20-\x7e\xa0-\u2027\u202a-\ud7ff\ue000-\ufefe\uff00-\ufffd\u{10000}-\u{10ffff}]/u;
+
+/**
+ * Checks whether a string holds tabs, line breaks or unsafe characters, which plain scalars cannot
+ * carry.
+ */
+const hasControlCharacters = (text: string) =>
+  /[\t\n]/.test(text) || UNSAFE_CHARACTERS.test(text);
+
+/**
+ * Writes a double-quoted scalar. JSON escapes are valid YAML; the characters JSON leaves as they are
+ * but YAML does not accept (or reads as line breaks) are escaped as well.
+ */
+const quote = (text: string) =>
+  JSON.stringify(text).replace(
+    /[\x7f-\x9f\u2028\u2029\ufeff\ufffe\uffff]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`
+  );
+
+/**
+ * Checks whether a string must be quoted to be read back as the same string.
+ * Anything that could be taken for another type or for YAML syntax is quoted.
+ */
+const needsQuotes = (text: string) =>
+  text === "" ||
+  /^\s|\s$/.test(text) ||
+  /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+  /: |:$| #/.test(text) ||
+  hasControlCharacters(text) ||
+  RESERVED_WORDS.test(text) ||
+  !isNaN(Number(text)) ||
+  NUMBER_LIKE.test(text) ||
+  /^[-+]?\.(inf|nan)$/i.test(text) ||
+  /^\d{4}-\d{2}-\d{2}/.test(text);
+
+/**
+ * Formats a scalar. Multi-line strings become literal blocks, so CSS and notes stay readable.
+ *
+ * @param value - The scalar.
+ * @param indent - The indentation of the block's lines.
+ * @returns The YAML text (spanning several lines for literal blocks).
+ */
+const formatScalar = (value: unknown, indent: string): string => {
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : "null";
+  }
+  if (typeof value !== "string") return "null";
+
+  // Literal blocks cannot express every string: leading spaces need an indentation indicator, and
+  // several trailing line breaks a different chomping mode. Those are quoted instead.
+  const body = value.endsWith("\n") ? value.slice(0, -1) : value;
+  if (
+    body.includes("\n") &&
+    !body.endsWith("\n") &&
+    !/^[ \t]/.test(body) &&
+    !UNSAFE_CHARACTERS.test(body)
+  ) {
+    const lines = body
+      .split("\n")
+      .map((line) => (line ? `${indent}${line}` : ""));
+    return [value.endsWith("\n") ? "|" : "|-", ...lines].join("\n");
+  }
+
+  return needsQuotes(value) ? quote(value) : value;
+};
+
+/**
+ * Checks whether a value is written as a nested block (non-empty objects and arrays).
+ */
+const isBlock = (value: unknown) =>
+  (Array.isArray(value) && value.length > 0) ||
+  (isObject(value) && Object.keys(value).length > 0);
+
+/**
+ * Formats a value that follows a key or list marker on the same line.
+ */
+const formatInline = (value: unknown, indent: string) => {
+  if (Array.isArray(value)) return "[]";
+  if (isObject(value)) return "{}";
+  return formatScalar(value, indent);
+};
+
+/**
+ * Writes a nested block, one entry per line.
+ *
+ * @param value - A non-empty object or array.
+ * @param indent - The indentation of its entries.
+ * @returns The lines.
+ */
+const toYamlLines = (value: unknown, indent: string): string[] => {
+  const nested = `${indent}  `;
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isBlock(item)) return [`${indent}- ${formatInline(item, nested)}`];
+      // The first entry of a nested block shares the line with the list marker
+      const [first, ...rest] = toYamlLines(item, nested);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>).flatMap(
+    ([key, item]) => {
+      const label = needsQuotes(key) ? quote(key) : key;
+      return isBlock(item)
+        ? [`${indent}${label}:`, ...toYamlLines(item, nested)]
+        : [`${indent}${label}: ${formatInline(item, nested)}`];
+    }
+  );
+};
+
+/**
+ * Converts parsed JSON to YAML.
+ *
+ * @param value - The value, e.g. a configuration.
+ * @returns The YAML document.
+ */
+export const toYaml = (value: unknown) =>
+  `${
+    isBlock(value) ? toYamlLines(value, "").join("\n") : formatInline(value, "")
+  }\n`;
+
+/**
+ * Formats a CSV cell (RFC 4180). Cells that spreadsheets would run as formulas are prefixed with a
+ * quote, so an exported selector can never execute.
+ *
+ * @param value - The cell value.
+ * @returns The escaped cell.
+ */
+const formatCell = (value: unknown) => {
+  let text =
+    value === undefined || value === null
+      ? ""
+      : typeof value === "string"
+      ? value
+      : JSON.stringify(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  // Quotes inside a quoted cell are doubled
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "$&$&")}"` : text;
+};
+
+/**
+ * Builds the pages CSV: one row per page of every publisher, with the publisher's details repeated.
+ * Publishers without pages get a single row without page details.
+ *
+ * @param publishers - The publishers, in registry order.
+ * @returns The CSV text, starting with a byte order mark so spreadsheets read it as UTF-8.
+ */
+export const toPagesCsv = (publishers: ExportedPublisher[]) => {
+  const rows = publishers.flatMap(({ file, archived, config }) => {
+    const fields = isObject(config) ? config : {};
+    const publisher = [
+      fields.publisherId,
+      fields.aliasName,
+      file,
+      archived ? "archived" : "active",
+      fields.isActive,
+    ];
+    const pages = Array.isArray(fields.pages) ? fields.pages : [];
+    if (pages.length === 0) return [[...publisher, "", "", ""]];
+
+    return pages.map((page) => {
+      const details = isObject(page) ? page : {};
+      return [
+        ...publisher,
+        details.pageType,
+        details.selector,
+        details.position,
+      ];
+    });
+  });
+
+  return `\uFEFF${[PAGE_COLUMNS, ...rows]
+    .map((row) => row.map(formatCell).join(","))
+    .join("\r\n")}\r\n`;
+};
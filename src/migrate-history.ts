@@ -0,0 +1,39 @@
+/**
+ * History Migration
+ *
+ * One-time conversion of the filesystem backend's full 'vN.json' snapshots into delta-compressed history:
+ * a full checkpoint every HISTORY_CHECKPOINT_INTERVAL versions and JSON Patch deltas in between.
+ * Safe to re-run; already converted versions are left alone. Stop the server before running it.
+ *
+ * Usage: npm run migrate:history
+ */
+
+import path from "path";
+import { fileURLToPath } from "url";
+import { FileSystemRepository } from "./repository/filesystem.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DATA_DIR = path.join(__dirname, "../data");
+
+const repository = new FileSystemRepository(
+  DATA_DIR,
+  Number(process.env.HISTORY_CHECKPOINT_INTERVAL) || 10
+);
+
+// Create missing history and repair interrupted saves before touching the snapshots
+await repository.initialize();
+
+let total = 0;
+for (const filename of await repository.list()) {
+  const converted = await repository.convertSnapshotsToDeltas(filename);
+  if (converted > 0) {
+    console.log(`${filename}: converted ${converted} snapshots to deltas`);
+  }
+  total += converted;
+}
+
+console.log(
+  `Done. Converted ${total} snapshots (checkpoint interval: ${repository.checkpointInterval}).`
+);
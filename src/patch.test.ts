@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PatchError, applyJsonPatch, applyMergePatch } from "./patch.js";
+
+test("JSON Patch rejects pointers through reserved keys", () => {
+  for (const path of [
+    "/__proto__/polluted",
+    "/constructor/prototype/polluted",
+    "/a/__proto__",
+  ]) {
+    assert.throws(
+      () => applyJsonPatch({ a: {} }, [{ op: "add", path, value: "yes" }]),
+      (error) => error instanceof PatchError && error.reason === "invalid"
+    );
+  }
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
+
+test("JSON Patch does not read inherited members", () => {
+  for (const operation of [
+    { op: "copy", from: "/toString", path: "/copied" },
+    { op: "move", from: "/hasOwnProperty", path: "/moved" },
+    { op: "test", path: "/valueOf", value: {} },
+    { op: "remove", path: "/toString" },
+  ]) {
+    assert.throws(
+      () => applyJsonPatch({ a: 1 }, [operation]),
+      (error) => error instanceof PatchError && error.reason === "conflict"
+    );
+  }
+});
+
+test("JSON Patch still applies to own keys", () => {
+  assert.deepEqual(
+    applyJsonPatch({ a: { b: 1 } }, [
+      { op: "add", path: "/a/c", value: 2 },
+      { op: "copy", from: "/a/b", path: "/d" },
+    ]),
+    { a: { b: 1, c: 2 }, d: 1 }
+  );
+});
+
+test("Merge Patch rejects reserved keys", () => {
+  // An own '__proto__' key, as JSON.parse creates it from a request body
+  const patch = { ["__proto__"]: { polluted: "yes" } };
+  assert.throws(
+    () => applyMergePatch({ a: 1 }, patch),
+    (error) => error instanceof PatchError && error.reason === "invalid"
+  );
+  assert.throws(
+    () => applyMergePatch({ a: 1 }, { nested: { constructor: {} } }),
+    PatchError
+  );
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
+
+test("Merge Patch ignores inherited members of the target", () => {
+  assert.deepEqual(applyMergePatch({}, { toString: { a: 1 } }), {
+    toString: { a: 1 },
+  });
+});
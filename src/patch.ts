@@ -0,0 +1,276 @@
+/**
+ * JSON Patch and JSON Merge Patch
+ *
+ * Applies RFC 6902 JSON Patch documents and RFC 7396 JSON Merge Patch documents to parsed JSON.
+ * Both functions work on a copy, so a patch that fails half-way never leaves a partially modified document.
+ */
+
+import { JsonPatchOperation } from "./diff.js";
+
+/**
+ * Raised when a patch cannot be applied.
+ * 'invalid' means the patch document itself is malformed; 'conflict' means it does not fit the target
+ * (a path does not exist or a 'test' operation failed).
+ */
+export class PatchError extends Error {
+  constructor(message: string, public reason: "invalid" | "conflict") {
+    super(message);
+    this.name = "PatchError";
+  }
+}
+
+type JsonContainer = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is JsonContainer =>
+  typeof value === "object" && value !== null;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  isContainer(value) && !Array.isArray(value);
+
+/** Keys that reach Object.prototype (or a constructor) when followed or assigned on a plain object. */
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Checks whether a key must never be read or written, because it would follow or replace an
+ * object's prototype instead of one of its own values.
+ *
+ * @param key - The object key or pointer token.
+ */
+export const isUnsafeKey = (key: string) => UNSAFE_KEYS.includes(key);
+
+/**
+ * Checks whether an object has a key as its own property (inherited members do not count).
+ */
+const hasOwn = (object: object, key: string) =>
+  Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Splits a JSON Pointer into unescaped reference tokens.
+ *
+ * @param pointer - The JSON Pointer, e.g. '/pages/0/position'.
+ * @returns The tokens, e.g. ['pages', '0', 'position'].
+ */
+const parsePointer = (pointer: string): string[] => {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new PatchError(`Invalid JSON Pointer '${pointer}'`, "invalid");
+  }
+  const tokens = pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const unsafe = tokens.find(isUnsafeKey);
+  if (unsafe !== undefined) {
+    throw new PatchError(
+      `JSON Pointer '${pointer}' uses the reserved key '${unsafe}'`,
+      "invalid"
+    );
+  }
+  return tokens;
+};
+
+/**
+ * Resolves an array index token.
+ *
+ * @param array - The array being addressed.
+ * @param token - The reference token ('-' means past the end).
+ * @param allowEnd - Whether the index may equal the array length (for 'add').
+ * @returns The numeric index.
+ */
+const toIndex = (array: unknown[], token: string, allowEnd: boolean) => {
+  const index = token === "-" ? array.length : Number(token);
+  const max = allowEnd ? array.length : array.length - 1;
+  if (!/^(0|[1-9]\d*|-)$/.test(token) || index > max) {
+    throw new PatchError(`Array index '${token}' is out of range`, "conflict");
+  }
+  return index;
+};
+
+/**
+ * Resolves the container holding the value a pointer refers to.
+ *
+ * @param document - The document root.
+ * @param pointer - The JSON Pointer.
+ * @returns The parent container and the final reference token.
+ */
+const resolveParent = (document: unknown, pointer: string) => {
+  const tokens = parsePointer(pointer);
+  const key = tokens.pop() as string;
+  let parent: unknown = document;
+
+  for (const token of tokens) {
+    if (Array.isArray(parent)) {
+      parent = parent[toIndex(parent, token, false)];
+    } else if (isObject(parent) && hasOwn(parent, token)) {
+      parent = parent[token];
+    } else {
+      throw new PatchError(`Path '${pointer}' does not exist`, "conflict");
+    }
+  }
+
+  if (!isContainer(parent)) {
+    throw new PatchError(`Path '${pointer}' does not exist`, "conflict");
+  }
+  return { parent, key };
+};
+
+/**
+ * Reads the value a pointer refers to.
+ */
+const getValue = (document: unknown, pointer: string): unknown => {
+  if (pointer === "") return document;
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) return parent[toIndex(parent, key, false)];
+  if (!hasOwn(parent, key)) {
+    throw new PatchError(`Path '${pointer}' does not exist`, "conflict");
+  }
+  return parent[key];
+};
+
+/**
+ * Inserts (arrays) or sets (objects) a value. Returns the new root, which only changes when pointer is ''.
+ */
+const addValue = (document: unknown, pointer: string, value: unknown) => {
+  if (pointer === "") return value;
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(toIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return document;
+};
+
+/**
+ * Removes a value and returns it.
+ */
+const removeValue = (document: unknown, pointer: string): unknown => {
+  if (pointer === "") {
+    throw new PatchError("Cannot remove the document root", "invalid");
+  }
+  const { parent, key } = resolveParent(document, pointer);
+  if (Array.isArray(parent)) {
+    return parent.splice(toIndex(parent, key, false), 1)[0];
+  }
+  if (!hasOwn(parent, key)) {
+    throw new PatchError(`Path '${pointer}' does not exist`, "conflict");
+  }
+  const removed = parent[key];
+  delete parent[key];
+  return removed;
+};
+
+/**
+ * Applies an RFC 6902 JSON Patch.
+ *
+ * @param document - The document to patch (left untouched).
+ * @param operations - The patch operations, applied in order.
+ * @returns The patched copy.
+ * @throws {PatchError} If the patch is malformed or does not apply.
+ */
+export const applyJsonPatch = (
+  document: unknown,
+  operations: unknown
+): unknown => {
+  if (!Array.isArray(operations)) {
+    throw new PatchError("A JSON Patch must be an array", "invalid");
+  }
+
+  let result: unknown = structuredClone(document);
+
+  operations.forEach((operation: JsonPatchOperation, index) => {
+    if (!isObject(operation) || typeof operation.path !== "string") {
+      throw new PatchError(`Operation ${index} has no valid path`, "invalid");
+    }
+    const { op, path, from } = operation;
+    const needsValue = op === "add" || op === "replace" || op === "test";
+    if (needsValue && !("value" in operation)) {
+      throw new PatchError(`Operation ${index} is missing 'value'`, "invalid");
+    }
+    if ((op === "move" || op === "copy") && typeof from !== "string") {
+      throw new PatchError(`Operation ${index} is missing 'from'`, "invalid");
+    }
+
+    switch (op) {
+      case "add":
+        result = addValue(result, path, structuredClone(operation.value));
+        break;
+      case "remove":
+        removeValue(result, path);
+        break;
+      case "replace":
+        if (path !== "") removeValue(result, path);
+        result = addValue(result, path, structuredClone(operation.value));
+        break;
+      case "move": {
+        if (path.startsWith(`${from}/`)) {
+          throw new PatchError(
+            `Operation ${index} moves a value into itself`,
+            "invalid"
+          );
+        }
+        const moved = removeValue(result, from as string);
+        result = addValue(result, path, moved);
+        break;
+      }
+      case "copy":
+        result = addValue(
+          result,
+          path,
+          structuredClone(getValue(result, from as string))
+        );
+        break;
+      case "test":
+        if (
+          JSON.stringify(getValue(result, path)) !==
+          JSON.stringify(operation.value)
+        ) {
+          throw new PatchError(`Test failed at '${path}'`, "conflict");
+        }
+        break;
+      default:
+        throw new PatchError(
+          `Operation ${index} has unknown op '${op}'`,
+          "invalid"
+        );
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Applies an RFC 7396 JSON Merge Patch.
+ * Objects are merged recursively, 'null' removes a key, and any other value (including arrays) replaces the target.
+ *
+ * @param target - The document to patch (left untouched).
+ * @param patch - The merge patch.
+ * @returns The patched copy.
+ * @throws {PatchError} If the patch sets a reserved key such as '__proto__'.
+ */
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isObject(patch)) return structuredClone(patch);
+
+  const result: Record<string, unknown> = isObject(target)
+    ? structuredClone(target)
+    : {};
+
+  Object.entries(patch).forEach(([key, value]) => {
+    if (isUnsafeKey(key)) {
+      throw new PatchError(
+        `Merge patch uses the reserved key '${key}'`,
+        "invalid"
+      );
+    }
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(
+        hasOwn(result, key) ? result[key] : undefined,
+        value
+      );
+    }
+  });
+
+  return result;
+};
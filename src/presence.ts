@@ -0,0 +1,292 @@
+/**
+ * Presence
+ *
+ * Tracks who has which publisher open, from the heartbeats of open editors, and the soft edit lock of
+ * each publisher. The first editor to open a publisher takes the lock; it is kept as long as their
+ * heartbeats arrive and expires shortly after they stop. The lock is advisory: it tells others that
+ * someone is editing, but saves are not refused.
+ *
+ * Nothing is stored. After a restart, open editors report themselves again with their next heartbeat.
+ */
+
+/**
+ * Someone who has a publisher open, as shown to others.
+ */
+export interface PresenceViewer {
+  username: string;
+  /** ISO 8601 timestamp of when they opened the publisher. */
+  since: string;
+  /** Whether they hold the edit lock. */
+  editing: boolean;
+}
+
+/**
+ * The soft edit lock of a publisher, as shown to others.
+ */
+export interface EditLock {
+  username: string;
+  /** ISO 8601 timestamp of when the lock was taken. */
+  acquiredAt: string;
+  /** ISO 8601 timestamp of when the lock expires unless renewed by a heartbeat. */
+  expiresAt: string;
+}
+
+/**
+ * Who has a publisher open, and who is editing it.
+ */
+export interface PublisherPresence {
+  file: string;
+  /** One entry per user, however many editors they have open. */
+  viewers: PresenceViewer[];
+  lock: EditLock | null;
+}
+
+/**
+ * An open editor, identified by the session id it generated when it was opened.
+ */
+interface Session {
+  username: string;
+  since: number;
+  lastSeen: number;
+}
+
+/**
+ * The presence state of a publisher.
+ */
+interface FilePresence {
+  sessions: Map<string, Session>;
+  lock: (EditLock & { sessionId: string }) | null;
+  /** Sessions whose lock was broken by an admin; they do not take the lock again. */
+  broken: Set<string>;
+}
+
+/**
+ * Called whenever the viewers or the lock of a publisher changed (not for renewals).
+ *
+ * @param presence - The new presence of the publisher.
+ */
+export type PresenceListener = (presence: PublisherPresence) => void;
+
+/**
+ * The open editors and edit locks of all publishers.
+ */
+export class PresenceTracker {
+  private files = new Map<string, FilePresence>();
+  private sweeper?: NodeJS.Timeout;
+
+  /** Called when the viewers or the lock of a publisher changed. */
+  private readonly onChange: PresenceListener;
+
+  /** How long an editor counts as open after its last heartbeat. */
+  private readonly timeoutMs: number;
+
+  /** How long a lock is kept after the last heartbeat of its holder. */
+  private readonly lockTtlMs: number;
+
+  /**
+   * Creates a tracker. Editors and locks that time out are removed by a periodic sweep.
+   * @param onChange - Called when the viewers or the lock of a publisher changed.
+   * @param timeoutMs - How long an editor counts as open after its last heartbeat.
+   * @param lockTtlMs - How long a lock is kept after the last heartbeat of its holder.
+   */
+  constructor(
+    onChange: PresenceListener,
+    timeoutMs: number = 45000,
+    lockTtlMs: number = 120000
+  ) {
+    this.onChange = onChange;
+    this.timeoutMs = timeoutMs;
+    this.lockTtlMs = lockTtlMs;
+  }
+
+  /**
+   * Records a heartbeat of an open editor. Editors that may edit take the lock if it is free, or if
+   * the same user holds it from an editor that is no longer open (e.g. one that was reloaded).
+   *
+   * @param file - The publisher filename.
+   * @param sessionId - The id of the open editor.
+   * @param username - Who has it open.
+   * @param canEdit - Whether the user may edit, and so take the lock.
+   * @returns The presence of the publisher, and whether this editor holds the lock.
+   */
+  heartbeat(
+    file: string,
+    sessionId: string,
+    username: string,
+    canEdit: boolean
+  ) {
+    const now = Date.now();
+    const state = this.getState(file);
+    let changed = this.prune(state, now);
+
+    const session = state.sessions.get(sessionId);
+    if (session) {
+      session.lastSeen = now;
+    } else {
+      state.sessions.set(sessionId, { username, since: now, lastSeen: now });
+      changed = true;
+    }
+
+    const expiresAt = new Date(now + this.lockTtlMs).toISOString();
+    if (state.lock?.sessionId === sessionId) {
+      state.lock.expiresAt = expiresAt;
+    } else if (
+      canEdit &&
+      !state.broken.has(sessionId) &&
+      (!state.lock ||
+        (state.lock.username === username &&
+          !state.sessions.has(state.lock.sessionId)))
+    ) {
+      state.lock = {
+        sessionId,
+        username,
+        acquiredAt: state.lock?.acquiredAt || new Date(now).toISOString(),
+        expiresAt,
+      };
+      changed = true;
+    }
+
+    const presence = this.toPresence(file, state);
+    if (changed) this.onChange(presence);
+    this.startSweeping();
+    return { ...presence, holdsLock: state.lock?.sessionId === sessionId };
+  }
+
+  /**
+   * Removes an editor that was closed, releasing its lock.
+   *
+   * @param file - The publisher filename.
+   * @param sessionId - The id of the open editor.
+   * @param username - Who closed it; only their own editors can be removed.
+   * @returns Whether the editor was open.
+   */
+  leave(file: string, sessionId: string, username: string) {
+    const state = this.files.get(file);
+    if (state?.sessions.get(sessionId)?.username !== username) return false;
+
+    state.sessions.delete(sessionId);
+    state.broken.delete(sessionId);
+    if (state.lock?.sessionId === sessionId) state.lock = null;
+    this.onChange(this.toPresence(file, state));
+    this.cleanUp(file, state);
+    return true;
+  }
+
+  /**
+   * Releases the lock of a publisher regardless of who holds it. The editor that held it does not
+   * take it again; another open editor takes it with its next heartbeat.
+   *
+   * @param file - The publisher filename.
+   * @returns The lock that was broken, or null if the publisher was not locked.
+   */
+  breakLock(file: string) {
+    const state = this.files.get(file);
+    if (!state) return null;
+    this.prune(state, Date.now());
+    if (!state.lock) return null;
+
+    const { sessionId, ...lock } = state.lock;
+    state.broken.add(sessionId);
+    state.lock = null;
+    this.onChange(this.toPresence(file, state));
+    return lock;
+  }
+
+  /**
+   * Returns the presence of every publisher that is open or locked.
+   */
+  list() {
+    const now = Date.now();
+    const presences: PublisherPresence[] = [];
+    this.files.forEach((state, file) => {
+      if (this.prune(state, now)) this.onChange(this.toPresence(file, state));
+      if (state.sessions.size > 0 || state.lock) {
+        presences.push(this.toPresence(file, state));
+      }
+    });
+    return presences;
+  }
+
+  /**
+   * Returns the state of a publisher, creating it if needed.
+   */
+  private getState(file: string) {
+    let state = this.files.get(file);
+    if (!state) {
+      state = { sessions: new Map(), lock: null, broken: new Set() };
+      this.files.set(file, state);
+    }
+    return state;
+  }
+
+  /**
+   * Removes the editors and the lock of a publisher that timed out.
+   * @returns Whether anything was removed.
+   */
+  private prune(state: FilePresence, now: number) {
+    let changed = false;
+    state.sessions.forEach((session, sessionId) => {
+      if (now - session.lastSeen > this.timeoutMs) {
+        state.sessions.delete(sessionId);
+        state.broken.delete(sessionId);
+        changed = true;
+      }
+    });
+    if (state.lock && Date.parse(state.lock.expiresAt) <= now) {
+      state.lock = null;
+      changed = true;
+    }
+    return changed;
+  }
+
+  /**
+   * Forgets a publisher nobody has open.
+   */
+  private cleanUp(file: string, state: FilePresence) {
+    if (state.sessions.size === 0 && !state.lock) this.files.delete(file);
+  }
+
+  /**
+   * Periodically removes editors and locks that timed out and reports the change, while any
+   * publisher is open.
+   */
+  private startSweeping() {
+    if (this.sweeper) return;
+    this.sweeper = setInterval(() => {
+      const now = Date.now();
+      this.files.forEach((state, file) => {
+        if (this.prune(state, now)) this.onChange(this.toPresence(file, state));
+        this.cleanUp(file, state);
+      });
+      if (this.files.size === 0) {
+        clearInterval(this.sweeper);
+        this.sweeper = undefined;
+      }
+    }, this.timeoutMs / 3);
+    this.sweeper.unref();
+  }
+
+  /**
+   * Builds the presence of a publisher as shown to others, with one entry per user.
+   */
+  private toPresence(file: string, state: FilePresence): PublisherPresence {
+    const viewers = new Map<string, PresenceViewer>();
+    state.sessions.forEach((session) => {
+      const viewer = viewers.get(session.username);
+      if (!viewer || session.since < Date.parse(viewer.since)) {
+        viewers.set(session.username, {
+          username: session.username,
+          since: new Date(session.since).toISOString(),
+          editing: state.lock?.username === session.username,
+        });
+      }
+    });
+
+    let lock: EditLock | null = null;
+    if (state.lock) {
+      const { username, acquiredAt, expiresAt } = state.lock;
+      lock = { username, acquiredAt, expiresAt };
+    }
+    return { file, viewers: [...viewers.values()], lock };
+  }
+}
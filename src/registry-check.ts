@@ -0,0 +1,218 @@
+/**
+ * Registry Consistency Check
+ *
+ * Compares the publishers registry ('publishers.json') with the configuration files it points to.
+ * Entries can point to a file that no longer exists, configuration files can exist without an entry
+ * (orphans), and an entry's id and alias can drift away from the configuration's 'publisherId' and
+ * 'aliasName'. Each issue comes with the registry change that fixes it, where one is safe to make;
+ * the configuration files themselves are never changed.
+ */
+
+/**
+ * A registry entry, as far as the check is concerned.
+ */
+export interface RegistryEntry {
+  id: string;
+  alias: string;
+  file: string;
+  archivedAt?: string;
+}
+
+/**
+ * The registry, as far as the check is concerned.
+ */
+export interface Registry {
+  publishers: RegistryEntry[];
+  archived?: RegistryEntry[];
+}
+
+/** The kinds of inconsistency the check reports. */
+export type RegistryIssueType =
+  | "missing-file"
+  | "orphan"
+  | "id-mismatch"
+  | "alias-mismatch";
+
+/**
+ * An inconsistency between the registry and the configuration files.
+ */
+export interface RegistryIssue {
+  /** Identifies the issue when asking for its fix, e.g. 'orphan:publisher-aurora.json'. */
+  key: string;
+  type: RegistryIssueType;
+  /** The configuration file concerned. */
+  file: string;
+  /** What is wrong, in one sentence. */
+  message: string;
+  /** What the fix changes in the registry. Omitted when the issue must be fixed by hand. */
+  fix?: string;
+}
+
+/**
+ * The identifying fields of a publisher configuration.
+ */
+interface ConfigIdentity {
+  publisherId?: unknown;
+  aliasName?: unknown;
+}
+
+/**
+ * Reads a non-empty text field of a configuration.
+ */
+const readText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/**
+ * Lists the entries of both registry lists.
+ */
+const allEntries = (registry: Registry) => [
+  ...registry.publishers,
+  ...(registry.archived || []),
+];
+
+/**
+ * Finds another entry that already uses an id or alias. Ids and aliases are compared case-insensitively,
+ * as when publishers are created.
+ */
+const findCollision = (
+  registry: Registry,
+  self: RegistryEntry | null,
+  field: "id" | "alias",
+  value: string
+) =>
+  allEntries(registry).find(
+    (entry) =>
+      entry !== self && entry[field].toLowerCase() === value.toLowerCase()
+  );
+
+/**
+ * Checks the registry against the configuration files.
+ *
+ * @param registry - The registry.
+ * @param configs - The content of every configuration file (the registry itself excluded), by filename.
+ * @returns The issues found, in registry order followed by orphans in filename order.
+ */
+export const checkRegistry = (
+  registry: Registry,
+  configs: Map<string, unknown>
+): RegistryIssue[] => {
+  const issues: RegistryIssue[] = [];
+  const registered = new Set(allEntries(registry).map((entry) => entry.file));
+
+  for (const entry of allEntries(registry)) {
+    if (!configs.has(entry.file)) {
+      issues.push({
+        key: `missing-file:${entry.file}`,
+        type: "missing-file",
+        file: entry.file,
+        message: `Publisher '${entry.id}' points to '${entry.file}', which does not exist`,
+        fix: `Remove '${entry.id}' from the registry`,
+      });
+      continue;
+    }
+
+    const config = (configs.get(entry.file) || {}) as ConfigIdentity;
+    const checks: [RegistryIssueType, "id" | "alias", string | null][] = [
+      ["id-mismatch", "id", readText(config.publisherId)],
+      ["alias-mismatch", "alias", readText(config.aliasName)],
+    ];
+
+    for (const [type, field, expected] of checks) {
+      if (expected === null || expected === entry[field]) continue;
+
+      const collision = findCollision(registry, entry, field, expected);
+      issues.push({
+        key: `${type}:${entry.file}`,
+        type,
+        file: entry.file,
+        message: `Registry ${field} '${entry[field]}' does not match '${expected}' in '${entry.file}'`,
+        ...(!collision && {
+          fix: `Change the registry ${field} to '${expected}'`,
+        }),
+      });
+    }
+  }
+
+  for (const [file, content] of [...configs].sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    if (registered.has(file)) continue;
+
+    const config = (content || {}) as ConfigIdentity;
+    const id = readText(config.publisherId);
+    const alias = readText(config.aliasName);
+    const fixable =
+      id !== null &&
+      alias !== null &&
+      !findCollision(registry, null, "id", id) &&
+      !findCollision(registry, null, "alias", alias);
+
+    issues.push({
+      key: `orphan:${file}`,
+      type: "orphan",
+      file,
+      message: `'${file}' is not in the registry`,
+      ...(fixable && {
+        fix: `Register '${file}' as '${id}' (${alias})`,
+      }),
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Applies the fix of an issue to the registry.
+ *
+ * @param registry - The registry (left untouched).
+ * @param configs - The configuration contents, as passed to checkRegistry.
+ * @param issue - The issue, as returned by checkRegistry for the same registry and files.
+ * @returns The fixed copy of the registry, or null if the issue has no automatic fix.
+ */
+export const fixRegistryIssue = (
+  registry: Registry,
+  configs: Map<string, unknown>,
+  issue: RegistryIssue
+): Registry | null => {
+  if (!issue.fix) return null;
+
+  const config = (configs.get(issue.file) || {}) as ConfigIdentity;
+  const updateEntries = (
+    update: (entries: RegistryEntry[]) => RegistryEntry[]
+  ): Registry => ({
+    ...registry,
+    publishers: update(registry.publishers),
+    ...(registry.archived && { archived: update(registry.archived) }),
+  });
+
+  switch (issue.type) {
+    case "missing-file":
+      return updateEntries((entries) =>
+        entries.filter((entry) => entry.file !== issue.file)
+      );
+    case "orphan":
+      return {
+        ...registry,
+        publishers: [
+          ...registry.publishers,
+          {
+            id: readText(config.publisherId) as string,
+            alias: readText(config.aliasName) as string,
+            file: issue.file,
+          },
+        ],
+      };
+    case "id-mismatch":
+    case "alias-mismatch": {
+      const field = issue.type === "id-mismatch" ? "id" : "alias";
+      const value = readText(
+        field === "id" ? config.publisherId : config.aliasName
+      ) as string;
+      return updateEntries((entries) =>
+        entries.map((entry) =>
+          entry.file === issue.file ? { ...entry, [field]: value } : entry
+        )
+      );
+    }
+  }
+};
@@ -0,0 +1,395 @@
+/**
+ * Filesystem Repository
+ *
+ * Stores each document as a loose JSON file in the data directory, with its history in 'history/<name>/'
+ * and the version metadata of each version in 'vN.meta.json'.
+ *
+ * Every checkpoint interval, a version is stored in full as 'vN.json' (a checkpoint). The versions in between
+ * are stored as RFC 6902 JSON Patches against the previous version ('vN.patch.json'), and are rebuilt by
+ * applying the patches since the nearest checkpoint.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import { createPatch, getChangedPaths } from "../diff.js";
+import { applyJsonPatch } from "../patch.js";
+import { removeStaleTempFiles, writeFileAtomic } from "../atomic-file.js";
+import { ChangeDetails, ConfigRepository, VersionMetadata } from "./types.js";
+
+/**
+ * Keeps documents as JSON files on disk.
+ */
+export class FileSystemRepository implements ConfigRepository {
+  /** Folder holding the live documents. */
+  readonly dataDir: string;
+
+  /** Folder holding one history folder per document. */
+  readonly historyDir: string;
+
+  /** A full checkpoint is stored every this many versions (1 stores every version in full). */
+  readonly checkpointInterval: number;
+
+  /**
+   * Creates a repository over a data directory.
+   * @param dataDir - The folder holding the live documents.
+   * @param checkpointInterval - Store a full checkpoint every this many versions.
+   */
+  constructor(dataDir: string, checkpointInterval: number = 10) {
+    this.dataDir = dataDir;
+    this.historyDir = path.join(dataDir, "history");
+    this.checkpointInterval = Math.max(1, Math.floor(checkpointInterval));
+  }
+
+  /**
+   * Scans the data directory for new configuration files and initializes their history.
+   *
+   * If a new publisher JSON file is found in 'data/' but has no corresponding
+   * history folder in 'data/history/', this function creates the history folder
+   * and saves the current content as 'v1.json'.
+   * Files that already have history are repaired if an interrupted save left them out of sync
+   * with their newest version.
+   */
+  async initialize() {
+    try {
+      if (!existsSync(this.historyDir)) {
+        await fs.mkdir(this.historyDir, { recursive: true });
+      }
+
+      const staleFiles = await removeStaleTempFiles(this.dataDir);
+
+      for (const file of await this.list()) {
+        const fileHistoryDir = this.getHistoryDir(file);
+
+        if (existsSync(fileHistoryDir)) {
+          await this.repairLiveFile(
+            file,
+            staleFiles.some((temp) => temp.startsWith(`.${file}.`))
+          );
+          continue;
+        }
+
+        console.log(`New file detected: ${file}. Initializing history...`);
+        const filePath = path.join(this.dataDir, file);
+
+        // Ensure it's a file
+        const stats = await fs.stat(filePath);
+        if (!stats.isFile()) continue;
+
+        const content = await fs.readFile(filePath, "utf-8");
+        try {
+          // Verify valid JSON
+          JSON.parse(content);
+
+          await fs.mkdir(fileHistoryDir, { recursive: true });
+          await writeFileAtomic(path.join(fileHistoryDir, "v1.json"), content);
+        } catch (err) {
+          console.error(`Skipping invalid JSON ${file}:`, err);
+        }
+      }
+    } catch (error) {
+      console.error("Initialization failed:", error);
+    }
+  }
+
+  async list() {
+    const files = await fs.readdir(this.dataDir);
+    return files.filter((file) => path.extname(file) === ".json");
+  }
+
+  async get<T = unknown>(filename: string) {
+    const filePath = path.join(this.dataDir, filename);
+    if (!existsSync(filePath)) return null;
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as T;
+  }
+
+  async getLatestVersion(filename: string) {
+    const versions = await this.listVersionNumbers(filename);
+    return versions.length > 0 ? Math.max(...versions) : 0;
+  }
+
+  save(filename: string, content: unknown, details: ChangeDetails) {
+    return this.write(filename, content, details);
+  }
+
+  async listVersions(filename: string) {
+    const versions = (await this.listVersionNumbers(filename)).sort(
+      (a, b) => b - a
+    ); // Descending order
+
+    return Promise.all(
+      versions.map((version) => this.readVersionMetadata(filename, version))
+    );
+  }
+
+  async getVersion<T = unknown>(filename: string, version: number) {
+    const fileHistoryDir = this.getHistoryDir(filename);
+    const readJson = async (file: string) =>
+      JSON.parse(await fs.readFile(path.join(fileHistoryDir, file), "utf-8"));
+
+    // Walk back to the nearest checkpoint, then replay the patches forward
+    const patches: string[] = [];
+    for (let current = version; current > 0; current--) {
+      if (existsSync(path.join(fileHistoryDir, `v${current}.json`))) {
+        let content = await readJson(`v${current}.json`);
+        for (const patch of patches.reverse()) {
+          content = applyJsonPatch(content, await readJson(patch));
+        }
+        return content as T;
+      }
+
+      if (!existsSync(path.join(fileHistoryDir, `v${current}.patch.json`))) {
+        return null;
+      }
+      patches.push(`v${current}.patch.json`);
+    }
+    return null;
+  }
+
+  async restore(filename: string, version: number, details: ChangeDetails) {
+    const content = await this.getVersion(filename, version);
+    if (content === null) return null;
+    return this.write(filename, content, details, version);
+  }
+
+  /**
+   * Rewrites a document's full snapshots as deltas, keeping one checkpoint every checkpoint interval.
+   * Each delta is written before its snapshot is removed, so the conversion can be interrupted and re-run.
+   *
+   * @param filename - The document filename.
+   * @returns The number of snapshots converted.
+   */
+  async convertSnapshotsToDeltas(filename: string) {
+    const fileHistoryDir = this.getHistoryDir(filename);
+    const versions = (await this.listVersionNumbers(filename)).sort(
+      (a, b) => a - b
+    );
+
+    let converted = 0;
+    let previous: unknown = null;
+    for (const version of versions) {
+      const content = await this.getVersion(filename, version);
+      const snapshotPath = path.join(fileHistoryDir, `v${version}.json`);
+
+      if (
+        previous !== null &&
+        !this.isCheckpoint(version) &&
+        existsSync(snapshotPath)
+      ) {
+        await writeFileAtomic(
+          path.join(fileHistoryDir, `v${version}.patch.json`),
+          JSON.stringify(createPatch(previous, content), null, 2)
+        );
+        await fs.rm(snapshotPath);
+        converted++;
+      }
+      previous = content;
+    }
+    return converted;
+  }
+
+  /**
+   * Checks whether a version is stored as a full checkpoint.
+   *
+   * @param version - The version number.
+   * @returns True for versions 1, 1 + interval, 1 + 2 * interval, ...
+   */
+  private isCheckpoint(version: number) {
+    return (version - 1) % this.checkpointInterval === 0;
+  }
+
+  /**
+   * Resolves the history folder of a document.
+   *
+   * @param filename - The document filename.
+   * @returns The folder path, e.g. 'data/history/publisher-aurora'.
+   */
+  private getHistoryDir(filename: string) {
+    return path.join(this.historyDir, path.parse(filename).name);
+  }
+
+  /**
+   * Lists the version numbers stored in a document's history folder.
+   *
+   * @param filename - The document filename.
+   * @returns The version numbers, in no particular order.
+   */
+  private async listVersionNumbers(filename: string) {
+    const fileHistoryDir = this.getHistoryDir(filename);
+    if (!existsSync(fileHistoryDir)) return [];
+
+    const files = await fs.readdir(fileHistoryDir);
+    const versions = files
+      .map((f) => /^v(\d+)\.(patch\.)?json$/.exec(f))
+      .map((match) => (match ? parseInt(match[1], 10) : 0))
+      .filter((version) => version > 0);
+
+    // A version can briefly have both a checkpoint and a delta while snapshots are being converted
+    return [...new Set(versions)];
+  }
+
+  /**
+   * Reads the metadata of a history version.
+   * Versions saved before metadata was recorded fall back to the snapshot's modification time.
+   *
+   * @param filename - The document filename.
+   * @param version - The version number.
+   * @returns The version metadata.
+   */
+  private async readVersionMetadata(
+    filename: string,
+    version: number
+  ): Promise<VersionMetadata> {
+    const fileHistoryDir = this.getHistoryDir(filename);
+    const metaPath = path.join(fileHistoryDir, `v${version}.meta.json`);
+    const stored = existsSync(metaPath)
+      ? JSON.parse(await fs.readFile(metaPath, "utf-8"))
+      : {};
+
+    if (!stored.timestamp) {
+      const snapshotPath = path.join(fileHistoryDir, `v${version}.json`);
+      const stats = await fs.stat(
+        existsSync(snapshotPath)
+          ? snapshotPath
+          : path.join(fileHistoryDir, `v${version}.patch.json`)
+      );
+      stored.timestamp = stats.mtime.toISOString();
+    }
+
+    return { author: "", message: "", changedPaths: [], ...stored, version };
+  }
+
+  /**
+   * Writes content as the live file and records it as the next history version (a checkpoint or a
+   * delta against the previous version), together with its metadata ('vN.meta.json').
+   *
+   * @param filename - The document filename.
+   * @param content - The content to save.
+   * @param details - Who made the change and why.
+   * @param restoredFrom - The version being restored, if this save is a rollback.
+   * @returns The new version number.
+   */
+  private async write(
+    filename: string,
+    content: unknown,
+    details: ChangeDetails,
+    restoredFrom?: number
+  ) {
+    const dataPath = path.join(this.dataDir, filename);
+    const fileHistoryDir = this.getHistoryDir(filename);
+
+    // Ensure history dir exists
+    if (!existsSync(fileHistoryDir)) {
+      await fs.mkdir(fileHistoryDir, { recursive: true });
+    }
+
+    const latest = await this.getLatestVersion(filename);
+    const newVersion = latest + 1;
+    const serialized = JSON.stringify(content, null, 2);
+    const previous =
+      latest > 0 ? await this.getVersion(filename, latest) : null;
+
+    const metadata: VersionMetadata = {
+      version: newVersion,
+      author: details.author,
+      timestamp: new Date().toISOString(),
+      message: details.message,
+      changedPaths: getChangedPaths(previous ?? {}, content),
+      ...(restoredFrom !== undefined && { restoredFrom }),
+      ...(details.external && { external: true }),
+    };
+
+    // Save history first: if the live write is interrupted, startup recovery restores it from here
+    await writeFileAtomic(
+      path.join(fileHistoryDir, `v${newVersion}.meta.json`),
+      JSON.stringify(metadata, null, 2)
+    );
+    if (previous === null || this.isCheckpoint(newVersion)) {
+      await writeFileAtomic(
+        path.join(fileHistoryDir, `v${newVersion}.json`),
+        serialized
+      );
+    } else {
+      await writeFileAtomic(
+        path.join(fileHistoryDir, `v${newVersion}.patch.json`),
+        JSON.stringify(createPatch(previous, content), null, 2)
+      );
+    }
+
+    // Save main file
+    await writeFileAtomic(dataPath, serialized);
+
+    return newVersion;
+  }
+
+  /**
+   * Repairs a live file left behind by an interrupted save.
+   *
+   * Saves write the history before the live file, so a crash in between leaves the newest version
+   * written after the live file (or a temporary copy of the live file behind). Only then is the newest
+   * version, the last completed save, written back over the live file. A live file that differs without
+   * such evidence was edited outside the server, and is left for the server to record.
+   *
+   * @param file - The data filename.
+   * @param interrupted - Whether a temporary copy of the live file was left behind.
+   */
+  private async repairLiveFile(file: string, interrupted: boolean) {
+    const fileHistoryDir = this.getHistoryDir(file);
+    await removeStaleTempFiles(fileHistoryDir);
+
+    const latest = await this.getLatestVersion(file);
+    if (latest === 0) return;
+
+    if (!interrupted && !(await this.isAheadOfLiveFile(file, latest))) return;
+
+    const filePath = path.join(this.dataDir, file);
+    const snapshot = JSON.stringify(
+      await this.getVersion(file, latest),
+      null,
+      2
+    );
+    const live = await fs.readFile(filePath, "utf-8");
+
+    let isInSync = false;
+    try {
+      isInSync =
+        JSON.stringify(JSON.parse(live)) ===
+        JSON.stringify(JSON.parse(snapshot));
+    } catch {
+      // An unparsable live file is out of sync by definition
+    }
+
+    if (!isInSync) {
+      console.warn(
+        `${file} does not match v${latest}. Restoring from history...`
+      );
+      await writeFileAtomic(filePath, snapshot);
+    }
+  }
+
+  /**
+   * Checks whether a version was written after the live file, as happens when a save is interrupted
+   * before it writes the live file. The metadata is written first; versions without metadata (the
+   * first version of files found on startup) use the snapshot instead.
+   *
+   * @param file - The data filename.
+   * @param version - The version number.
+   * @returns True if the version is newer than the live file.
+   */
+  private async isAheadOfLiveFile(file: string, version: number) {
+    const fileHistoryDir = this.getHistoryDir(file);
+    const versionPath = [
+      `v${version}.meta.json`,
+      `v${version}.json`,
+      `v${version}.patch.json`,
+    ]
+      .map((name) => path.join(fileHistoryDir, name))
+      .find((candidate) => existsSync(candidate)) as string;
+
+    const [versionStats, liveStats] = await Promise.all([
+      fs.stat(versionPath),
+      fs.stat(path.join(this.dataDir, file)),
+    ]);
+    return versionStats.mtimeMs > liveStats.mtimeMs;
+  }
+}
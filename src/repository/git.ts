@@ -0,0 +1,425 @@
+/**
+ * Git Repository
+ *
+ * Keeps documents as loose JSON files in the data directory (like the filesystem backend), but records
+ * history as commits in a git repository inside that directory instead of 'vN.json' copies.
+ * Version N of a document is the Nth commit that touched it. The commit author is the editor and the
+ * commit message holds the change description, so 'git log -p' and 'git blame' work on configs.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { getChangedPaths } from "../diff.js";
+import { removeStaleTempFiles, writeFileAtomic } from "../atomic-file.js";
+import { runExclusive } from "../write-queue.js";
+import { ChangeDetails, ConfigRepository, VersionMetadata } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+/** Commit message trailers holding the metadata git does not store itself. */
+const CHANGED_PATHS_TRAILER = "Changed-Paths";
+const RESTORED_FROM_TRAILER = "Restored-From";
+const EXTERNAL_EDIT_TRAILER = "External-Edit";
+
+/** Separators for 'git log' output (ASCII unit and record separators). */
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
+
+/** Paths inside the data directory that are never committed. */
+const EXCLUDED_PATHS = [
+  "history/",
+  "audit/",
+  "auth/",
+  "review/",
+  "drafts/",
+  "bulk/",
+  "environments/",
+  ".*.tmp",
+  "*.sqlite",
+];
+
+/**
+ * Keeps documents as JSON files and their history as git commits.
+ */
+export class GitRepository implements ConfigRepository {
+  /** Folder holding the live documents and the '.git' folder. */
+  readonly dataDir: string;
+
+  /** Repository to import from when the git repository is created. */
+  private readonly seed?: ConfigRepository;
+
+  /**
+   * Creates a repository over a data directory.
+   * @param dataDir - The folder holding the live documents. A git repository is created here on first start.
+   * @param seed - Optional repository whose history is replayed as commits into a new git repository.
+   */
+  constructor(dataDir: string, seed?: ConfigRepository) {
+    this.dataDir = dataDir;
+    this.seed = seed;
+  }
+
+  /**
+   * Creates the git repository if needed, removes temporary files left by interrupted saves and
+   * commits new JSON files as their first version.
+   */
+  async initialize() {
+    const created = !existsSync(path.join(this.dataDir, ".git"));
+    if (created) await this.git(["init", "--quiet"]);
+    await this.updateExcludes();
+    if (created && this.seed) await this.importFrom(this.seed);
+
+    // A save interrupted before its rename leaves the live file untouched. Modified files are left as
+    // they are: they hold an edit made outside the server, or a save that was written but not committed,
+    // and the server records either as a new version.
+    await removeStaleTempFiles(this.dataDir);
+
+    const untracked = await this.gitLines([
+      "ls-files",
+      "--others",
+      "--exclude-standard",
+    ]);
+    for (const file of untracked.filter(this.isDocument)) {
+      console.log(`New file detected: ${file}. Initializing history...`);
+      try {
+        const content = JSON.parse(
+          await fs.readFile(path.join(this.dataDir, file), "utf-8")
+        );
+        await this.commit(file, {
+          message: `Add ${file}`,
+          author: "anonymous",
+          changedPaths: getChangedPaths({}, content),
+        });
+      } catch (err) {
+        console.error(`Skipping invalid JSON ${file}:`, err);
+      }
+    }
+  }
+
+  async list() {
+    return (await this.gitLines(["ls-files"])).filter(this.isDocument);
+  }
+
+  async get<T = unknown>(filename: string) {
+    const filePath = path.join(this.dataDir, filename);
+    if (!existsSync(filePath)) return null;
+    return JSON.parse(await fs.readFile(filePath, "utf-8")) as T;
+  }
+
+  async getLatestVersion(filename: string) {
+    return (await this.listCommits(filename)).length;
+  }
+
+  save(filename: string, content: unknown, details: ChangeDetails) {
+    return this.write(filename, content, details);
+  }
+
+  async listVersions(filename: string) {
+    if (!(await this.hasCommits())) return [];
+
+    const output = await this.git([
+      "log",
+      `--format=%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`,
+      "--",
+      filename,
+    ]);
+    const records = output
+      .split(RECORD_SEPARATOR)
+      .map((record) => record.trim())
+      .filter(Boolean);
+
+    // 'git log' lists the newest commit first
+    return records.map((record, index) => {
+      const [author, timestamp, body] = record.split(FIELD_SEPARATOR);
+      return this.parseCommitMessage(
+        body,
+        records.length - index,
+        author,
+        timestamp
+      );
+    });
+  }
+
+  async getVersion<T = unknown>(filename: string, version: number) {
+    const commit = (await this.listCommits(filename))[version - 1];
+    if (!commit) return null;
+    return JSON.parse(await this.git(["show", `${commit}:${filename}`])) as T;
+  }
+
+  async restore(filename: string, version: number, details: ChangeDetails) {
+    const content = await this.getVersion(filename, version);
+    if (content === null) return null;
+    return this.write(filename, content, details, version);
+  }
+
+  /**
+   * Checks whether a path is a top-level JSON document (not a file in a subfolder).
+   */
+  private isDocument = (file: string) =>
+    path.extname(file) === ".json" && !file.includes("/");
+
+  /**
+   * Runs a git command in the data directory.
+   *
+   * @param args - The git arguments.
+   * @param env - Extra environment variables (e.g. a commit date).
+   * @returns The command's standard output.
+   */
+  private async git(args: string[], env: Record<string, string> = {}) {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: this.dataDir,
+      maxBuffer: 64 * 1024 * 1024,
+      env: {
+        ...process.env,
+        GIT_COMMITTER_NAME: "DeeperDive Config Tool",
+        GIT_COMMITTER_EMAIL: "",
+        ...env,
+      },
+    });
+    return stdout;
+  }
+
+  /**
+   * Runs a git command and splits its output into non-empty lines.
+   */
+  private async gitLines(args: string[]) {
+    return (await this.git(args)).split("\n").filter(Boolean);
+  }
+
+  /**
+   * Checks whether the repository has at least one commit.
+   */
+  private async hasCommits() {
+    try {
+      await this.git(["rev-parse", "--verify", "--quiet", "HEAD"]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Lists the commits that touched a document.
+   *
+   * @param filename - The document filename.
+   * @returns The commit hashes, oldest first (index 0 is version 1).
+   */
+  private async listCommits(filename: string) {
+    if (!(await this.hasCommits())) return [];
+    return this.gitLines(["rev-list", "--reverse", "HEAD", "--", filename]);
+  }
+
+  /**
+   * Builds a commit message: the change description followed by metadata trailers.
+   * Saves without a description get a generic subject so 'git log --oneline' stays readable.
+   *
+   * @param filename - The document filename.
+   * @param metadata - The metadata to record.
+   * @returns The commit message.
+   */
+  private formatCommitMessage(
+    filename: string,
+    metadata: Pick<
+      VersionMetadata,
+      "message" | "changedPaths" | "restoredFrom" | "external"
+    >
+  ) {
+    const trailers = [
+      `${CHANGED_PATHS_TRAILER}: ${metadata.changedPaths.join(", ")}`,
+      ...(metadata.restoredFrom !== undefined
+        ? [`${RESTORED_FROM_TRAILER}: ${metadata.restoredFrom}`]
+        : []),
+      ...(metadata.external ? [`${EXTERNAL_EDIT_TRAILER}: true`] : []),
+    ];
+    const subject = metadata.message.trim() || `Update ${filename}`;
+    return `${subject}\n\n${trailers.join("\n")}`;
+  }
+
+  /**
+   * Reads version metadata back from a commit message written by formatCommitMessage.
+   * The last paragraph holds the trailers; everything before it is the change description.
+   *
+   * @param body - The raw commit message.
+   * @param version - The version number of the commit.
+   * @param author - The commit author.
+   * @param timestamp - The commit author date.
+   * @returns The version metadata.
+   */
+  private parseCommitMessage(
+    body: string,
+    version: number,
+    author: string,
+    timestamp: string
+  ): VersionMetadata {
+    const text = body.trim();
+    const split = text.lastIndexOf("\n\n");
+    const message = split === -1 ? "" : text.slice(0, split).trim();
+    const trailers = split === -1 ? text : text.slice(split + 2);
+
+    const readTrailer = (key: string) =>
+      trailers
+        .split("\n")
+        .find((line) => line.startsWith(`${key}:`))
+        ?.slice(key.length + 1)
+        .trim();
+
+    const changedPaths = readTrailer(CHANGED_PATHS_TRAILER);
+    const restoredFrom = readTrailer(RESTORED_FROM_TRAILER);
+    const external = readTrailer(EXTERNAL_EDIT_TRAILER) === "true";
+
+    return {
+      version,
+      author,
+      timestamp: new Date(timestamp).toISOString(),
+      message,
+      changedPaths: changedPaths ? changedPaths.split(", ") : [],
+      ...(restoredFrom && { restoredFrom: parseInt(restoredFrom, 10) }),
+      ...(external && { external }),
+    };
+  }
+
+  /**
+   * Commits the current content of a single document. Nothing is committed when the content is unchanged.
+   * Commits are queued because git allows only one writer to the index at a time.
+   *
+   * @param filename - The document filename.
+   * @param metadata - The author, description and metadata of the change.
+   * @param timestamp - Optional author date (used when importing history).
+   */
+  private commit(
+    filename: string,
+    metadata: Pick<
+      VersionMetadata,
+      "author" | "message" | "changedPaths" | "restoredFrom" | "external"
+    >,
+    timestamp?: string
+  ) {
+    // Angle brackets and line breaks would break the 'Name <email>' author format
+    const author = metadata.author.replace(/[<>\n]/g, "").trim() || "anonymous";
+
+    return runExclusive(this.dataDir, async () => {
+      await this.git(["add", "--", filename]);
+
+      try {
+        await this.git(["diff", "--cached", "--quiet", "--", filename]);
+        return; // Exit code 0: nothing staged
+      } catch {
+        // Exit code 1: the file has staged changes
+      }
+
+      await this.git(
+        [
+          "commit",
+          "--quiet",
+          `--author=${author} <>`,
+          "-m",
+          this.formatCommitMessage(filename, metadata),
+          "--",
+          filename,
+        ],
+        timestamp ? { GIT_AUTHOR_DATE: timestamp } : {}
+      );
+    });
+  }
+
+  /**
+   * Writes content as the live file and commits it as the next version.
+   * Saving content identical to the current version creates no commit and returns the current version.
+   *
+   * @param filename - The document filename.
+   * @param content - The content to save.
+   * @param details - Who made the change and why.
+   * @param restoredFrom - The version being restored, if this save is a rollback.
+   * @returns The new version number.
+   */
+  private async write(
+    filename: string,
+    content: unknown,
+    details: ChangeDetails,
+    restoredFrom?: number
+  ) {
+    // Diff against the last commit: the live file may already hold the new content (external edits)
+    const latest = await this.getLatestVersion(filename);
+    const previous =
+      (latest > 0 ? await this.getVersion(filename, latest) : null) ?? {};
+
+    await writeFileAtomic(
+      path.join(this.dataDir, filename),
+      JSON.stringify(content, null, 2)
+    );
+    await this.commit(filename, {
+      author: details.author,
+      message: details.message,
+      changedPaths: getChangedPaths(previous, content),
+      ...(restoredFrom !== undefined && { restoredFrom }),
+      ...(details.external && { external: true }),
+    });
+
+    return this.getLatestVersion(filename);
+  }
+
+  /**
+   * Adds the excluded paths missing from '.git/info/exclude', so repositories created before a path
+   * was excluded stop picking it up. Lines added by hand are kept.
+   */
+  private async updateExcludes() {
+    const excludeFile = path.join(this.dataDir, ".git", "info", "exclude");
+    const current = existsSync(excludeFile)
+      ? await fs.readFile(excludeFile, "utf-8")
+      : "";
+    const lines = current.split("\n").map((line) => line.trim());
+    const missing = EXCLUDED_PATHS.filter((entry) => !lines.includes(entry));
+    if (missing.length === 0) return;
+
+    await fs.mkdir(path.dirname(excludeFile), { recursive: true });
+    const separator = current && !current.endsWith("\n") ? "\n" : "";
+    await fs.writeFile(
+      excludeFile,
+      `${current}${separator}${missing.join("\n")}\n`,
+      "utf-8"
+    );
+  }
+
+  /**
+   * Replays another repository's history as commits, in the order the versions were saved,
+   * keeping each version's author, date and description.
+   *
+   * @param source - The repository to import from.
+   */
+  private async importFrom(source: ConfigRepository) {
+    await source.initialize();
+
+    const versions = (
+      await Promise.all(
+        (
+          await source.list()
+        ).map(async (filename) =>
+          (
+            await source.listVersions(filename)
+          ).map((metadata) => ({ filename, metadata }))
+        )
+      )
+    )
+      .flat()
+      .sort(
+        (a, b) =>
+          a.metadata.timestamp.localeCompare(b.metadata.timestamp) ||
+          a.metadata.version - b.metadata.version
+      );
+
+    for (const { filename, metadata } of versions) {
+      const content = await source.getVersion(filename, metadata.version);
+      if (content === null) continue;
+
+      await writeFileAtomic(
+        path.join(this.dataDir, filename),
+        JSON.stringify(content, null, 2)
+      );
+      await this.commit(filename, metadata, metadata.timestamp);
+    }
+
+    console.log(`Imported ${versions.length} versions into git`);
+  }
+}
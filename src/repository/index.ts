@@ -0,0 +1,56 @@
+/**
+ * Repository Factory
+ *
+ * Selects the storage backend the server persists configurations with.
+ */
+
+import { FileSystemRepository } from "./filesystem.js";
+import { GitRepository } from "./git.js";
+import { SqliteRepository } from "./sqlite.js";
+import { ConfigRepository } from "./types.js";
+
+export * from "./types.js";
+export * from "./observed.js";
+
+/**
+ * Storage settings, usually read from the environment.
+ */
+export interface StorageOptions {
+  /** 'filesystem' (loose JSON files), 'git' (JSON files with history as git commits) or 'sqlite' (embedded database). */
+  backend: string;
+  /** The data directory. The filesystem and git backends store documents here; SQLite imports from it once. */
+  dataDir: string;
+  /** The SQLite database file (sqlite backend only). */
+  sqlitePath: string;
+  /** Full history checkpoints are stored every this many versions (filesystem backend only). */
+  checkpointInterval?: number;
+}
+
+/**
+ * Creates the repository for the configured backend.
+ *
+ * @param options - The storage settings.
+ * @returns The repository (not yet initialized).
+ * @throws {Error} If the backend is unknown.
+ */
+export const createRepository = (options: StorageOptions): ConfigRepository => {
+  switch (options.backend) {
+    case "filesystem":
+      return new FileSystemRepository(
+        options.dataDir,
+        options.checkpointInterval
+      );
+    case "git":
+      return new GitRepository(
+        options.dataDir,
+        new FileSystemRepository(options.dataDir, options.checkpointInterval)
+      );
+    case "sqlite":
+      return new SqliteRepository(
+        options.sqlitePath,
+        new FileSystemRepository(options.dataDir, options.checkpointInterval)
+      );
+    default:
+      throw new Error(`Unknown storage backend '${options.backend}'`);
+  }
+};
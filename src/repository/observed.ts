@@ -0,0 +1,85 @@
+/**
+ * Observed Repository
+ *
+ * Wraps another repository and reports every version it creates, whichever route or job saved it.
+ * The server uses this to broadcast saves and restores to open browsers.
+ */
+
+import { ChangeDetails, ConfigRepository } from "./types.js";
+
+/**
+ * Called after a save or restore created a new version.
+ *
+ * @param filename - The document filename.
+ * @param version - The new version number.
+ * @param details - Who made the change and why.
+ * @param restoredFrom - The version that was restored, for restores.
+ */
+export type VersionListener = (
+  filename: string,
+  version: number,
+  details: ChangeDetails,
+  restoredFrom?: number
+) => void;
+
+/**
+ * A repository that reports the versions created through it.
+ */
+export class ObservedRepository implements ConfigRepository {
+  /** The repository doing the work. */
+  private readonly inner: ConfigRepository;
+
+  /** Called for every new version. */
+  private readonly onVersion: VersionListener;
+
+  /**
+   * Creates a repository that reports new versions.
+   * @param inner - The repository doing the work.
+   * @param onVersion - Called for every new version.
+   */
+  constructor(inner: ConfigRepository, onVersion: VersionListener) {
+    this.inner = inner;
+    this.onVersion = onVersion;
+  }
+
+  initialize() {
+    return this.inner.initialize();
+  }
+
+  list() {
+    return this.inner.list();
+  }
+
+  get<T = unknown>(filename: string) {
+    return this.inner.get<T>(filename);
+  }
+
+  getLatestVersion(filename: string) {
+    return this.inner.getLatestVersion(filename);
+  }
+
+  async save(filename: string, content: unknown, details: ChangeDetails) {
+    // Backends may return the current version for content that did not change
+    const previous = await this.inner.getLatestVersion(filename);
+    const version = await this.inner.save(filename, content, details);
+    if (version !== previous) this.onVersion(filename, version, details);
+    return version;
+  }
+
+  listVersions(filename: string) {
+    return this.inner.listVersions(filename);
+  }
+
+  getVersion<T = unknown>(filename: string, version: number) {
+    return this.inner.getVersion<T>(filename, version);
+  }
+
+  async restore(filename: string, version: number, details: ChangeDetails) {
+    const previous = await this.inner.getLatestVersion(filename);
+    const restored = await this.inner.restore(filename, version, details);
+    if (restored !== null && restored !== previous) {
+      this.onVersion(filename, restored, details, version);
+    }
+    return restored;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * SQLite Repository
+ *
+ * Stores every version of every document as a row in an embedded SQLite database file.
+ * The current content of a document is its newest version. The database runs in memory
+ * (sql.js, no native build required) and is written back to disk atomically after each save.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import initSqlJs, { BindParams, Database, SqlValue } from "sql.js";
+import { getChangedPaths } from "../diff.js";
+import { writeFileAtomic } from "../atomic-file.js";
+import { runExclusive } from "../write-queue.js";
+import { ChangeDetails, ConfigRepository, VersionMetadata } from "./types.js";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS versions (
+    filename TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    author TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    message TEXT NOT NULL,
+    changed_paths TEXT NOT NULL,
+    restored_from INTEGER,
+    external INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (filename, version)
+  )
+`;
+
+/** Columns added after the first release, with their definitions, for upgrading older databases. */
+const ADDED_COLUMNS: Record<string, string> = {
+  external: "INTEGER NOT NULL DEFAULT 0",
+};
+
+/**
+ * Keeps documents and their history in a single SQLite database file.
+ */
+export class SqliteRepository implements ConfigRepository {
+  /** Path of the database file. */
+  readonly databasePath: string;
+
+  /** Repository to import from when the database is created. */
+  private readonly seed?: ConfigRepository;
+
+  /** The open database (set by initialize). */
+  private db?: Database;
+
+  /**
+   * Creates a repository over a database file.
+   * @param databasePath - The database file. It is created on first start.
+   * @param seed - Optional repository whose documents and history are imported into a new, empty database.
+   */
+  constructor(databasePath: string, seed?: ConfigRepository) {
+    this.databasePath = databasePath;
+    this.seed = seed;
+  }
+
+  /**
+   * Opens (or creates) the database. A new database is filled from the seed repository,
+   * keeping every version with its metadata.
+   */
+  async initialize() {
+    const SQL = await initSqlJs();
+    this.db = existsSync(this.databasePath)
+      ? new SQL.Database(await fs.readFile(this.databasePath))
+      : new SQL.Database();
+    this.db.run(SCHEMA);
+    await this.migrate();
+
+    if (this.seed && (await this.list()).length === 0) {
+      await this.importFrom(this.seed);
+    }
+  }
+
+  async list() {
+    return this.query(
+      "SELECT DISTINCT filename FROM versions ORDER BY filename"
+    ).map((row) => String(row.filename));
+  }
+
+  async get<T = unknown>(filename: string) {
+    return this.getVersion<T>(filename, await this.getLatestVersion(filename));
+  }
+
+  async getLatestVersion(filename: string) {
+    const [row] = this.query(
+      "SELECT MAX(version) AS latest FROM versions WHERE filename = ?",
+      [filename]
+    );
+    return Number(row?.latest ?? 0);
+  }
+
+  save(filename: string, content: unknown, details: ChangeDetails) {
+    return this.write(filename, content, details);
+  }
+
+  async listVersions(filename: string) {
+    return this.query(
+      `SELECT version, author, timestamp, message, changed_paths, restored_from, external
+       FROM versions WHERE filename = ? ORDER BY version DESC`,
+      [filename]
+    ).map(
+      (row): VersionMetadata => ({
+        version: Number(row.version),
+        author: String(row.author),
+        timestamp: String(row.timestamp),
+        message: String(row.message),
+        changedPaths: JSON.parse(String(row.changed_paths)),
+        ...(row.restored_from !== null && {
+          restoredFrom: Number(row.restored_from),
+        }),
+        ...(row.external === 1 && { external: true }),
+      })
+    );
+  }
+
+  async getVersion<T = unknown>(filename: string, version: number) {
+    const [row] = this.query(
+      "SELECT content FROM versions WHERE filename = ? AND version = ?",
+      [filename, version]
+    );
+    return row ? (JSON.parse(String(row.content)) as T) : null;
+  }
+
+  async restore(filename: string, version: number, details: ChangeDetails) {
+    const content = await this.getVersion(filename, version);
+    if (content === null) return null;
+    return this.write(filename, content, details, version);
+  }
+
+  /**
+   * Adds the columns a database created by an older release lacks, and saves it if anything changed.
+   */
+  private async migrate() {
+    const existing = this.query("PRAGMA table_info(versions)").map((row) =>
+      String(row.name)
+    );
+    const missing = Object.keys(ADDED_COLUMNS).filter(
+      (column) => !existing.includes(column)
+    );
+    if (missing.length === 0) return;
+
+    missing.forEach((column) =>
+      this.query(
+        `ALTER TABLE versions ADD COLUMN ${column} ${ADDED_COLUMNS[column]}`
+      )
+    );
+    await this.persist();
+  }
+
+  /**
+   * Runs a query and returns its rows as objects.
+   *
+   * @param sql - The SQL statement.
+   * @param params - Positional parameters.
+   * @returns The result rows keyed by column name.
+   */
+  private query(sql: string, params: BindParams = []) {
+    if (!this.db) throw new Error("SQLite repository is not initialized");
+
+    const statement = this.db.prepare(sql, params);
+    const rows: Record<string, SqlValue>[] = [];
+    try {
+      while (statement.step()) rows.push(statement.getAsObject());
+    } finally {
+      statement.free();
+    }
+    return rows;
+  }
+
+  /**
+   * Inserts a version row.
+   *
+   * @param filename - The document filename.
+   * @param content - The version's content.
+   * @param metadata - The version's metadata.
+   */
+  private insertVersion(
+    filename: string,
+    content: unknown,
+    metadata: VersionMetadata
+  ) {
+    this.query(
+      `INSERT INTO versions
+       (filename, version, content, author, timestamp, message, changed_paths, restored_from, external)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        filename,
+        metadata.version,
+        JSON.stringify(content, null, 2),
+        metadata.author,
+        metadata.timestamp,
+        metadata.message,
+        JSON.stringify(metadata.changedPaths),
+        metadata.restoredFrom ?? null,
+        metadata.external ? 1 : 0,
+      ]
+    );
+  }
+
+  /**
+   * Records content as the next version of a document and persists the database.
+   *
+   * @param filename - The document filename.
+   * @param content - The content to save.
+   * @param details - Who made the change and why.
+   * @param restoredFrom - The version being restored, if this save is a rollback.
+   * @returns The new version number.
+   */
+  private async write(
+    filename: string,
+    content: unknown,
+    details: ChangeDetails,
+    restoredFrom?: number
+  ) {
+    const newVersion = (await this.getLatestVersion(filename)) + 1;
+    const previous = (await this.get(filename)) ?? {};
+
+    this.insertVersion(filename, content, {
+      version: newVersion,
+      author: details.author,
+      timestamp: new Date().toISOString(),
+      message: details.message,
+      changedPaths: getChangedPaths(previous, content),
+      ...(restoredFrom !== undefined && { restoredFrom }),
+      ...(details.external && { external: true }),
+    });
+
+    await this.persist();
+    return newVersion;
+  }
+
+  /**
+   * Copies every document and version from another repository into this one.
+   *
+   * @param source - The repository to import from.
+   */
+  private async importFrom(source: ConfigRepository) {
+    await source.initialize();
+
+    for (const filename of await source.list()) {
+      const versions = (await source.listVersions(filename)).reverse();
+      for (const metadata of versions) {
+        const content = await source.getVersion(filename, metadata.version);
+        if (content !== null) this.insertVersion(filename, content, metadata);
+      }
+    }
+
+    console.log(`Imported ${(await this.list()).length} documents into SQLite`);
+    await this.persist();
+  }
+
+  /**
+   * Writes the in-memory database to disk.
+   * Exports are queued, so the last write to finish always holds the newest state.
+   */
+  private persist() {
+    return runExclusive(this.databasePath, async () => {
+      if (!this.db) return;
+      await fs.mkdir(path.dirname(this.databasePath), { recursive: true });
+      await writeFileAtomic(this.databasePath, this.db.export());
+    });
+  }
+}
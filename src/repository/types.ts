@@ -0,0 +1,114 @@
+/**
+ * Configuration Repository
+ *
+ * The storage contract the API routes are written against. Implementations decide where documents
+ * and their history live; routes only deal with filenames, content and version numbers.
+ */
+
+/**
+ * Who made a change and why, as supplied by the client.
+ */
+export interface ChangeDetails {
+  author: string;
+  message: string;
+  /**
+   * True for changes made to the live file outside the server (by hand or by a script) and recorded
+   * afterwards. Only backends that keep live files in the data directory (filesystem, git) see these.
+   */
+  external?: boolean;
+}
+
+/**
+ * Metadata recorded for each saved version.
+ */
+export interface VersionMetadata extends ChangeDetails {
+  version: number;
+  /** ISO 8601 timestamp of the save. */
+  timestamp: string;
+  /** Paths that differ from the previous version, e.g. 'pages[0].position'. */
+  changedPaths: string[];
+  /** The version this one was restored from, if it is a rollback. */
+  restoredFrom?: number;
+}
+
+/**
+ * Versioned storage for configuration documents, keyed by filename (e.g. 'publisher-aurora.json').
+ *
+ * Implementations do not serialize writes themselves: callers must hold the document's write queue
+ * (see `runExclusive`) across reading the latest version and saving.
+ */
+export interface ConfigRepository {
+  /**
+   * Prepares the storage (folders, tables, recovery after a crash). Called once before the server starts.
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Lists the stored documents.
+   *
+   * @returns The filenames, including the publishers registry.
+   */
+  list(): Promise<string[]>;
+
+  /**
+   * Reads the current content of a document.
+   *
+   * @param filename - The document filename.
+   * @returns The parsed content, or null if the document does not exist.
+   */
+  get<T = unknown>(filename: string): Promise<T | null>;
+
+  /**
+   * Resolves the latest version number of a document.
+   *
+   * @param filename - The document filename.
+   * @returns The latest version number (0 when the document has no history yet).
+   */
+  getLatestVersion(filename: string): Promise<number>;
+
+  /**
+   * Saves content as the current document and records it as the next version.
+   *
+   * @param filename - The document filename.
+   * @param content - The content to save.
+   * @param details - Who made the change and why.
+   * @returns The new version number.
+   */
+  save(
+    filename: string,
+    content: unknown,
+    details: ChangeDetails
+  ): Promise<number>;
+
+  /**
+   * Lists the versions of a document.
+   *
+   * @param filename - The document filename.
+   * @returns The version metadata, newest first.
+   */
+  listVersions(filename: string): Promise<VersionMetadata[]>;
+
+  /**
+   * Reads the content of a document at a given version.
+   *
+   * @param filename - The document filename.
+   * @param version - The version number.
+   * @returns The parsed content, or null if the version does not exist.
+   */
+  getVersion<T = unknown>(filename: string, version: number): Promise<T | null>;
+
+  /**
+   * Saves a historical version as the current document. The new version's metadata notes the version
+   * it was restored from.
+   *
+   * @param filename - The document filename.
+   * @param version - The version to restore.
+   * @param details - Who made the change and why.
+   * @returns The new version number, or null if the version does not exist.
+   */
+  restore(
+    filename: string,
+    version: number,
+    details: ChangeDetails
+  ): Promise<number | null>;
+}
@@ -0,0 +1,141 @@
+/**
+ * Schema Registry
+ *
+ * Maps data files to the JSON Schema that describes them and validates content before it is persisted.
+ * Validation collects every failure (not just the first) so clients can highlight all invalid fields at once.
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from "ajv";
+import { publisherConfigSchema } from "./publisher-config.js";
+import { publishersRegistrySchema } from "./publishers-registry.js";
+import { publisherTemplateSchema } from "./publisher-template.js";
+import { isTemplateFilename } from "../templates.js";
+import { isUnsafeKey } from "../patch.js";
+
+/**
+ * A single validation failure.
+ */
+export interface ValidationIssue {
+  /** Location of the failing value, e.g. 'pages[1].selector'. Empty for the document root. */
+  path: string;
+  /** Human readable description of the failure. */
+  message: string;
+}
+
+/** Filename of the publishers registry. */
+export const REGISTRY_FILENAME = "publishers.json";
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/** Compiled validators keyed by schema id. */
+const validators: Record<string, ValidateFunction> = {
+  [publisherConfigSchema.$id]: ajv.compile(publisherConfigSchema),
+  [publishersRegistrySchema.$id]: ajv.compile(publishersRegistrySchema),
+  [publisherTemplateSchema.$id]: ajv.compile(publisherTemplateSchema),
+};
+
+/**
+ * Resolves the schema id that applies to a data file.
+ *
+ * @param filename - The name of the file in the data directory.
+ * @returns The schema id for the file.
+ */
+export const getSchemaId = (filename: string): string =>
+  filename === REGISTRY_FILENAME
+    ? publishersRegistrySchema.$id
+    : isTemplateFilename(filename)
+    ? publisherTemplateSchema.$id
+    : publisherConfigSchema.$id;
+
+/**
+ * Converts a JSON Pointer (e.g. '/pages/1/selector') into a dotted path (e.g. 'pages[1].selector').
+ *
+ * @param pointer - The JSON Pointer to convert.
+ * @returns The dotted path.
+ */
+const pointerToPath = (pointer: string): string =>
+  pointer
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce(
+      (acc, segment) =>
+        /^\d+$/.test(segment)
+          ? `${acc}[${segment}]`
+          : acc
+          ? `${acc}.${segment}`
+          : segment,
+      ""
+    );
+
+/**
+ * Normalizes an Ajv error into a ValidationIssue.
+ * Missing properties are reported on the property itself rather than on its parent.
+ *
+ * @param error - The Ajv error object.
+ * @returns The normalized issue.
+ */
+const toIssue = (error: ErrorObject): ValidationIssue => {
+  const parentPath = pointerToPath(error.instancePath);
+
+  if (error.keyword === "required") {
+    const missing = (error.params as { missingProperty: string })
+      .missingProperty;
+    return {
+      path: parentPath ? `${parentPath}.${missing}` : missing,
+      message: "is required",
+    };
+  }
+
+  if (error.keyword === "pattern") {
+    return { path: parentPath, message: "has an invalid format" };
+  }
+
+  return { path: parentPath, message: error.message || "is invalid" };
+};
+
+/**
+ * Lists the reserved keys (e.g. '__proto__') anywhere in a document. JSON.parse keeps them as own
+ * properties, but copying or patching them would reach Object.prototype, so they are never stored.
+ *
+ * @param value - The parsed content.
+ * @param path - The dotted path of the value.
+ * @returns One issue per reserved key.
+ */
+const getReservedKeyIssues = (
+  value: unknown,
+  path: string = ""
+): ValidationIssue[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      getReservedKeyIssues(item, `${path}[${index}]`)
+    );
+  }
+  if (typeof value !== "object" || value === null) return [];
+
+  return Object.entries(value).flatMap(([key, item]) => {
+    const itemPath = path ? `${path}.${key}` : key;
+    return isUnsafeKey(key)
+      ? [{ path: itemPath, message: "is a reserved key" }]
+      : getReservedKeyIssues(item, itemPath);
+  });
+};
+
+/**
+ * Validates the content of a data file against its registered schema.
+ *
+ * @param filename - The name of the file being written.
+ * @param content - The parsed content to validate.
+ * @returns A list of validation issues (empty when the content is valid).
+ */
+export const validateContent = (
+  filename: string,
+  content: unknown
+): ValidationIssue[] => {
+  const reserved = getReservedKeyIssues(content);
+  if (reserved.length > 0) return reserved;
+
+  const validate = validators[getSchemaId(filename)];
+  if (validate(content)) return [];
+  return (validate.errors || []).map(toIssue);
+};
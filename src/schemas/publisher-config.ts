@@ -0,0 +1,55 @@
+/**
+ * Publisher Configuration Schema
+ *
+ * JSON Schema describing a single publisher configuration file (e.g. 'publisher-aurora.json').
+ * The required keys mirror the `requiredFields` list used by the editor; the known optional
+ * keys are typed so malformed values are caught, while unknown keys are still allowed.
+ */
+
+/** Matches absolute http(s) URLs used for dashboard links. */
+const URL_PATTERN = "^https?://\\S+$";
+
+export const publisherConfigSchema = {
+  $id: "publisher-config",
+  type: "object",
+  required: [
+    "publisherId",
+    "aliasName",
+    "pages",
+    "publisherDashboard",
+    "monitorDashboard",
+    "qaStatusDashboard",
+  ],
+  properties: {
+    publisherId: { type: "string", minLength: 1 },
+    aliasName: { type: "string", minLength: 1 },
+    pages: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["pageType", "selector", "position"],
+        properties: {
+          pageType: { type: "string", minLength: 1 },
+          selector: { type: "string", minLength: 1 },
+          position: { type: "string", minLength: 1 },
+        },
+      },
+    },
+    publisherDashboard: { type: "string", pattern: URL_PATTERN },
+    monitorDashboard: { type: "string", pattern: URL_PATTERN },
+    qaStatusDashboard: { type: "string", pattern: URL_PATTERN },
+    isActive: { type: "boolean" },
+    customCss: { type: "string" },
+    tags: { type: "array", items: { type: "string", minLength: 1 } },
+    allowedDomains: { type: "array", items: { type: "string", minLength: 1 } },
+    contactEmail: { type: "string", pattern: "^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$" },
+    defaultLanguage: { type: "string" },
+    lastUpdated: {
+      type: "string",
+      pattern:
+        "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})$",
+    },
+    notes: { type: "string" },
+  },
+  additionalProperties: true,
+};
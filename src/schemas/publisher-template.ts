@@ -0,0 +1,28 @@
+/**
+ * Publisher Template Schema
+ *
+ * JSON Schema describing a base template (e.g. 'template-base.json'). Templates hold partial
+ * configurations, so nothing is required: the known keys are typed like in a publisher configuration,
+ * and page entries only need the 'pageType' they are matched by. Publishers extending a template are
+ * validated on their merged configuration.
+ */
+
+import { publisherConfigSchema } from "./publisher-config.js";
+
+export const publisherTemplateSchema = {
+  $id: "publisher-template",
+  type: "object",
+  properties: {
+    ...publisherConfigSchema.properties,
+    extends: { type: "string", pattern: "^[a-z0-9][a-z0-9-]*$" },
+    pages: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["pageType"],
+        properties: publisherConfigSchema.properties.pages.items.properties,
+      },
+    },
+  },
+  additionalProperties: true,
+};
@@ -0,0 +1,29 @@
+/**
+ * Publishers Registry Schema
+ *
+ * JSON Schema describing 'publishers.json', the registry that maps publisher IDs
+ * and aliases to their configuration files. Archived publishers are kept in a separate list.
+ */
+
+/** Schema of a single registry entry. */
+const publisherEntrySchema = {
+  type: "object",
+  required: ["id", "alias", "file"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    alias: { type: "string", minLength: 1 },
+    file: { type: "string", pattern: "^[\\w.-]+\\.json$" },
+    archivedAt: { type: "string" },
+  },
+};
+
+export const publishersRegistrySchema = {
+  $id: "publishers-registry",
+  type: "object",
+  required: ["publishers"],
+  properties: {
+    publishers: { type: "array", items: publisherEntrySchema },
+    archived: { type: "array", items: publisherEntrySchema },
+  },
+  additionalProperties: false,
+};
@@ -0,0 +1,248 @@
+/**
+ * Configuration Search
+ *
+ * Finds publishers by the contents of their configurations, e.g. every publisher with a page in the
+ * sidebar or without custom CSS. Queries are predicates on dotted paths, joined with 'and':
+ *
+ *   pages[].position = sidebar and tags contains finance and customCss missing
+ *
+ * '[]' in a path matches every element of a list ('pages[0]' matches only the first). Values are parsed
+ * as JSON when possible ('true', '3', '"quoted"'), otherwise taken as text.
+ * Each configuration is flattened into its paths once per version and kept in memory.
+ */
+
+/** The comparisons a predicate can make. */
+export type SearchOperator = "=" | "!=" | "contains" | "exists" | "missing";
+
+/**
+ * A single condition of a search query.
+ */
+export interface SearchPredicate {
+  /** The dotted path, e.g. 'pages[].position'. */
+  path: string;
+  operator: SearchOperator;
+  /** The value to compare with ('=', '!=' and 'contains'). */
+  value?: unknown;
+}
+
+/**
+ * A value that satisfied a predicate.
+ */
+export interface SearchMatch {
+  /** The concrete path, e.g. 'pages[1].position'. For 'missing' predicates, the predicate's path. */
+  path: string;
+  /** The value at the path (omitted for 'missing' predicates). */
+  value?: unknown;
+}
+
+/**
+ * Raised when a search query cannot be parsed.
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+/**
+ * A value in a flattened configuration.
+ */
+interface IndexedValue {
+  /** The dotted path, e.g. 'pages[1].position'. */
+  path: string;
+  value: unknown;
+}
+
+const OPERATORS: SearchOperator[] = [
+  "=",
+  "!=",
+  "contains",
+  "exists",
+  "missing",
+];
+
+/** A dotted path: names separated by dots, each optionally followed by '[]' or '[N]'. */
+const PATH_PATTERN =
+  /^[A-Za-z_$][\w$-]*(\[\d*\])*(\.[A-Za-z_$][\w$-]*(\[\d*\])*)*$/;
+
+/**
+ * Parses a value typed in a query: JSON if it parses, otherwise the text itself.
+ */
+const parseValue = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Parses a search query.
+ *
+ * @param query - The query, e.g. 'pages[].position = sidebar and customCss exists'.
+ * @returns The predicates, all of which must hold.
+ * @throws {SearchQueryError} If the query is empty or a predicate is malformed.
+ */
+export const parseSearchQuery = (query: string): SearchPredicate[] => {
+  if (!query.trim()) {
+    throw new SearchQueryError("Search query must not be empty");
+  }
+
+  return query
+    .trim()
+    .split(/\s+and\s+/i)
+    .map((part) => {
+      const match =
+        part.match(/^(\S+?)\s*(!=|=)\s*(.*)$/) ||
+        part.match(/^(\S+)\s+(contains|exists|missing)(?:\s+(.*))?$/i);
+      if (!match) {
+        throw new SearchQueryError(
+          `Cannot read '${part}'. Use '<path> <${OPERATORS.join(
+            "|"
+          )}> [value]'.`
+        );
+      }
+
+      const [, path, rawOperator, rawValue] = match;
+      const operator = rawOperator.toLowerCase() as SearchOperator;
+      const text = (rawValue || "").trim();
+
+      if (!PATH_PATTERN.test(path)) {
+        throw new SearchQueryError(
+          `'${path}' is not a path. Use dotted names such as 'pages[].position'.`
+        );
+      }
+      if (operator === "exists" || operator === "missing") {
+        if (text) {
+          throw new SearchQueryError(`'${operator}' does not take a value`);
+        }
+        return { path, operator };
+      }
+      if (!text) {
+        throw new SearchQueryError(`'${path} ${operator}' needs a value`);
+      }
+      return { path, operator, value: parseValue(text) };
+    });
+};
+
+/**
+ * Lists every value in a document (objects and lists included) with its dotted path.
+ *
+ * @param value - The document or a value inside it.
+ * @param path - The path of the value (used for recursion).
+ * @returns The values, excluding the document root.
+ */
+const flatten = (value: unknown, path: string = ""): IndexedValue[] => {
+  const children: [string, unknown][] = Array.isArray(value)
+    ? value.map((item, index) => [`${path}[${index}]`, item])
+    : typeof value === "object" && value !== null
+    ? Object.entries(value).map(([key, item]) => [
+        path ? `${path}.${key}` : key,
+        item,
+      ])
+    : [];
+
+  return children.flatMap(([childPath, item]) => [
+    { path: childPath, value: item },
+    ...flatten(item, childPath),
+  ]);
+};
+
+/**
+ * Compiles a query path into a regular expression over concrete paths.
+ */
+const compilePath = (path: string) =>
+  new RegExp(
+    `^${path
+      .replace(/[.$]/g, (char) => `\\${char}`)
+      .replace(/\[\]/g, "\\[\\d+\\]")
+      .replace(/\[(\d+)\]/g, "\\[$1\\]")}$`
+  );
+
+/**
+ * Compares a value with a query value. Text is compared case-insensitively.
+ */
+const isEqual = (value: unknown, expected: unknown) =>
+  typeof value === "string" && typeof expected === "string"
+    ? value.toLowerCase() === expected.toLowerCase()
+    : JSON.stringify(value) === JSON.stringify(expected);
+
+/**
+ * Checks a 'contains' predicate: text containing the value, or a list with an element equal to it.
+ */
+const contains = (value: unknown, expected: unknown) =>
+  Array.isArray(value)
+    ? value.some((item) => isEqual(item, expected))
+    : typeof value === "string" &&
+      value.toLowerCase().includes(String(expected).toLowerCase());
+
+/**
+ * Flattened configurations, kept per file and version.
+ */
+export class SearchIndex {
+  private documents = new Map<
+    string,
+    { version: number; values: IndexedValue[] }
+  >();
+
+  /**
+   * Checks whether a file is indexed at a given version.
+   *
+   * @param file - The configuration file.
+   * @param version - Its latest version.
+   * @returns True if the index is up to date for the file.
+   */
+  isCurrent(file: string, version: number) {
+    return this.documents.get(file)?.version === version;
+  }
+
+  /**
+   * Indexes (or re-indexes) a configuration.
+   *
+   * @param file - The configuration file.
+   * @param version - The version of the content.
+   * @param content - The configuration.
+   */
+  update(file: string, version: number, content: unknown) {
+    this.documents.set(file, { version, values: flatten(content) });
+  }
+
+  /**
+   * Evaluates a query against an indexed configuration.
+   *
+   * @param file - The configuration file.
+   * @param predicates - The parsed query.
+   * @returns The values that satisfied the predicates, or null if the configuration does not match
+   * (or is not indexed).
+   */
+  match(file: string, predicates: SearchPredicate[]): SearchMatch[] | null {
+    const document = this.documents.get(file);
+    if (!document) return null;
+
+    const matches: SearchMatch[] = [];
+    for (const { path, operator, value } of predicates) {
+      const pattern = compilePath(path);
+      const candidates = document.values.filter((item) =>
+        pattern.test(item.path)
+      );
+
+      const satisfied =
+        operator === "missing"
+          ? candidates.length === 0
+            ? [{ path }]
+            : []
+          : candidates.filter(
+              (item) =>
+                operator === "exists" ||
+                (operator === "=" && isEqual(item.value, value)) ||
+                (operator === "!=" && !isEqual(item.value, value)) ||
+                (operator === "contains" && contains(item.value, value))
+            );
+
+      if (satisfied.length === 0) return null;
+      matches.push(...satisfied);
+    }
+    return matches;
+  }
+}
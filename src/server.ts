@@ -5,13 +5,92 @@
  * - Serving static assets (HTML, CSS, JS).
  * - Providing a REST API for reading and writing publisher configurations.
  * - Managing configuration version history.
+ * - Reviewing proposed changes to active publishers (change requests).
+ * - Autosaving each user's unsaved edits as drafts.
+ * - Applying one rule to many publishers at once (bulk edits), with a preview and rollback.
+ * - Searching the contents of all publisher configurations.
+ * - Checking the publishers registry against the configuration files.
+ * - Recording changes made to the data files outside the tool as versions.
+ * - Pushing saves, restores and registry changes to open browsers (Server-Sent Events).
+ * - Tracking who has which publisher open, with soft edit locks.
+ * - Keeping separate environments (e.g. dev, staging, prod) and promoting configurations between them.
+ * - Base templates that configurations extend, overriding only what differs.
+ * - Exporting configurations as YAML, a CSV of every publisher's pages and a ZIP bundle.
  */
 
 import express from "express";
 import path from "path";
-import { fileURLToPath } from "url";
 import fs from "fs/promises";
 import { existsSync } from "fs";
+import { fileURLToPath } from "url";
+import JSZip from "jszip";
+import {
+  REGISTRY_FILENAME,
+  ValidationIssue,
+  validateContent,
+} from "./schemas/index.js";
+import { Change, createPatch, getChanges } from "./diff.js";
+import { PatchError, applyJsonPatch, applyMergePatch } from "./patch.js";
+import { runExclusive } from "./write-queue.js";
+import {
+  ChangeDetails,
+  ConfigRepository,
+  ObservedRepository,
+  createRepository,
+} from "./repository/index.js";
+import { AuditFilter, AuditLog } from "./audit-log.js";
+import {
+  Role,
+  SessionStore,
+  UserError,
+  UserStore,
+  authenticate,
+  getSessionToken,
+  hasRole,
+  requireRole,
+  setSessionCookie,
+} from "./auth.js";
+import {
+  ChangeRequestError,
+  ChangeRequestStatus,
+  ChangeRequestStore,
+  toSummary,
+} from "./change-requests.js";
+import { DraftStore } from "./drafts.js";
+import {
+  BulkEditError,
+  BulkEditRule,
+  BulkEditStore,
+  BulkEditVersion,
+  applyBulkEditRule,
+  describeBulkEditRule,
+  parseBulkEditRule,
+} from "./bulk-edits.js";
+import { SearchIndex, SearchQueryError, parseSearchQuery } from "./search.js";
+import { checkRegistry, fixRegistryIssue } from "./registry-check.js";
+import { DataWatcher } from "./data-watcher.js";
+import { ChangeEvents } from "./events.js";
+import { PresenceTracker } from "./presence.js";
+import { Environments, parseEnvironmentNames } from "./environments.js";
+import {
+  DocumentLoader,
+  TemplateError,
+  getExtendedTemplate,
+  getTemplateChain,
+  getTemplateFilename,
+  getTemplateIssues,
+  getTemplateName,
+  isTemplateFilename,
+  isTemplateName,
+  resolveConfig,
+} from "./templates.js";
+import { ExportedPublisher, toPagesCsv, toYaml } from "./exports.js";
+import {
+  NewPublisherInput,
+  createStarterConfig,
+  getPublisherFilename,
+  getPublisherName,
+} from "./starter-config.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -21,7 +100,124 @@ const PORT = process.env.PORT || 3000;
 
 // Directory configuration
 const DATA_DIR = path.join(__dirname, "../data");
-const HISTORY_DIR = path.join(DATA_DIR, "history");
+
+// Event configuration: open browsers are told about every new version through Server-Sent Events
+const changeEvents = new ChangeEvents();
+
+// Storage configuration: 'filesystem' keeps loose JSON files in DATA_DIR, 'sqlite' an embedded database
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || "filesystem";
+
+/**
+ * Creates the repository of an environment. Its new versions are announced to open browsers.
+ *
+ * @param environment - The environment name.
+ * @param dataDir - The environment's data directory.
+ * @param sqlitePath - The environment's SQLite database (sqlite backend only).
+ * @returns The repository (not yet initialized).
+ */
+const createEnvironmentRepository = (
+  environment: string,
+  dataDir: string,
+  sqlitePath: string
+) =>
+  new ObservedRepository(
+    createRepository({
+      backend: STORAGE_BACKEND,
+      dataDir,
+      sqlitePath,
+      checkpointInterval: Number(process.env.HISTORY_CHECKPOINT_INTERVAL) || 10,
+    }),
+    (file, version, details, restoredFrom) =>
+      changeEvents.publish({
+        type:
+          file === REGISTRY_FILENAME
+            ? "registry"
+            : restoredFrom !== undefined
+            ? "restore"
+            : "save",
+        environment,
+        file,
+        version,
+        author: details.author,
+        message: details.message,
+        ...(restoredFrom !== undefined && { restoredFrom }),
+        ...(details.external && { external: true }),
+      })
+  );
+
+// Environment configuration: the first environment (default 'dev') is the working environment in DATA_DIR,
+// where everything is edited; the later ones live in ENVIRONMENTS_DIR and change only through promotion
+const ENVIRONMENTS_DIR =
+  process.env.ENVIRONMENTS_DIR || path.join(DATA_DIR, "environments");
+const environments = new Environments(
+  new Map(
+    parseEnvironmentNames(process.env.ENVIRONMENTS).map((name, index) => {
+      const dataDir =
+        index === 0 ? DATA_DIR : path.join(ENVIRONMENTS_DIR, name);
+      const sqlitePath =
+        index === 0 && process.env.SQLITE_PATH
+          ? process.env.SQLITE_PATH
+          : path.join(dataDir, "configurations.sqlite");
+      return [name, createEnvironmentRepository(name, dataDir, sqlitePath)];
+    })
+  )
+);
+
+/** The working environment's repository. Everything except reads of other environments and promotion uses it. */
+const repository = environments.get(environments.working) as ConfigRepository;
+
+// Audit configuration: an append-only JSONL file of every change, failed save and history read
+const auditLog = new AuditLog(
+  process.env.AUDIT_LOG_PATH || path.join(DATA_DIR, "audit", "audit.jsonl")
+);
+
+// Account configuration: users live outside DATA_DIR, so no data file route can reach them; sessions live in memory
+const users = new UserStore(
+  process.env.USERS_FILE || path.join(__dirname, "../auth/users.json")
+);
+
+/** Where accounts were stored before they moved out of DATA_DIR. Moved to the new location on startup. */
+const LEGACY_USERS_FILE = path.join(DATA_DIR, "auth", "users.json");
+const sessions = new SessionStore();
+
+// Review configuration: proposed changes to active publishers wait here until approved or rejected
+const changeRequests = new ChangeRequestStore(
+  process.env.CHANGE_REQUESTS_FILE ||
+    path.join(DATA_DIR, "review", "change-requests.json")
+);
+
+// Draft configuration: autosaved working copies, one file per user
+const drafts = new DraftStore(
+  process.env.DRAFTS_DIR || path.join(DATA_DIR, "drafts")
+);
+
+// Presence configuration: open editors send heartbeats; the first editor of a publisher holds its soft lock
+const presence = new PresenceTracker((publisherPresence) =>
+  changeEvents.publish({
+    type: "presence",
+    file: publisherPresence.file,
+    presence: publisherPresence,
+  })
+);
+
+// Bulk edit configuration: the versions created by each bulk edit, kept for rolling them back together
+const bulkEdits = new BulkEditStore(
+  process.env.BULK_EDITS_FILE || path.join(DATA_DIR, "bulk", "bulk-edits.json")
+);
+
+// Search configuration: publisher configurations flattened into paths, refreshed when their version changes
+const searchIndex = new SearchIndex();
+
+// Watch configuration: live files changed outside the server are recorded as versions. The SQLite backend
+// only imports from DATA_DIR once, so there is nothing to watch.
+const WATCH_DATA_DIR =
+  STORAGE_BACKEND !== "sqlite" && process.env.WATCH_DATA_DIR !== "false";
+
+/** Author recorded for versions of changes made outside the server. */
+const EXTERNAL_AUTHOR = "external";
+
+/** Live files changed outside the server that are not valid JSON, with the parse error. */
+const invalidFiles = new Map<string, string>();
 
 // Middleware: Serve static files from public directory
 app.use(express.static(path.join(__dirname, "../public")));
@@ -32,202 +228,2899 @@ app.use("/dist", express.static(path.join(__dirname, "../dist")));
 // Middleware: Serve static files from assets directory (images, etc.)
 app.use("/assets", express.static(path.join(__dirname, "../assets")));
 
-// Middleware: Parse JSON bodies for API requests
-app.use(express.json());
+/** Media types accepted by PATCH /api/publisher/:filename. */
+const JSON_PATCH_TYPE = "application/json-patch+json";
+const MERGE_PATCH_TYPE = "application/merge-patch+json";
+
+// Middleware: Parse JSON bodies (including JSON Patch documents) for API requests
+app.use(
+  express.json({
+    type: ["application/json", JSON_PATCH_TYPE, MERGE_PATCH_TYPE],
+  })
+);
+
+/**
+ * An entry in the publishers registry ('publishers.json').
+ */
+interface PublisherEntry {
+  id: string;
+  alias: string;
+  file: string;
+  /** ISO 8601 timestamp of when the publisher was archived (archived entries only). */
+  archivedAt?: string;
+}
+
+/**
+ * The publishers registry ('publishers.json').
+ */
+interface PublishersRegistry {
+  publishers: PublisherEntry[];
+  archived?: PublisherEntry[];
+}
+
+/**
+ * Formats a version number as a strong ETag value.
+ *
+ * @param version - The version number.
+ * @returns The quoted ETag, e.g. '"3"'.
+ */
+const toEtag = (version: number) => `"${version}"`;
+
+/**
+ * Checks an If-Match header against the current version of a file.
+ * Accepts '*', a single ETag or a comma separated list (weak validators are compared by value).
+ *
+ * @param ifMatch - The raw If-Match header value.
+ * @param version - The current version number.
+ * @returns True if the header matches the current version.
+ */
+const matchesEtag = (ifMatch: string, version: number) =>
+  ifMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === toEtag(version));
+
+/**
+ * Reads the change author and description sent with a write request.
+ * The author is the signed-in user; the X-Author header is only used for unauthenticated requests.
+ * Both headers are URI-encoded by the client so they can carry non-ASCII text.
+ *
+ * @param req - The incoming request.
+ * @param defaultMessage - The description to use when the client did not send one.
+ * @returns The change details.
+ */
+const getChangeDetails = (
+  req: express.Request,
+  defaultMessage: string = ""
+): ChangeDetails => {
+  const decode = (value?: string) => {
+    try {
+      return value ? decodeURIComponent(value).trim() : "";
+    } catch {
+      return value || "";
+    }
+  };
+
+  return {
+    author: req.user?.username || decode(req.get("X-Author")) || "anonymous",
+    message: decode(req.get("X-Change-Message")) || defaultMessage,
+  };
+};
+
+/**
+ * Reads the current content of a data file. A file changed outside the tool into invalid JSON reads as
+ * its latest version, so the broken content is never served or used as the base of a change.
+ *
+ * @param filename - The data filename.
+ * @param source - The environment's repository (the working environment by default).
+ * @returns The parsed content, or null if the file does not exist.
+ */
+const readCurrent = async <T = unknown>(
+  filename: string,
+  source: ConfigRepository = repository
+) =>
+  source === repository && invalidFiles.has(filename)
+    ? repository.getVersion<T>(
+        filename,
+        await repository.getLatestVersion(filename)
+      )
+    : source.get<T>(filename);
+
+/**
+ * Reads the content of a file at a given version.
+ *
+ * @param filename - The data filename.
+ * @param ref - A version number, or 'current' for the live file.
+ * @param source - The environment's repository (the working environment by default).
+ * @returns The parsed content, or null if the version does not exist.
+ */
+const readVersionContent = (
+  filename: string,
+  ref: string,
+  source: ConfigRepository = repository
+) =>
+  ref === "current"
+    ? readCurrent(filename, source)
+    : /^\d+$/.test(ref)
+    ? source.getVersion(filename, parseInt(ref, 10))
+    : Promise.resolve(null);
+
+/**
+ * Returns the environment a read targets: the 'env' query parameter, or the working environment.
+ *
+ * @param req - The request.
+ * @returns The environment name (not checked; see 'withEnvironment').
+ */
+const getEnvironmentName = (req: express.Request) =>
+  typeof req.query.env === "string" && req.query.env
+    ? req.query.env
+    : environments.working;
 
 /**
- * Scans the data directory for new configuration files and initializes their history.
+ * Returns the repository of the environment a read targets (see 'getEnvironmentName').
  *
- * If a new publisher JSON file is found in 'data/' but has no corresponding
- * history folder in 'data/history/', this function creates the history folder
- * and saves the current content as 'v1.json'.
+ * @param req - The request.
+ * @returns The repository; the working environment's for unknown environments.
+ */
+const getEnvironmentRepository = (req: express.Request) =>
+  environments.get(getEnvironmentName(req)) || repository;
+
+/**
+ * Middleware for routes that can read other environments through '?env=': rejects unknown
+ * environments (404). Routes without it always use the working environment.
+ */
+const withEnvironment: express.RequestHandler = (req, res, next) => {
+  const name = getEnvironmentName(req);
+  if (!environments.get(name)) {
+    return res.status(404).json({ error: `Unknown environment '${name}'` });
+  }
+  next();
+};
+
+/** Filenames the publisher, draft and presence routes accept (no path separators). */
+const DATA_FILENAME_PATTERN = /^[\w.-]+\.json$/;
+
+/**
+ * Middleware for routes with a ':filename' parameter: only publisher files in the registry (active or
+ * archived, in the working environment or the one named by '?env=') and templates can be addressed.
+ * Anything else, including 'publishers.json' and files outside the data folder, responds with 404.
  */
-const initializeHistory = async () => {
+const withPublisherFile: express.RequestHandler = async (req, res, next) => {
   try {
-    if (!existsSync(HISTORY_DIR)) {
-      await fs.mkdir(HISTORY_DIR, { recursive: true });
+    const { filename } = req.params;
+    const notFound = () =>
+      res.status(404).json({ error: "Publisher config not found" });
+    if (!DATA_FILENAME_PATTERN.test(filename) || filename.includes("..")) {
+      return notFound();
     }
+    if (isTemplateFilename(filename)) return next();
 
-    const files = await fs.readdir(DATA_DIR);
-    for (const file of files) {
-      if (path.extname(file) !== ".json") continue;
+    const sources = new Set([repository, getEnvironmentRepository(req)]);
+    for (const source of sources) {
+      const registry = await readRegistry(source);
+      const entries = [...registry.publishers, ...(registry.archived || [])];
+      if (entries.some((entry) => entry.file === filename)) return next();
+    }
+    notFound();
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to read publishers data" });
+  }
+};
 
-      const fileBaseName = path.parse(file).name;
-      const fileHistoryDir = path.join(HISTORY_DIR, fileBaseName);
+/**
+ * What a route wrote, for its audit record (set on 'res.locals.audit').
+ */
+interface AuditDetails {
+  /** The publisher file, when it is not the ':filename' route parameter. */
+  file?: string;
+  /** The version the request created. */
+  version?: number;
+  /** The registry version the request created. */
+  registryVersion?: number;
+  /** The environment of the versions, when it is not the '?env=' query parameter. */
+  environment?: string;
+}
 
-      if (!existsSync(fileHistoryDir)) {
-        console.log(`New file detected: ${file}. Initializing history...`);
-        const filePath = path.join(DATA_DIR, file);
+/**
+ * Creates middleware that appends an audit record once the response has been sent, for successful
+ * and failed requests alike. Routes report the versions they created through 'res.locals.audit';
+ * the changed paths and description are then taken from that version's metadata.
+ * Routes that write several files (bulk edits) report a list, and get one record per file.
+ *
+ * @param action - The action to record, e.g. 'update'.
+ * @returns The middleware.
+ */
+const audited =
+  (action: string): express.RequestHandler =>
+  (req, res, next) => {
+    // The socket may be closed by the time the response has finished
+    const timestamp = new Date().toISOString();
+    const ip = req.ip || "";
+    const { author, message } = getChangeDetails(req);
 
-        // Ensure it's a file
-        const stats = await fs.stat(filePath);
-        if (!stats.isFile()) continue;
+    // Capture the error message sent to the client
+    let error: string | undefined;
+    const json = res.json.bind(res);
+    res.json = (body?: { error?: unknown }) => {
+      if (typeof body?.error === "string") error = body.error;
+      return json(body);
+    };
 
-        const content = await fs.readFile(filePath, "utf-8");
+    res.on("finish", async () => {
+      const entries: AuditDetails[] = [res.locals.audit || {}].flat();
+      for (const details of entries) {
         try {
-          // Verify valid JSON
-          JSON.parse(content);
-
-          await fs.mkdir(fileHistoryDir, { recursive: true });
-          await fs.writeFile(
-            path.join(fileHistoryDir, "v1.json"),
-            content,
-            "utf-8"
-          );
+          const file = details.file || req.params.filename || "";
+          const environment = details.environment || getEnvironmentName(req);
+          const source = environments.get(environment) || repository;
+          const metadata =
+            details.version !== undefined
+              ? (await source.listVersions(file)).find(
+                  (item) => item.version === details.version
+                )
+              : undefined;
+          const success = res.statusCode < 400;
+
+          await auditLog.append({
+            timestamp,
+            actor: author,
+            action,
+            file,
+            ...(environment !== environments.working && { environment }),
+            ...(details.version !== undefined && { version: details.version }),
+            ...(details.registryVersion !== undefined && {
+              registryVersion: details.registryVersion,
+            }),
+            ...(metadata && { changedPaths: metadata.changedPaths }),
+            ...((metadata?.message || message) && {
+              message: metadata?.message || message,
+            }),
+            ip,
+            outcome: success ? "success" : "failure",
+            status: res.statusCode,
+            ...(!success && error && { error }),
+          });
         } catch (err) {
-          console.error(`Skipping invalid JSON ${file}:`, err);
+          console.error("Failed to write audit record:", err);
         }
       }
+    });
+
+    next();
+  };
+
+/**
+ * Reads the publishers registry.
+ *
+ * @param source - The environment's repository (the working environment by default).
+ * @returns The parsed registry.
+ */
+const readRegistry = async (
+  source: ConfigRepository = repository
+): Promise<PublishersRegistry> =>
+  (await readCurrent<PublishersRegistry>(REGISTRY_FILENAME, source)) || {
+    publishers: [],
+  };
+
+/**
+ * Checks whether a publisher file belongs to an archived publisher.
+ * Archived publishers are read-only until they are restored.
+ *
+ * @param filename - The data filename.
+ * @returns True if the publisher is archived.
+ */
+const isArchived = async (filename: string) =>
+  ((await readRegistry()).archived || []).some(
+    (entry) => entry.file === filename
+  );
+
+/**
+ * Resolves a configuration over its template chain (see templates.ts).
+ *
+ * @param filename - The data filename.
+ * @param content - The stored content.
+ * @param source - The environment's repository (the working environment by default).
+ * @returns The fully merged configuration.
+ * @throws {TemplateError} If the template chain cannot be resolved.
+ */
+const resolveContent = (
+  filename: string,
+  content: unknown,
+  source: ConfigRepository = repository
+) => resolveConfig(filename, content, (file) => readCurrent(file, source));
+
+/**
+ * Lists the configurations that extend a template, directly or through other templates.
+ *
+ * @param filename - The data filename (configurations that are not templates have no dependents).
+ * @param source - The environment's repository (the working environment by default).
+ * @param load - Reads documents while following template chains (default: their current content).
+ * @returns The dependent configurations with their current content.
+ */
+const getDependents = async (
+  filename: string,
+  source: ConfigRepository = repository,
+  load: DocumentLoader = (file) => readCurrent(file, source)
+) => {
+  const name = getTemplateName(filename);
+  const dependents: { file: string; content: unknown }[] = [];
+  if (name === null) return dependents;
+
+  for (const file of await source.list()) {
+    if (file === REGISTRY_FILENAME || isTemplateFilename(file)) continue;
+    const content = await readCurrent(file, source);
+    if ((await getTemplateChain(content, load)).includes(name)) {
+      dependents.push({ file, content });
     }
-  } catch (error) {
-    console.error("Initialization failed:", error);
   }
+  return dependents;
 };
 
 /**
- * GET /api/publishers
- * Retrieves the list of all publishers.
+ * Validates content before it is saved. Configurations extending a template are validated as merged.
+ * A template must keep every configuration that extends it (directly or through other templates)
+ * valid; issues found in those configurations name the file.
+ *
+ * @param filename - The data filename.
+ * @param content - The content about to be saved.
+ * @param source - The environment's repository (the working environment by default).
+ * @returns The validation issues (empty when the content is valid).
+ */
+const validateConfig = async (
+  filename: string,
+  content: unknown,
+  source: ConfigRepository = repository
+): Promise<ValidationIssue[]> => {
+  if (filename === REGISTRY_FILENAME) return validateContent(filename, content);
+
+  // Resolve against the new content, as if it was already saved
+  const load = (file: string) =>
+    file === filename ? Promise.resolve(content) : readCurrent(file, source);
+  const resolve = async (file: string, document: unknown) => {
+    try {
+      return { resolved: await resolveConfig(file, document, load) };
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      return { issue: { path: "extends", message: error.message } };
+    }
+  };
+
+  if (!isTemplateFilename(filename)) {
+    const { resolved, issue } = await resolve(filename, content);
+    return issue ? [issue] : validateContent(filename, resolved);
+  }
+
+  const issues = [
+    ...getTemplateIssues(content),
+    ...validateContent(filename, content),
+  ];
+  const { issue } = await resolve(filename, content);
+  if (issue) issues.push(issue);
+  if (issues.length > 0) return issues;
+
+  for (const { file, content: dependent } of await getDependents(
+    filename,
+    source,
+    load
+  )) {
+    const result = await resolve(file, dependent);
+    const fileIssues = result.issue
+      ? [result.issue]
+      : validateContent(file, result.resolved);
+    fileIssues.forEach((item) =>
+      issues.push({ path: item.path, message: `${item.message} (in ${file})` })
+    );
+  }
+  return issues;
+};
+
+/** Response body for writes to archived publishers. */
+const ARCHIVED_ERROR = {
+  error: "Publisher is archived. Restore it before editing.",
+};
+
+/**
+ * Checks whether a configuration is active.
+ *
+ * @param content - The configuration content.
+ */
+const isActiveConfig = (content: unknown) =>
+  (content as { isActive?: unknown } | null)?.isActive === true;
+
+/**
+ * Checks whether a change must go through a change request instead of being saved directly.
+ * Changes to active publishers, and changes that activate a publisher, go live only after review.
+ * So do changes to templates that an active publisher inherits from, as they change what it resolves to.
+ *
+ * @param filename - The data filename.
+ * @param current - The live content.
+ * @param next - The content about to be saved.
+ * @returns True if the change needs an approved change request.
+ */
+const requiresReview = async (
+  filename: string,
+  current: unknown,
+  next: unknown
+) =>
+  [current, next].some(isActiveConfig) ||
+  (await getDependents(filename)).some(({ content }) =>
+    isActiveConfig(content)
+  );
+
+/** Response body for direct writes that need a change request. */
+const REVIEW_REQUIRED_ERROR = {
+  error:
+    "Active publishers and the templates they extend can only be changed through a change request",
+  reviewRequired: true,
+};
+
+/**
+ * Sends a UserError, ChangeRequestError or BulkEditError as its HTTP status, or a generic 500 response.
+ *
+ * @param res - The response.
+ * @param error - The caught error.
+ * @param fallback - The message for unexpected errors.
+ */
+const sendUserError = (
+  res: express.Response,
+  error: unknown,
+  fallback: string
+) => {
+  if (
+    error instanceof UserError ||
+    error instanceof ChangeRequestError ||
+    error instanceof BulkEditError
+  ) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(error);
+  res.status(500).json({ error: fallback });
+};
+
+/**
+ * POST /api/auth/login
+ * Signs a user in and sets the session cookie.
  *
- * @returns {Array} List of publisher objects.
+ * @body {Object} The 'username' and 'password'.
+ * @returns {Object} The signed-in user. Responds with 401 for unknown users or wrong passwords.
  */
-app.get("/api/publishers", async (_req, res) => {
+app.post("/api/auth/login", async (req, res) => {
   try {
-    const dataPath = path.join(DATA_DIR, "publishers.json");
-    const data = await fs.readFile(dataPath, "utf-8");
-    res.json(JSON.parse(data));
+    const { username, password } = req.body || {};
+    const user =
+      typeof username === "string" && typeof password === "string"
+        ? await users.authenticate(username, password)
+        : null;
+
+    if (!user) {
+      return res.status(401).json({ error: "Invalid username or password" });
+    }
+
+    setSessionCookie(req, res, sessions.create(user.username));
+    res.json(user);
   } catch (error) {
-    res.status(500).json({ error: "Failed to read publishers data" });
+    console.error(error);
+    res.status(500).json({ error: "Failed to sign in" });
   }
 });
 
 /**
- * GET /api/publisher/:filename
- * Retrieves a specific publisher configuration by filename.
+ * POST /api/auth/logout
+ * Ends the current session and clears the session cookie.
+ */
+app.post("/api/auth/logout", (req, res) => {
+  sessions.destroy(getSessionToken(req));
+  setSessionCookie(req, res, "");
+  res.json({ success: true });
+});
+
+// Every other API route requires a signed-in user
+app.use("/api", authenticate(users, sessions));
+
+/**
+ * GET /api/auth/me
+ * Returns the signed-in user.
  *
- * @param {string} filename - The name of the file (e.g., 'publisher-aurora.json').
- * @returns {Object} The publisher configuration object.
+ * @returns {Object} The user's username, role and creation date.
+ */
+app.get("/api/auth/me", (req, res) => {
+  res.json(req.user);
+});
+
+/**
+ * GET /api/users
+ * Lists the user accounts (admins only).
+ *
+ * @returns {Array<Object>} The users, without password hashes.
  */
-app.get("/api/publisher/:filename", async (req, res) => {
+app.get("/api/users", requireRole("admin"), async (_req, res) => {
   try {
-    const { filename } = req.params;
-    const dataPath = path.join(DATA_DIR, filename);
-    const data = await fs.readFile(dataPath, "utf-8");
-    res.json(JSON.parse(data));
+    res.json(await users.list());
   } catch (error) {
-    res.status(404).json({ error: "Publisher config not found" });
+    sendUserError(res, error, "Failed to list users");
   }
 });
 
 /**
- * PUT /api/publisher/:filename
- * Updates a specific publisher configuration and saves a new history version.
+ * POST /api/users
+ * Creates a user account (admins only).
  *
- * @param {string} filename - The name of the file to update.
- * @body {Object} The new configuration content.
- * @returns {Object} Success status and the new version number.
+ * @body {Object} The 'username', 'password' and 'role' ('viewer', 'editor' or 'admin').
+ * @returns {Object} The new user. Responds with 201 on success, 409 when the username is taken
+ * and 422 when a field is invalid.
  */
-app.put("/api/publisher/:filename", async (req, res) => {
+app.post("/api/users", requireRole("admin"), async (req, res) => {
   try {
-    const { filename } = req.params;
-    const dataPath = path.join(DATA_DIR, filename);
-    const fileBaseName = path.parse(filename).name;
-    const fileHistoryDir = path.join(HISTORY_DIR, fileBaseName);
+    const { username, password, role } = req.body || {};
+    const user = await users.create(
+      String(username ?? ""),
+      String(password ?? ""),
+      role
+    );
+    res.status(201).json(user);
+  } catch (error) {
+    sendUserError(res, error, "Failed to create user");
+  }
+});
+
+/**
+ * PATCH /api/users/:username
+ * Changes a user's role and/or password (admins only). Changing the password signs the user out everywhere.
+ *
+ * @param {string} username - The user to change.
+ * @body {Object} The new 'role' and/or 'password'.
+ * @returns {Object} The updated user. Responds with 409 when the change would leave no admin.
+ */
+app.patch("/api/users/:username", requireRole("admin"), async (req, res) => {
+  try {
+    const { role, password } = req.body || {};
+    const user = await users.update(req.params.username, {
+      ...(role !== undefined && { role: role as Role }),
+      ...(password !== undefined && { password: String(password) }),
+    });
+    if (password !== undefined) sessions.destroyForUser(user.username);
+    res.json(user);
+  } catch (error) {
+    sendUserError(res, error, "Failed to update user");
+  }
+});
+
+/**
+ * DELETE /api/users/:username
+ * Deletes a user account and ends its sessions (admins only).
+ *
+ * @param {string} username - The user to delete.
+ * @returns {Object} Success status. Responds with 409 when deleting the last admin.
+ */
+app.delete("/api/users/:username", requireRole("admin"), async (req, res) => {
+  try {
+    await users.remove(req.params.username);
+    sessions.destroyForUser(req.params.username);
+    res.json({ success: true });
+  } catch (error) {
+    sendUserError(res, error, "Failed to delete user");
+  }
+});
 
-    // Ensure history dir exists
-    if (!existsSync(fileHistoryDir)) {
-      await fs.mkdir(fileHistoryDir, { recursive: true });
+/**
+ * GET /api/publishers
+ * Retrieves the list of all publishers.
+ *
+ * @query {string} env - The environment (default: the working environment).
+ * @returns {Object} The registry: active 'publishers' and 'archived' publishers.
+ */
+app.get(
+  "/api/publishers",
+  requireRole("viewer"),
+  withEnvironment,
+  async (req, res) => {
+    try {
+      res.json(await readRegistry(getEnvironmentRepository(req)));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to read publishers data" });
     }
+  }
+);
+
+/**
+ * POST /api/publishers
+ * Onboards a new publisher: creates its configuration file from the starter template,
+ * registers it in 'publishers.json' and records version history for both files.
+ *
+ * @body {Object} The new publisher's id, alias, dashboard URLs and optional initial pages.
+ * @returns {Object} The new registry entry. Responds with 201 on success,
+ * 409 when the id, alias or file already exists and 422 when the details fail validation.
+ */
+app.post(
+  "/api/publishers",
+  audited("create"),
+  requireRole("admin"),
+  async (req, res) => {
+    try {
+      const input = req.body as NewPublisherInput;
+      const id = typeof input.id === "string" ? input.id.trim() : "";
+      const alias = typeof input.alias === "string" ? input.alias.trim() : "";
 
-    // Determine next version from history files
-    const files = await fs.readdir(fileHistoryDir);
-    const versions = files
-      .filter((f) => f.startsWith("v") && f.endsWith(".json"))
-      .map((f) => parseInt(f.replace("v", "").replace(".json", ""), 10));
+      // The id without its 'pub-' prefix names the file, so 'pub-' alone would give 'publisher-.json'
+      const idIssue = !/^[a-z0-9][a-z0-9-]*$/.test(id)
+        ? "must contain only lowercase letters, digits and dashes"
+        : !getPublisherName(id)
+        ? "must have a name after the 'pub-' prefix"
+        : null;
 
-    const maxVersion = versions.length > 0 ? Math.max(...versions) : 0;
-    const newVersion = maxVersion + 1;
+      const inputIssues = [
+        ...(idIssue ? [{ path: "id", message: idIssue }] : []),
+        ...(alias ? [] : [{ path: "alias", message: "is required" }]),
+        // Default pages are only used when 'pages' is left out, never in place of a bad value
+        ...(input.pages === undefined ||
+        (Array.isArray(input.pages) && input.pages.length > 0)
+          ? []
+          : [{ path: "pages", message: "must be a non-empty array" }]),
+      ];
+      if (inputIssues.length > 0) {
+        return res.status(422).json({
+          error: "Publisher details are invalid",
+          details: inputIssues,
+        });
+      }
 
-    // Prepare content: Remove 'version' field if present in request body
-    const newContent = { ...req.body };
+      const file = getPublisherFilename(id);
+      res.locals.audit = { file };
+      const config = createStarterConfig({ ...input, id, alias });
+      const configIssues = validateContent(file, config);
+      if (configIssues.length > 0) {
+        return res.status(422).json({
+          error: "Publisher details are invalid",
+          details: configIssues,
+        });
+      }
 
-    // Save main file
-    await fs.writeFile(dataPath, JSON.stringify(newContent, null, 2), "utf-8");
+      // The registry queue guards the uniqueness check until the new entry is written
+      await runExclusive(REGISTRY_FILENAME, async () => {
+        const registry = await readRegistry();
+        const { publishers } = registry;
 
-    // Save history
-    await fs.writeFile(
-      path.join(fileHistoryDir, `v${newVersion}.json`),
-      JSON.stringify(newContent, null, 2),
-      "utf-8"
-    );
+        // Archived publishers keep their id, alias and file so they can be restored later
+        const duplicate = [...publishers, ...(registry.archived || [])].find(
+          (p) =>
+            p.id.toLowerCase() === id.toLowerCase() ||
+            p.alias.toLowerCase() === alias.toLowerCase() ||
+            p.file === file
+        );
+        if (duplicate || (await readCurrent(file)) !== null) {
+          return res.status(409).json({
+            error: duplicate
+              ? `Publisher '${duplicate.id}' already uses this id, alias or file`
+              : `File '${file}' already exists`,
+          });
+        }
 
-    res.json({ success: true, version: newVersion });
-  } catch (error) {
-    res.status(500).json({ error: "Failed to save publisher config" });
+        const entry: PublisherEntry = { id, alias, file };
+        const details = getChangeDetails(req, `Created publisher ${id}`);
+
+        // Write the config before registering it, so the registry never points to a missing file
+        const version = await runExclusive(file, () =>
+          repository.save(file, config, details)
+        );
+        const registryVersion = await repository.save(
+          REGISTRY_FILENAME,
+          { ...registry, publishers: [...publishers, entry] },
+          details
+        );
+        res.locals.audit = { file, version, registryVersion };
+
+        res.status(201).json({ success: true, publisher: entry });
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to create publisher" });
+    }
   }
-});
+);
 
 /**
- * GET /api/publisher/:filename/versions
- * Retrieves simple list of available versions for a publisher.
+ * GET /api/templates
+ * Lists the base templates, each with the template it extends and the configurations that extend it
+ * directly.
  *
- * @param {string} filename - The publisher filename.
- * @returns {Array<number>} List of version numbers (descending).
+ * @query {string} env - The environment (default: the working environment).
+ * @returns {Array} The templates, sorted by name.
  */
-app.get("/api/publisher/:filename/versions", async (req, res) => {
-  try {
-    const { filename } = req.params;
-    const fileBaseName = path.parse(filename).name;
-    const fileHistoryDir = path.join(HISTORY_DIR, fileBaseName);
+app.get(
+  "/api/templates",
+  requireRole("viewer"),
+  withEnvironment,
+  async (req, res) => {
+    try {
+      const source = getEnvironmentRepository(req);
+      const contents = new Map<string, unknown>();
+      for (const file of await source.list()) {
+        if (file === REGISTRY_FILENAME) continue;
+        contents.set(file, await readCurrent(file, source));
+      }
 
-    if (!existsSync(fileHistoryDir)) {
-      return res.json([]);
+      const templates = [...contents.keys()]
+        .filter(isTemplateFilename)
+        .sort()
+        .map((file) => {
+          const name = getTemplateName(file) as string;
+          return {
+            name,
+            file,
+            extends: getExtendedTemplate(contents.get(file)),
+            usedBy: [...contents.entries()]
+              .filter(([, content]) => getExtendedTemplate(content) === name)
+              .map(([other]) => other),
+          };
+        });
+      res.json(templates);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to read templates" });
     }
+  }
+);
 
-    const files = await fs.readdir(fileHistoryDir);
-    const versions = files
-      .filter((f) => f.startsWith("v") && f.endsWith(".json"))
-      .map((f) => parseInt(f.replace("v", "").replace(".json", ""), 10))
-      .sort((a, b) => b - a); // Descending order
+/**
+ * POST /api/templates
+ * Creates a base template. Templates are then read and edited like publisher configurations, through
+ * the /api/publisher/template-<name>.json routes.
+ *
+ * @body {Object} The template 'name' and its initial 'content' (default: empty).
+ * @returns {Object} The new template's name, file and version. Responds with 201 on success,
+ * 409 when the template already exists and 422 when the name or content is invalid.
+ */
+app.post(
+  "/api/templates",
+  audited("create-template"),
+  requireRole("admin"),
+  async (req, res) => {
+    try {
+      const { name, content = {} } = req.body || {};
+      if (!isTemplateName(name)) {
+        return res.status(422).json({
+          error: "Template details are invalid",
+          details: [
+            {
+              path: "name",
+              message: "must contain only lowercase letters, digits and dashes",
+            },
+          ],
+        });
+      }
 
-    res.json(versions);
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: "Failed to fetch versions" });
+      const file = getTemplateFilename(name);
+      res.locals.audit = { file };
+      const issues = await validateConfig(file, content);
+      if (issues.length > 0) {
+        return res
+          .status(422)
+          .json({ error: "Template failed validation", details: issues });
+      }
+
+      await runExclusive(file, async () => {
+        if ((await readCurrent(file)) !== null) {
+          return res
+            .status(409)
+            .json({ error: `Template '${name}' already exists` });
+        }
+
+        const version = await repository.save(
+          file,
+          content,
+          getChangeDetails(req, `Created template ${name}`)
+        );
+        res.locals.audit = { file, version };
+        res
+          .status(201)
+          .json({ success: true, template: { name, file, version } });
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to create template" });
+    }
   }
-});
+);
 
 /**
- * GET /api/publisher/:filename/versions/:version
- * Retrieves the content of a specific version.
+ * GET /api/publisher/:filename
+ * Retrieves a specific publisher configuration by filename.
  *
- * @param {string} filename - The publisher filename.
- * @param {string} version - The version number.
- * @returns {Object} The configuration content for that version.
+ * @param {string} filename - The name of the file (e.g., 'publisher-aurora.json').
+ * @query {string} env - The environment (default: the working environment).
+ * @query {string} resolved - 'true' to merge the configuration over its templates.
+ * @returns {Object} The publisher configuration object, with its version in the ETag header.
+ * When the file was changed outside the tool and is not valid JSON, the latest version is returned
+ * instead and the URI-encoded parse error is sent in the X-Invalid-Json header.
+ * Files that are only changed through change requests (active publishers and the templates they
+ * extend) are marked with the X-Review-Required header.
+ * Responds with 422 when the configuration cannot be resolved (e.g. its template does not exist).
  */
-app.get("/api/publisher/:filename/versions/:version", async (req, res) => {
-  try {
-    const { filename, version } = req.params;
-    const fileBaseName = path.parse(filename).name;
-    const versionFile = path.join(
-      HISTORY_DIR,
-      fileBaseName,
-      `v${version}.json`
-    );
+app.get(
+  "/api/publisher/:filename",
+  requireRole("viewer"),
+  withEnvironment,
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const source = getEnvironmentRepository(req);
+      const content = await readCurrent(filename, source);
+      if (content === null) {
+        return res.status(404).json({ error: "Publisher config not found" });
+      }
+      const invalid = source === repository && invalidFiles.get(filename);
+      if (invalid) res.set("X-Invalid-Json", encodeURIComponent(invalid));
+      if (
+        source === repository &&
+        (await requiresReview(filename, content, content))
+      ) {
+        res.set("X-Review-Required", "true");
+      }
+      res.set("ETag", toEtag(await source.getLatestVersion(filename)));
+      res.set("Accept-Patch", `${JSON_PATCH_TYPE}, ${MERGE_PATCH_TYPE}`);
+      if (req.query.resolved !== "true") return res.json(content);
 
-    if (!existsSync(versionFile)) {
-      return res.status(404).json({ error: "Version not found" });
+      try {
+        res.json(await resolveContent(filename, content, source));
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        res.status(422).json({ error: error.message });
+      }
+    } catch (error) {
+      res.status(404).json({ error: "Publisher config not found" });
     }
+  }
+);
 
-    const content = await fs.readFile(versionFile, "utf-8");
-    res.json(JSON.parse(content));
-  } catch (error) {
-    console.error(error);
-    res.status(500).json({ error: "Failed to fetch version content" });
+/**
+ * GET /api/publisher/:filename/export.yaml
+ * Downloads a configuration as YAML, for reviewing it outside the tool.
+ *
+ * @param {string} filename - The name of the file (e.g., 'publisher-aurora.json').
+ * @query {string} env - The environment (default: the working environment).
+ * @query {string} resolved - 'true' to merge the configuration over its templates.
+ * @returns {string} The YAML document, as an attachment named after the file.
+ * Responds with 404 when the file does not exist and 422 when it cannot be resolved.
+ */
+app.get(
+  "/api/publisher/:filename/export.yaml",
+  audited("export-config"),
+  requireRole("viewer"),
+  withEnvironment,
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const source = getEnvironmentRepository(req);
+      const content = await readCurrent(filename, source);
+      if (content === null) {
+        return res.status(404).json({ error: "Publisher config not found" });
+      }
+
+      const exported =
+        req.query.resolved === "true"
+          ? await resolveContent(filename, content, source)
+          : content;
+      res.attachment(filename.replace(/\.json$/, ".yaml"));
+      res.type("application/yaml");
+      res.send(toYaml(exported));
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error(error);
+      res.status(500).json({ error: "Failed to export publisher config" });
+    }
   }
-});
+);
+
+/**
+ * GET /api/exports/pages.csv
+ * Downloads one row per page of every publisher (active and archived) for spreadsheets. Pages are read
+ * from the resolved configurations, so inherited pages are included.
+ *
+ * @query {string} env - The environment (default: the working environment).
+ * @returns {string} The CSV file, as an attachment.
+ */
+app.get(
+  "/api/exports/pages.csv",
+  audited("export-pages"),
+  requireRole("viewer"),
+  withEnvironment,
+  async (req, res) => {
+    try {
+      const source = getEnvironmentRepository(req);
+      const registry = await readRegistry(source);
+      const entries = [
+        ...registry.publishers.map((entry) => ({ entry, archived: false })),
+        ...(registry.archived || []).map((entry) => ({
+          entry,
+          archived: true,
+        })),
+      ];
+
+      const publishers: ExportedPublisher[] = [];
+      for (const { entry, archived } of entries) {
+        const content = await readCurrent(entry.file, source);
+        let config = content;
+        try {
+          config = await resolveContent(entry.file, content, source);
+        } catch (error) {
+          // A broken template chain still exports the publisher's own pages
+          if (!(error instanceof TemplateError)) throw error;
+        }
+        publishers.push({ file: entry.file, archived, config });
+      }
+
+      res.attachment(`publisher-pages-${getEnvironmentName(req)}.csv`);
+      res.type("text/csv; charset=utf-8");
+      res.send(toPagesCsv(publishers));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to export pages" });
+    }
+  }
+);
+
+/**
+ * GET /api/exports/bundle.zip
+ * Downloads a ZIP archive of every configuration file, template and 'publishers.json', for handing the
+ * configurations to other teams.
+ *
+ * @query {string} env - The environment (default: the working environment).
+ * @query {string} resolved - 'true' to export the configurations merged over their templates (the
+ * templates themselves are then left out).
+ * @returns {Buffer} The ZIP archive, as an attachment.
+ * Responds with 422 when a configuration cannot be resolved.
+ */
+app.get(
+  "/api/exports/bundle.zip",
+  audited("export-bundle"),
+  requireRole("viewer"),
+  withEnvironment,
+  async (req, res) => {
+    try {
+      const source = getEnvironmentRepository(req);
+      const resolved = req.query.resolved === "true";
+
+      const zip = new JSZip();
+      for (const file of (await source.list()).sort()) {
+        if (resolved && isTemplateFilename(file)) continue;
+        const content = await readCurrent(file, source);
+        if (content === null) continue;
+
+        let exported: unknown = content;
+        if (resolved && file !== REGISTRY_FILENAME) {
+          try {
+            exported = await resolveContent(file, content, source);
+          } catch (error) {
+            if (!(error instanceof TemplateError)) throw error;
+            return res
+              .status(422)
+              .json({ error: `Cannot resolve ${file}: ${error.message}` });
+          }
+        }
+        zip.file(file, `${JSON.stringify(exported, null, 2)}\n`);
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      res.attachment(
+        `publisher-configs-${getEnvironmentName(req)}-${date}.zip`
+      );
+      res.type("application/zip");
+      res.send(
+        await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" })
+      );
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to export configurations" });
+    }
+  }
+);
+
+/**
+ * PUT /api/publisher/:filename
+ * Updates a specific publisher configuration and saves a new history version.
+ *
+ * @param {string} filename - The name of the file to update.
+ * @header {string} If-Match - The ETag of the version the edit started from.
+ * @header {string} X-Author - URI-encoded name of the editor.
+ * @header {string} X-Change-Message - URI-encoded description of the change.
+ * @body {Object} The new configuration content.
+ * @returns {Object} Success status and the new version number.
+ * Responds with 404 when the file does not exist (files are created through POST /api/publishers and
+ * POST /api/templates), 428 when If-Match is missing, 409 with the current server copy when it is stale
+ * (or when the publisher is archived, or active and therefore changed through change requests),
+ * and 422 with the list of failing paths when the content does not match its schema.
+ */
+app.put(
+  "/api/publisher/:filename",
+  audited("update"),
+  requireRole("editor"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+
+      // New publishers and templates are only created through their own (admin) endpoints
+      if ((await readCurrent(filename)) === null) {
+        return res.status(404).json({ error: "Publisher config not found" });
+      }
+
+      if (await isArchived(filename)) {
+        return res.status(409).json(ARCHIVED_ERROR);
+      }
+
+      // Reject content that does not match the file's schema
+      const issues = await validateConfig(filename, req.body);
+      if (issues.length > 0) {
+        return res
+          .status(422)
+          .json({ error: "Configuration failed validation", details: issues });
+      }
+
+      // Reject saves that were not based on the latest version
+      const ifMatch = req.get("If-Match");
+      if (!ifMatch) {
+        return res
+          .status(428)
+          .json({ error: "If-Match header is required to save changes" });
+      }
+
+      // Check the version and write under the file's write queue so concurrent saves cannot interleave
+      await runExclusive(filename, async () => {
+        const maxVersion = await repository.getLatestVersion(filename);
+        if (!matchesEtag(ifMatch, maxVersion)) {
+          const current = await readCurrent(filename);
+          return res.status(409).set("ETag", toEtag(maxVersion)).json({
+            error: "Configuration was modified by someone else",
+            version: maxVersion,
+            current,
+          });
+        }
+
+        // Prepare content: Remove 'version' field if present in request body
+        const newContent = { ...req.body };
+
+        if (
+          await requiresReview(
+            filename,
+            await readCurrent(filename),
+            newContent
+          )
+        ) {
+          return res.status(409).json(REVIEW_REQUIRED_ERROR);
+        }
+
+        const newVersion = await repository.save(
+          filename,
+          newContent,
+          getChangeDetails(req)
+        );
+
+        // The saved edits supersede the editor's autosaved draft
+        if (req.user) await drafts.remove(req.user.username, filename);
+
+        res.locals.audit = { version: newVersion };
+        res.set("ETag", toEtag(newVersion));
+        res.json({ success: true, version: newVersion });
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save publisher config" });
+    }
+  }
+);
+
+/**
+ * PATCH /api/publisher/:filename
+ * Applies a partial update to a publisher configuration and saves a new history version.
+ * The patch is applied to the latest saved version and the result is validated before anything is written.
+ *
+ * @param {string} filename - The name of the file to update.
+ * @header {string} Content-Type - 'application/json-patch+json' (RFC 6902) or 'application/merge-patch+json' (RFC 7396).
+ * @header {string} If-Match - Optional. When present, the patch is only applied to that version.
+ * @header {string} X-Author - URI-encoded name of the editor.
+ * @header {string} X-Change-Message - URI-encoded description of the change.
+ * @body {Array|Object} The patch document.
+ * @returns {Object} Success status and the new version number.
+ * Responds with 415 for other content types, 400 for malformed patches, 409 when the patch does not apply
+ * (or If-Match is stale, or the publisher is archived or active) and 422 when the result does not match the schema.
+ */
+app.patch(
+  "/api/publisher/:filename",
+  audited("patch"),
+  requireRole("editor"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const isJsonPatch = req.is(JSON_PATCH_TYPE);
+      const isMergePatch = req.is(MERGE_PATCH_TYPE);
+
+      if (!isJsonPatch && !isMergePatch) {
+        return res
+          .status(415)
+          .set("Accept-Patch", `${JSON_PATCH_TYPE}, ${MERGE_PATCH_TYPE}`)
+          .json({ error: "Unsupported patch format" });
+      }
+
+      if ((await readCurrent(filename)) === null) {
+        return res.status(404).json({ error: "Publisher config not found" });
+      }
+
+      if (await isArchived(filename)) {
+        return res.status(409).json(ARCHIVED_ERROR);
+      }
+
+      // Read, patch and write under the file's write queue so concurrent saves cannot interleave
+      await runExclusive(filename, async () => {
+        const maxVersion = await repository.getLatestVersion(filename);
+        const ifMatch = req.get("If-Match");
+        if (ifMatch && !matchesEtag(ifMatch, maxVersion)) {
+          return res.status(409).set("ETag", toEtag(maxVersion)).json({
+            error: "Configuration was modified by someone else",
+            version: maxVersion,
+          });
+        }
+
+        const current = await readCurrent(filename);
+        const patched = isJsonPatch
+          ? applyJsonPatch(current, req.body)
+          : applyMergePatch(current, req.body);
+
+        const issues = await validateConfig(filename, patched);
+        if (issues.length > 0) {
+          return res.status(422).json({
+            error: "Configuration failed validation",
+            details: issues,
+          });
+        }
+
+        if (await requiresReview(filename, current, patched)) {
+          return res.status(409).json(REVIEW_REQUIRED_ERROR);
+        }
+
+        const newVersion = await repository.save(
+          filename,
+          patched,
+          getChangeDetails(
+            req,
+            isJsonPatch ? "Applied JSON Patch" : "Applied JSON Merge Patch"
+          )
+        );
+
+        res.locals.audit = { version: newVersion };
+        res.set("ETag", toEtag(newVersion));
+        res.json({ success: true, version: newVersion });
+      });
+    } catch (error) {
+      if (error instanceof PatchError) {
+        return res
+          .status(error.reason === "invalid" ? 400 : 409)
+          .json({ error: error.message });
+      }
+      console.error(error);
+      res.status(500).json({ error: "Failed to patch publisher config" });
+    }
+  }
+);
+
+/**
+ * GET /api/publisher/:filename/versions
+ * Retrieves the available versions for a publisher with their metadata.
+ *
+ * @param {string} filename - The publisher filename.
+ * @query {string} env - The environment (default: the working environment).
+ * @returns {Array<Object>} Version metadata (author, timestamp, message, changed paths), newest first.
+ */
+app.get(
+  "/api/publisher/:filename/versions",
+  audited("read-versions"),
+  requireRole("viewer"),
+  withEnvironment,
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      res.json(await getEnvironmentRepository(req).listVersions(filename));
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to fetch versions" });
+    }
+  }
+);
+
+/**
+ * GET /api/publisher/:filename/versions/:version
+ * Retrieves the content of a specific version.
+ *
+ * @param {string} filename - The publisher filename.
+ * @param {string} version - The version number.
+ * @query {string} env - The environment (default: the working environment).
+ * @returns {Object} The configuration content for that version.
+ */
+app.get(
+  "/api/publisher/:filename/versions/:version",
+  audited("read-version"),
+  requireRole("viewer"),
+  withEnvironment,
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename, version } = req.params;
+      const content = /^\d+$/.test(version)
+        ? await getEnvironmentRepository(req).getVersion(
+            filename,
+            parseInt(version, 10)
+          )
+        : null;
+
+      if (content === null) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      res.json(content);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to fetch version content" });
+    }
+  }
+);
+
+/**
+ * GET /api/publisher/:filename/diff
+ * Computes a structural diff between two versions of a publisher configuration.
+ *
+ * @param {string} filename - The publisher filename.
+ * @query {string} from - The base version number, or 'current' for the live file.
+ * @query {string} to - The target version number, or 'current' for the live file.
+ * @query {string} env - The environment (default: the working environment).
+ * @returns {Object} The RFC 6902 JSON Patch from 'from' to 'to', plus the changes in readable form.
+ */
+app.get(
+  "/api/publisher/:filename/diff",
+  audited("read-diff"),
+  requireRole("viewer"),
+  withEnvironment,
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const source = getEnvironmentRepository(req);
+      const from = String(req.query.from || "");
+      const to = String(req.query.to || "");
+
+      if (!from || !to) {
+        return res.status(400).json({
+          error: "Both 'from' and 'to' query parameters are required",
+        });
+      }
+
+      const [fromContent, toContent] = await Promise.all([
+        readVersionContent(filename, from, source),
+        readVersionContent(filename, to, source),
+      ]);
+
+      if (fromContent === null || toContent === null) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      res.json({
+        from,
+        to,
+        patch: createPatch(fromContent, toContent),
+        changes: getChanges(fromContent, toContent),
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to compute diff" });
+    }
+  }
+);
+
+/**
+ * POST /api/publisher/:filename/diff
+ * Computes a structural diff between a stored version and an unsaved document (e.g. the editor's working copy).
+ *
+ * @param {string} filename - The publisher filename.
+ * @query {string} from - The base version number, or 'current' for the live file.
+ * @query {string} env - The environment of the base version (default: the working environment).
+ * @body {Object} The document to compare against the base version.
+ * @returns {Object} The RFC 6902 JSON Patch from 'from' to the body, plus the changes in readable form.
+ */
+app.post(
+  "/api/publisher/:filename/diff",
+  audited("read-diff"),
+  requireRole("viewer"),
+  withEnvironment,
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const from = String(req.query.from || "current");
+
+      const fromContent = await readVersionContent(
+        filename,
+        from,
+        getEnvironmentRepository(req)
+      );
+      if (fromContent === null) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      res.json({
+        from,
+        to: "body",
+        patch: createPatch(fromContent, req.body),
+        changes: getChanges(fromContent, req.body),
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to compute diff" });
+    }
+  }
+);
+
+/**
+ * GET /api/environments
+ * Lists the environments in promotion order.
+ *
+ * @returns {Object} The 'environments' and the 'working' environment, where configurations are edited.
+ */
+app.get("/api/environments", requireRole("viewer"), (_req, res) => {
+  res.json({
+    working: environments.working,
+    environments: environments.names,
+  });
+});
+
+/**
+ * Returns the write queue key of a document in an environment. The working environment's documents
+ * are queued by filename, as everywhere else.
+ *
+ * @param environment - The environment name.
+ * @param filename - The document filename.
+ * @returns The key for 'runExclusive'.
+ */
+const getQueueKey = (environment: string, filename: string) =>
+  environment === environments.working
+    ? filename
+    : `${environment}/${filename}`;
+
+/**
+ * Reads the source and target environment of a promotion. The source defaults to the working environment.
+ *
+ * @param from - The requested source environment.
+ * @param to - The requested target environment.
+ * @returns The environment names, or null unless the target comes after the source.
+ */
+const parsePromotion = (from: unknown, to: unknown) => {
+  const source = typeof from === "string" && from ? from : environments.working;
+  if (typeof to !== "string" || !environments.isPromotion(source, to)) {
+    return null;
+  }
+  return { from: source, to };
+};
+
+/** Response body for promotions between unknown environments, or backwards. */
+const INVALID_PROMOTION_ERROR = {
+  error: `'to' must be an environment after 'from' (${environments.names.join(
+    " -> "
+  )})`,
+};
+
+/**
+ * GET /api/publisher/:filename/promote
+ * Shows what promoting a publisher configuration would change in the target environment.
+ *
+ * @param {string} filename - The publisher filename.
+ * @query {string} from - The source environment (default: the working environment).
+ * @query {string} to - The target environment, after the source.
+ * @returns {Object} 'from', 'to', the source's latest version ('fromVersion'), the target's latest version
+ * ('toVersion', 0 when the publisher does not exist there yet) and the 'patch' and 'changes' from the
+ * target's current configuration to the source's.
+ */
+app.get(
+  "/api/publisher/:filename/promote",
+  requireRole("viewer"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const promotion = parsePromotion(req.query.from, req.query.to);
+      if (!promotion) return res.status(400).json(INVALID_PROMOTION_ERROR);
+
+      const source = environments.get(promotion.from) as ConfigRepository;
+      const target = environments.get(promotion.to) as ConfigRepository;
+      const [fromContent, toContent, fromVersion, toVersion] =
+        await Promise.all([
+          readCurrent(filename, source),
+          readCurrent(filename, target),
+          source.getLatestVersion(filename),
+          target.getLatestVersion(filename),
+        ]);
+      if (fromContent === null) {
+        return res.status(404).json({
+          error: `Publisher config not found in '${promotion.from}'`,
+        });
+      }
+
+      res.json({
+        ...promotion,
+        fromVersion,
+        toVersion,
+        patch: createPatch(toContent ?? {}, fromContent),
+        changes: getChanges(toContent ?? {}, fromContent),
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to compute promotion diff" });
+    }
+  }
+);
+
+/**
+ * POST /api/publisher/:filename/promote
+ * Copies a publisher configuration to a later environment as a new version there. Publishers the target
+ * does not know yet are added to its registry. Promoting to the last environment requires the approver role.
+ *
+ * @param {string} filename - The publisher filename.
+ * @header {string} X-Change-Message - URI-encoded description (default: 'Promoted vN from <from>').
+ * @body {Object} 'from' (default: the working environment) and 'to', the source version to promote
+ * ('fromVersion', default: the latest) and the target version the diff was based on ('toVersion').
+ * @returns {Object} Success status, the target 'environment', its new 'version' and, when the publisher
+ * was added to the target's registry, the new 'registryVersion'. Responds with 409 when the target changed
+ * since 'toVersion', already has this configuration or the publisher is archived, and with 422 when the
+ * configuration no longer matches its schema.
+ */
+app.post(
+  "/api/publisher/:filename/promote",
+  audited("promote"),
+  requireRole("editor"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const { fromVersion, toVersion } = req.body || {};
+      const promotion = parsePromotion(req.body?.from, req.body?.to);
+      if (!promotion) return res.status(400).json(INVALID_PROMOTION_ERROR);
+      const { from, to } = promotion;
+      res.locals.audit = { environment: to };
+
+      if (
+        environments.isLast(to) &&
+        !hasRole(req.user?.role || "viewer", "approver")
+      ) {
+        return res
+          .status(403)
+          .json({ error: `Promoting to '${to}' requires the approver role` });
+      }
+      if (
+        (fromVersion !== undefined && !Number.isInteger(fromVersion)) ||
+        (toVersion !== undefined && !Number.isInteger(toVersion))
+      ) {
+        return res
+          .status(400)
+          .json({ error: "'fromVersion' and 'toVersion' must be numbers" });
+      }
+
+      const source = environments.get(from) as ConfigRepository;
+      const target = environments.get(to) as ConfigRepository;
+      const version = fromVersion ?? (await source.getLatestVersion(filename));
+      const content =
+        version > 0 ? await source.getVersion(filename, version) : null;
+      if (content === null) {
+        return res
+          .status(404)
+          .json({ error: `Version not found in '${from}'` });
+      }
+
+      const sourceRegistry = await readRegistry(source);
+      if (
+        (sourceRegistry.archived || []).some((entry) => entry.file === filename)
+      ) {
+        return res.status(409).json(ARCHIVED_ERROR);
+      }
+      const issues = await validateConfig(filename, content, target);
+      if (issues.length > 0) {
+        return res
+          .status(422)
+          .json({ error: "Configuration failed validation", details: issues });
+      }
+
+      // As when creating a publisher, the registry queue is held around the file's queue
+      await runExclusive(getQueueKey(to, REGISTRY_FILENAME), () =>
+        runExclusive(getQueueKey(to, filename), async () => {
+          const latest = await target.getLatestVersion(filename);
+          if (toVersion !== undefined && toVersion !== latest) {
+            return res.status(409).json({
+              error: `The configuration in '${to}' changed since v${toVersion}. Review the differences again.`,
+              toVersion: latest,
+            });
+          }
+          const current = await readCurrent(filename, target);
+          if (current !== null && getChanges(current, content).length === 0) {
+            return res.status(409).json({
+              error: `'${to}' already has this configuration`,
+            });
+          }
+
+          const details = getChangeDetails(
+            req,
+            `Promoted v${version} from ${from}`
+          );
+          const newVersion = await target.save(filename, content, details);
+          res.locals.audit = { version: newVersion, environment: to };
+
+          // Publishers promoted for the first time are added to the target's registry
+          const registry = await readRegistry(target);
+          const entry = sourceRegistry.publishers.find(
+            (item) => item.file === filename
+          );
+          const known = [...registry.publishers, ...(registry.archived || [])];
+          let registryVersion: number | undefined;
+          if (entry && !known.some((item) => item.file === filename)) {
+            registryVersion = await target.save(
+              REGISTRY_FILENAME,
+              { ...registry, publishers: [...registry.publishers, entry] },
+              details
+            );
+            res.locals.audit = {
+              version: newVersion,
+              registryVersion,
+              environment: to,
+            };
+          }
+
+          res.json({
+            success: true,
+            environment: to,
+            version: newVersion,
+            ...(registryVersion !== undefined && { registryVersion }),
+          });
+        })
+      );
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to promote publisher config" });
+    }
+  }
+);
+
+/**
+ * POST /api/publisher/:filename/versions/:version/restore
+ * Promotes a historical version to the live file and records it as a new version.
+ * The new version's metadata notes the version it was restored from.
+ *
+ * @param {string} filename - The publisher filename.
+ * @param {string} version - The version number to restore.
+ * @returns {Object} Success status, the new version number and the restored version.
+ * Responds with 409 when the publisher is archived or active (active publishers are changed through
+ * change requests) and 422 when the historical content no longer matches the current schema.
+ */
+app.post(
+  "/api/publisher/:filename/versions/:version/restore",
+  audited("restore-version"),
+  requireRole("editor"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename, version } = req.params;
+      const content = /^\d+$/.test(version)
+        ? await readVersionContent(filename, version)
+        : null;
+
+      if (content === null) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      if (await isArchived(filename)) {
+        return res.status(409).json(ARCHIVED_ERROR);
+      }
+
+      const issues = await validateConfig(filename, content);
+      if (issues.length > 0) {
+        return res.status(422).json({
+          error: "Version no longer passes validation",
+          details: issues,
+        });
+      }
+
+      if (
+        await requiresReview(filename, await readCurrent(filename), content)
+      ) {
+        return res.status(409).json(REVIEW_REQUIRED_ERROR);
+      }
+
+      const restoredFrom = parseInt(version, 10);
+      const newVersion = await runExclusive(filename, () =>
+        repository.restore(
+          filename,
+          restoredFrom,
+          getChangeDetails(req, `Restored from v${restoredFrom}`)
+        )
+      );
+      if (newVersion === null) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      res.locals.audit = { version: newVersion };
+      res.set("ETag", toEtag(newVersion));
+      res.json({ success: true, version: newVersion, restoredFrom });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to restore version" });
+    }
+  }
+);
+
+/** Outcome of archiving or restoring a publisher. */
+type ArchiveResult =
+  | { publisher: PublisherEntry; registryVersion: number }
+  | { status: number; error: string };
+
+/**
+ * Moves a publisher between the registry's active and archived lists and saves a new registry version.
+ *
+ * @param filename - The publisher's data filename.
+ * @param archive - True to archive the publisher, false to restore it.
+ * @param details - Who made the change and why.
+ * @returns The moved entry, or an HTTP status and error when the move is not possible.
+ */
+const setArchived = (
+  filename: string,
+  archive: boolean,
+  details: ChangeDetails
+) =>
+  runExclusive<ArchiveResult>(REGISTRY_FILENAME, async () => {
+    const registry = await readRegistry();
+    const archived = registry.archived || [];
+    const [source, target] = archive
+      ? [registry.publishers, archived]
+      : [archived, registry.publishers];
+
+    const entry = source.find((item) => item.file === filename);
+    if (!entry) {
+      return {
+        status: 404,
+        error: archive
+          ? "Active publisher not found"
+          : "Archived publisher not found",
+      };
+    }
+
+    if (!archive) {
+      const collision = registry.publishers.find(
+        (item) =>
+          item.id === entry.id ||
+          item.alias.toLowerCase() === entry.alias.toLowerCase()
+      );
+      if (collision) {
+        return {
+          status: 409,
+          error: `Publisher '${collision.id}' already uses this id or alias`,
+        };
+      }
+    }
+
+    const moved: PublisherEntry = { ...entry };
+    if (archive) {
+      moved.archivedAt = new Date().toISOString();
+    } else {
+      delete moved.archivedAt;
+    }
+
+    const updated: PublishersRegistry = {
+      ...registry,
+      publishers: archive
+        ? source.filter((item) => item !== entry)
+        : [...target, moved],
+      archived: archive
+        ? [...target, moved]
+        : source.filter((item) => item !== entry),
+    };
+
+    const registryVersion = await repository.save(
+      REGISTRY_FILENAME,
+      updated,
+      details
+    );
+    return { publisher: moved, registryVersion };
+  });
+
+/**
+ * DELETE /api/publisher/:filename
+ * Archives a publisher. The entry moves to the registry's 'archived' list; its configuration file and
+ * history are kept so it can be restored later.
+ *
+ * @param {string} filename - The publisher filename.
+ * @header {string} X-Author - URI-encoded name of the editor.
+ * @header {string} X-Change-Message - URI-encoded description of the change.
+ * @returns {Object} Success status and the archived registry entry.
+ */
+app.delete(
+  "/api/publisher/:filename",
+  audited("archive"),
+  requireRole("admin"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const result = await setArchived(
+        filename,
+        true,
+        getChangeDetails(req, `Archived publisher ${filename}`)
+      );
+
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.locals.audit = { registryVersion: result.registryVersion };
+      res.json({ success: true, publisher: result.publisher });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to archive publisher" });
+    }
+  }
+);
+
+/**
+ * POST /api/publisher/:filename/restore
+ * Restores an archived publisher to the active list.
+ *
+ * @param {string} filename - The publisher filename.
+ * @header {string} X-Author - URI-encoded name of the editor.
+ * @header {string} X-Change-Message - URI-encoded description of the change.
+ * @returns {Object} Success status and the restored registry entry.
+ * Responds with 409 when an active publisher now uses the same id or alias.
+ */
+app.post(
+  "/api/publisher/:filename/restore",
+  audited("unarchive"),
+  requireRole("admin"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const result = await setArchived(
+        filename,
+        false,
+        getChangeDetails(req, `Restored publisher ${filename}`)
+      );
+
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.locals.audit = { registryVersion: result.registryVersion };
+      res.json({ success: true, publisher: result.publisher });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to restore publisher" });
+    }
+  }
+);
+
+/** Change request states accepted by the 'status' filter. */
+const CHANGE_REQUEST_STATUSES: ChangeRequestStatus[] = [
+  "open",
+  "approved",
+  "rejected",
+];
+
+/**
+ * POST /api/publisher/:filename/change-requests
+ * Proposes a change for review without touching the live file.
+ *
+ * @param {string} filename - The publisher filename.
+ * @header {string} X-Change-Message - URI-encoded description of the change.
+ * @body {Object} The proposed 'content' and the 'baseVersion' it was edited from.
+ * @returns {Object} The new change request (without its content). Responds with 201 on success,
+ * 409 with the current server copy when 'baseVersion' is stale (or when the publisher is archived)
+ * and 422 when the content does not match its schema.
+ */
+app.post(
+  "/api/publisher/:filename/change-requests",
+  audited("submit-change"),
+  requireRole("editor"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const { content, baseVersion } = req.body || {};
+
+      if ((await readCurrent(filename)) === null) {
+        return res.status(404).json({ error: "Publisher config not found" });
+      }
+
+      if (await isArchived(filename)) {
+        return res.status(409).json(ARCHIVED_ERROR);
+      }
+
+      const issues = await validateConfig(filename, content);
+      if (issues.length > 0) {
+        return res
+          .status(422)
+          .json({ error: "Configuration failed validation", details: issues });
+      }
+
+      // Like a save, a proposal must start from the latest version
+      const maxVersion = await repository.getLatestVersion(filename);
+      if (baseVersion !== maxVersion) {
+        return res
+          .status(409)
+          .set("ETag", toEtag(maxVersion))
+          .json({
+            error: "Configuration was modified by someone else",
+            version: maxVersion,
+            current: await readCurrent(filename),
+          });
+      }
+
+      const { author, message } = getChangeDetails(req);
+      const request = await changeRequests.create({
+        file: filename,
+        baseVersion,
+        content,
+        author,
+        message,
+      });
+      if (req.user) await drafts.remove(req.user.username, filename);
+
+      res
+        .status(201)
+        .json({ success: true, changeRequest: toSummary(request) });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to submit change request" });
+    }
+  }
+);
+
+/**
+ * GET /api/change-requests
+ * Lists change requests.
+ *
+ * @query {string} status - Optional. 'open', 'approved' or 'rejected'.
+ * @query {string} publisher - Optional. Publisher filename.
+ * @returns {Array<Object>} The matching requests without their content, newest first.
+ */
+app.get("/api/change-requests", requireRole("viewer"), async (req, res) => {
+  try {
+    const status = typeof req.query.status === "string" ? req.query.status : "";
+    if (
+      status &&
+      !CHANGE_REQUEST_STATUSES.includes(status as ChangeRequestStatus)
+    ) {
+      return res.status(400).json({
+        error: `'status' must be one of: ${CHANGE_REQUEST_STATUSES.join(", ")}`,
+      });
+    }
+
+    res.json(
+      await changeRequests.list({
+        status: (status as ChangeRequestStatus) || undefined,
+        file:
+          typeof req.query.publisher === "string"
+            ? req.query.publisher
+            : undefined,
+      })
+    );
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to list change requests" });
+  }
+});
+
+/**
+ * GET /api/change-requests/:id
+ * Retrieves a change request with the structural diff it proposes.
+ *
+ * @param {string} id - The change request id.
+ * @returns {Object} The request, its 'changes' against the base version and the publisher's 'latestVersion'.
+ */
+app.get("/api/change-requests/:id", requireRole("viewer"), async (req, res) => {
+  try {
+    const request = await changeRequests.get(parseInt(req.params.id, 10));
+    if (!request) {
+      return res.status(404).json({ error: "Change request not found" });
+    }
+
+    const base = await repository.getVersion(request.file, request.baseVersion);
+    res.json({
+      ...request,
+      changes: getChanges(base ?? {}, request.content),
+      latestVersion: await repository.getLatestVersion(request.file),
+    });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to read change request" });
+  }
+});
+
+/**
+ * POST /api/change-requests/:id/comments
+ * Adds a review comment to a change request.
+ *
+ * @param {string} id - The change request id.
+ * @body {Object} The comment 'text'.
+ * @returns {Object} The updated request.
+ */
+app.post(
+  "/api/change-requests/:id/comments",
+  requireRole("editor"),
+  async (req, res) => {
+    try {
+      const request = await changeRequests.addComment(
+        parseInt(req.params.id, 10),
+        req.user?.username || "anonymous",
+        typeof req.body?.text === "string" ? req.body.text : ""
+      );
+      res.status(201).json(toSummary(request));
+    } catch (error) {
+      sendUserError(res, error, "Failed to add comment");
+    }
+  }
+);
+
+/**
+ * POST /api/change-requests/:id/approve
+ * Approves an open change request and saves its content as a new version, recorded under the
+ * request's author and description. The approver must not be the author.
+ *
+ * @param {string} id - The change request id.
+ * @returns {Object} The approved request, including the 'appliedVersion'.
+ * Responds with 409 when the request is closed, the publisher is archived or the publisher
+ * changed since the request was submitted.
+ */
+app.post(
+  "/api/change-requests/:id/approve",
+  audited("approve-change"),
+  requireRole("approver"),
+  async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const existing = await changeRequests.get(id);
+      if (existing) res.locals.audit = { file: existing.file };
+
+      const reviewer = req.user?.username || "anonymous";
+      const request = await changeRequests.review(
+        id,
+        reviewer,
+        "approved",
+        ({ file, baseVersion, content, author, message }) =>
+          runExclusive(file, async () => {
+            if (await isArchived(file)) {
+              throw new ChangeRequestError(ARCHIVED_ERROR.error, 409);
+            }
+            const latest = await repository.getLatestVersion(file);
+            if (latest !== baseVersion) {
+              throw new ChangeRequestError(
+                `The configuration changed since this request was submitted (now version ${latest}). Reject it and submit a new one.`,
+                409
+              );
+            }
+            const approval = `change request #${id} approved by ${reviewer}`;
+            return repository.save(file, content, {
+              author,
+              message: message ? `${message} (${approval})` : approval,
+            });
+          })
+      );
+
+      res.locals.audit = {
+        file: request.file,
+        version: request.appliedVersion,
+      };
+      res.json({ success: true, changeRequest: toSummary(request) });
+    } catch (error) {
+      sendUserError(res, error, "Failed to approve change request");
+    }
+  }
+);
+
+/**
+ * POST /api/change-requests/:id/reject
+ * Rejects an open change request. The live file is left untouched.
+ *
+ * @param {string} id - The change request id.
+ * @body {Object} An optional 'comment' explaining the rejection.
+ * @returns {Object} The rejected request.
+ */
+app.post(
+  "/api/change-requests/:id/reject",
+  audited("reject-change"),
+  requireRole("approver"),
+  async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const existing = await changeRequests.get(id);
+      if (existing) res.locals.audit = { file: existing.file };
+
+      const reviewer = req.user?.username || "anonymous";
+      const comment =
+        typeof req.body?.comment === "string" ? req.body.comment.trim() : "";
+
+      let request = await changeRequests.review(id, reviewer, "rejected");
+      if (comment) {
+        request = await changeRequests.addComment(id, reviewer, comment);
+      }
+
+      res.json({ success: true, changeRequest: toSummary(request) });
+    } catch (error) {
+      sendUserError(res, error, "Failed to reject change request");
+    }
+  }
+);
+
+/**
+ * GET /api/drafts
+ * Lists the signed-in user's drafts.
+ *
+ * @returns {Array<Object>} The drafts ('file', 'baseVersion', 'updatedAt'), most recently saved first.
+ */
+app.get("/api/drafts", requireRole("editor"), async (req, res) => {
+  try {
+    res.json(await drafts.list(req.user?.username || "anonymous"));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to list drafts" });
+  }
+});
+
+/**
+ * GET /api/drafts/:filename
+ * Retrieves the signed-in user's draft of a publisher.
+ *
+ * @param {string} filename - The publisher filename.
+ * @returns {Object} The draft: 'file', 'content', 'baseVersion' and 'updatedAt'.
+ */
+app.get(
+  "/api/drafts/:filename",
+  requireRole("editor"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const draft = await drafts.get(
+        req.user?.username || "anonymous",
+        req.params.filename
+      );
+      if (!draft) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+      res.json(draft);
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to read draft" });
+    }
+  }
+);
+
+/**
+ * PUT /api/drafts/:filename
+ * Autosaves the signed-in user's working copy of a publisher. No version is created and the content
+ * is not validated, so half-finished edits can be kept.
+ *
+ * @param {string} filename - The publisher filename.
+ * @body {Object} The working copy ('content') and the 'baseVersion' the edits started from.
+ * @returns {Object} The saved draft without its content.
+ */
+app.put(
+  "/api/drafts/:filename",
+  requireRole("editor"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const { content, baseVersion } = req.body || {};
+
+      if ((await readCurrent(filename)) === null) {
+        return res.status(404).json({ error: "Publisher config not found" });
+      }
+      if (content === undefined || !Number.isInteger(baseVersion)) {
+        return res.status(400).json({
+          error: "'content' and a numeric 'baseVersion' are required",
+        });
+      }
+
+      res.json(
+        await drafts.save(
+          req.user?.username || "anonymous",
+          filename,
+          content,
+          baseVersion
+        )
+      );
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to save draft" });
+    }
+  }
+);
+
+/**
+ * DELETE /api/drafts/:filename
+ * Discards the signed-in user's draft of a publisher.
+ *
+ * @param {string} filename - The publisher filename.
+ * @returns {Object} Success status, and whether a draft existed ('deleted').
+ */
+app.delete(
+  "/api/drafts/:filename",
+  requireRole("editor"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const deleted = await drafts.remove(
+        req.user?.username || "anonymous",
+        req.params.filename
+      );
+      res.json({ success: true, deleted });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to discard draft" });
+    }
+  }
+);
+
+/**
+ * GET /api/presence
+ * Lists who has which publisher open, and the edit locks.
+ *
+ * @returns {Array<Object>} One entry per open or locked publisher: 'file', the 'viewers' ('username',
+ * 'since', 'editing') and the 'lock' ('username', 'acquiredAt', 'expiresAt'), if any.
+ */
+app.get("/api/presence", requireRole("viewer"), (req, res) => {
+  res.json(presence.list());
+});
+
+/**
+ * POST /api/presence/:filename
+ * Heartbeat of an open editor. Editors take the publisher's soft lock if nobody else holds it, and
+ * keep it with every heartbeat. An editor counts as open until its heartbeats stop for 45 seconds;
+ * a lock expires 2 minutes after the last heartbeat of its holder.
+ *
+ * @param {string} filename - The publisher filename.
+ * @body {Object} The 'sessionId' the editor generated when it was opened.
+ * @returns {Object} The publisher's presence, and whether this editor holds the lock ('holdsLock').
+ */
+app.post(
+  "/api/presence/:filename",
+  requireRole("viewer"),
+  withPublisherFile,
+  async (req, res) => {
+    try {
+      const { filename } = req.params;
+      const sessionId = req.body?.sessionId;
+      if (
+        typeof sessionId !== "string" ||
+        !sessionId ||
+        sessionId.length > 100
+      ) {
+        return res.status(400).json({ error: "'sessionId' is required" });
+      }
+      if ((await repository.getLatestVersion(filename)) === 0) {
+        return res.status(404).json({ error: "Publisher config not found" });
+      }
+
+      res.json(
+        presence.heartbeat(
+          filename,
+          sessionId,
+          req.user?.username || "anonymous",
+          hasRole(req.user?.role || "viewer", "editor")
+        )
+      );
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to record presence" });
+    }
+  }
+);
+
+/**
+ * DELETE /api/presence/:filename/lock
+ * Breaks the edit lock of a publisher, e.g. one held by an editor left open overnight. The editor that
+ * held it is told and does not take it again; another open editor takes it with its next heartbeat.
+ *
+ * @param {string} filename - The publisher filename.
+ * @returns {Object} Success status and the lock that was broken.
+ */
+app.delete(
+  "/api/presence/:filename/lock",
+  audited("break-lock"),
+  requireRole("admin"),
+  withPublisherFile,
+  (req, res) => {
+    const lock = presence.breakLock(req.params.filename);
+    if (!lock) {
+      return res.status(404).json({ error: "The publisher is not locked" });
+    }
+    res.json({ success: true, lock });
+  }
+);
+
+/**
+ * DELETE /api/presence/:filename/:sessionId
+ * Reports that an editor was closed, releasing its lock.
+ *
+ * @param {string} filename - The publisher filename.
+ * @param {string} sessionId - The id of the editor.
+ * @returns {Object} Success status, and whether the editor was open ('removed').
+ */
+app.delete(
+  "/api/presence/:filename/:sessionId",
+  requireRole("viewer"),
+  withPublisherFile,
+  (req, res) => {
+    const removed = presence.leave(
+      req.params.filename,
+      req.params.sessionId,
+      req.user?.username || "anonymous"
+    );
+    res.json({ success: true, removed });
+  }
+);
+
+/**
+ * GET /api/search
+ * Finds publishers by the contents of their configurations.
+ * Configurations saved since the last search are re-indexed first.
+ *
+ * @query {string} q - The query: predicates joined with 'and', each '<path> <operator> [value]' where the
+ * operator is '=', '!=', 'contains', 'exists' or 'missing' and '[]' in a path matches every list element,
+ * e.g. 'pages[].position = sidebar and customCss missing'.
+ * @returns {Array<Object>} The matching publishers ('id', 'alias', 'file', 'archived') with the paths and
+ * values that matched ('matches'). Responds with 400 for malformed queries.
+ */
+app.get("/api/search", requireRole("viewer"), async (req, res) => {
+  try {
+    const predicates = parseSearchQuery(
+      typeof req.query.q === "string" ? req.query.q : ""
+    );
+
+    const registry = await readRegistry();
+    const entries = [
+      ...registry.publishers.map((entry) => ({ ...entry, archived: false })),
+      ...(registry.archived || []).map((entry) => ({
+        ...entry,
+        archived: true,
+      })),
+    ];
+
+    for (const { file } of entries) {
+      const version = await repository.getLatestVersion(file);
+      if (!searchIndex.isCurrent(file, version)) {
+        searchIndex.update(file, version, await readCurrent(file));
+      }
+    }
+
+    res.json(
+      entries.flatMap(({ id, alias, file, archived }) => {
+        const matches = searchIndex.match(file, predicates);
+        return matches ? [{ id, alias, file, archived, matches }] : [];
+      })
+    );
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error(error);
+    res.status(500).json({ error: "Failed to search publishers" });
+  }
+});
+
+/**
+ * The outcome of a bulk edit rule for one publisher.
+ */
+interface BulkEditPreview {
+  file: string;
+  /** The publisher's alias from the registry. */
+  alias: string;
+  /** The version the rule was applied to. */
+  version: number;
+  /** Only 'changed' publishers are saved when the bulk edit is applied; the others are skipped. */
+  status: "changed" | "unchanged" | "failed" | "review-required";
+  /** The changes the rule makes. */
+  changes?: Change[];
+  /** Why the publisher is skipped, for 'failed' and 'review-required'. */
+  error?: string;
+  /** Schema validation issues of the result. */
+  details?: ValidationIssue[];
+}
+
+/**
+ * Resolves the publishers selected for a bulk edit. Only active (not archived) publishers can be selected.
+ *
+ * @param files - The selected publisher filenames, from the request body.
+ * @returns The registry entries of the selected publishers.
+ * @throws {BulkEditError} With status 400 if nothing or an unknown publisher is selected.
+ */
+const getBulkEditTargets = async (files: unknown) => {
+  if (!Array.isArray(files) || files.length === 0) {
+    throw new BulkEditError("Select at least one publisher ('files')", 400);
+  }
+
+  const { publishers } = await readRegistry();
+  const unknown = files.filter(
+    (file) => !publishers.some((entry) => entry.file === file)
+  );
+  if (unknown.length > 0) {
+    throw new BulkEditError(
+      `Unknown or archived publishers: ${unknown.join(", ")}`,
+      400
+    );
+  }
+  return publishers.filter((entry) => files.includes(entry.file));
+};
+
+/**
+ * Applies a bulk edit rule to the latest version of a publisher without saving it.
+ *
+ * @param entry - The publisher's registry entry.
+ * @param rule - The rule to apply.
+ * @returns The preview, and the new content when the publisher would be saved ('changed').
+ */
+const previewBulkEdit = async (
+  entry: PublisherEntry,
+  rule: BulkEditRule
+): Promise<{ preview: BulkEditPreview; content?: unknown }> => {
+  const { file, alias } = entry;
+  const version = await repository.getLatestVersion(file);
+  const current = await readCurrent(file);
+
+  let content: unknown;
+  try {
+    content = applyBulkEditRule(current, rule);
+  } catch (error) {
+    if (!(error instanceof PatchError)) throw error;
+    return {
+      preview: { file, alias, version, status: "failed", error: error.message },
+    };
+  }
+
+  const changes = getChanges(current, content);
+  if (changes.length === 0) {
+    return { preview: { file, alias, version, status: "unchanged" } };
+  }
+
+  const issues = await validateConfig(file, content);
+  if (issues.length > 0) {
+    return {
+      preview: {
+        file,
+        alias,
+        version,
+        status: "failed",
+        changes,
+        error: "Configuration failed validation",
+        details: issues,
+      },
+    };
+  }
+
+  // Bulk edits never bypass review: active publishers have to be changed through change requests
+  if (await requiresReview(file, current, content)) {
+    return {
+      preview: {
+        file,
+        alias,
+        version,
+        status: "review-required",
+        changes,
+        error: REVIEW_REQUIRED_ERROR.error,
+      },
+    };
+  }
+
+  return {
+    preview: { file, alias, version, status: "changed", changes },
+    content,
+  };
+};
+
+/**
+ * Sends a bulk edit error: malformed rules as 400, other known errors as their status.
+ *
+ * @param res - The response.
+ * @param error - The caught error.
+ * @param fallback - The message for unexpected errors.
+ */
+const sendBulkEditError = (
+  res: express.Response,
+  error: unknown,
+  fallback: string
+) => {
+  if (error instanceof PatchError) {
+    return res.status(400).json({ error: error.message });
+  }
+  sendUserError(res, error, fallback);
+};
+
+/**
+ * POST /api/bulk-edits/preview
+ * Shows what a bulk edit would change, without saving anything.
+ *
+ * @body {Object} The selected publisher 'files' and the 'rule' to apply.
+ * @returns {Object} A one-line 'description' of the rule and one result per publisher: its 'version',
+ * 'status' ('changed', 'unchanged', 'failed' or 'review-required'), 'changes' and, when skipped, the 'error'.
+ */
+app.post("/api/bulk-edits/preview", requireRole("editor"), async (req, res) => {
+  try {
+    const rule = parseBulkEditRule(req.body?.rule);
+    const targets = await getBulkEditTargets(req.body?.files);
+
+    const results = await Promise.all(
+      targets.map(async (entry) => (await previewBulkEdit(entry, rule)).preview)
+    );
+    res.json({ description: describeBulkEditRule(rule), results });
+  } catch (error) {
+    sendBulkEditError(res, error, "Failed to preview bulk edit");
+  }
+});
+
+/**
+ * POST /api/bulk-edits
+ * Applies a rule to the selected publishers. Every changed publisher gets its own version, noting the
+ * bulk edit id in its description. Publishers the rule does not change, cannot be applied to, or that
+ * need review are skipped.
+ *
+ * @header {string} X-Change-Message - URI-encoded description of the change (defaults to the rule's description).
+ * @body {Object} The selected publisher 'files', the 'rule' and optionally the 'baseVersions' seen in the
+ * preview (filename to version); publishers changed since then are skipped.
+ * @returns {Object} The recorded bulk edit and one result per publisher. Responds with 201 on success,
+ * 400 for malformed rules or selections, and 409 when no publisher was changed.
+ */
+app.post(
+  "/api/bulk-edits",
+  audited("bulk-edit"),
+  requireRole("editor"),
+  async (req, res) => {
+    try {
+      const rule = parseBulkEditRule(req.body?.rule);
+      const targets = await getBulkEditTargets(req.body?.files);
+      const baseVersions: Record<string, unknown> =
+        req.body?.baseVersions || {};
+      const { author, message } = getChangeDetails(
+        req,
+        describeBulkEditRule(rule)
+      );
+
+      const results: BulkEditPreview[] = [];
+      const bulkEdit = await bulkEdits.create(
+        { rule, author, message },
+        async (id) => {
+          const versions: BulkEditVersion[] = [];
+          for (const entry of targets) {
+            // Each publisher is read, checked and saved under its own write queue
+            await runExclusive(entry.file, async () => {
+              const { preview, content } = await previewBulkEdit(entry, rule);
+              const expected = baseVersions[entry.file];
+              if (expected !== undefined && expected !== preview.version) {
+                results.push({
+                  ...preview,
+                  status: "failed",
+                  error: `Modified since the preview (now version ${preview.version})`,
+                });
+                return;
+              }
+
+              results.push(preview);
+              if (preview.status !== "changed") return;
+
+              const version = await repository.save(entry.file, content, {
+                author,
+                message: `${message} (bulk edit #${id})`,
+              });
+              versions.push({
+                file: entry.file,
+                previousVersion: preview.version,
+                version,
+              });
+            });
+          }
+          return versions;
+        }
+      );
+
+      res.locals.audit = bulkEdit.versions.map(({ file, version }) => ({
+        file,
+        version,
+      }));
+      res.status(201).json({ success: true, bulkEdit, results });
+    } catch (error) {
+      sendBulkEditError(res, error, "Failed to apply bulk edit");
+    }
+  }
+);
+
+/**
+ * GET /api/bulk-edits
+ * Lists the bulk edits.
+ *
+ * @returns {Array<Object>} The bulk edits with their rule and versions, newest first.
+ */
+app.get("/api/bulk-edits", requireRole("viewer"), async (_req, res) => {
+  try {
+    res.json(await bulkEdits.list());
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to list bulk edits" });
+  }
+});
+
+/**
+ * GET /api/bulk-edits/:id
+ * Retrieves a bulk edit.
+ *
+ * @param {string} id - The bulk edit id.
+ * @returns {Object} The bulk edit with its rule and versions.
+ */
+app.get("/api/bulk-edits/:id", requireRole("viewer"), async (req, res) => {
+  try {
+    const bulkEdit = await bulkEdits.get(parseInt(req.params.id, 10));
+    if (!bulkEdit) {
+      return res.status(404).json({ error: "Bulk edit not found" });
+    }
+    res.json(bulkEdit);
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to read bulk edit" });
+  }
+});
+
+/**
+ * POST /api/bulk-edits/:id/rollback
+ * Rolls a bulk edit back by restoring every publisher it changed to its previous version.
+ * All or nothing: if any of the publishers changed since the bulk edit, nothing is rolled back.
+ *
+ * @param {string} id - The bulk edit id.
+ * @returns {Object} The bulk edit, with each version's 'rollbackVersion'. Responds with 404 for unknown
+ * bulk edits and 409 when it was already rolled back or one of its publishers changed since.
+ */
+app.post(
+  "/api/bulk-edits/:id/rollback",
+  audited("rollback-bulk-edit"),
+  requireRole("editor"),
+  async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const details = getChangeDetails(req, `Rolled back bulk edit #${id}`);
+
+      const bulkEdit = await bulkEdits.rollBack(
+        id,
+        details.author,
+        async (edit) => {
+          const changed: string[] = [];
+          for (const { file, version } of edit.versions) {
+            if (
+              (await isArchived(file)) ||
+              (await repository.getLatestVersion(file)) !== version
+            ) {
+              changed.push(file);
+            }
+          }
+          if (changed.length > 0) {
+            throw new BulkEditError(
+              `Changed since the bulk edit: ${changed.join(
+                ", "
+              )}. Restore them individually from their history.`,
+              409
+            );
+          }
+
+          const restored = new Map<string, number>();
+          for (const { file, previousVersion } of edit.versions) {
+            const version = await runExclusive(file, () =>
+              repository.restore(file, previousVersion, details)
+            );
+            if (version !== null) restored.set(file, version);
+          }
+          return restored;
+        }
+      );
+
+      res.locals.audit = bulkEdit.versions.map(({ file, rollbackVersion }) => ({
+        file,
+        version: rollbackVersion,
+      }));
+      res.json({ success: true, bulkEdit });
+    } catch (error) {
+      sendUserError(res, error, "Failed to roll back bulk edit");
+    }
+  }
+);
+
+/**
+ * Reads the registry and every configuration file for the registry consistency check.
+ * Files that cannot be read are included without content, so they are reported but never registered.
+ *
+ * @returns The registry and the configuration contents by filename.
+ */
+const readRegistryState = async () => {
+  const registry = await readRegistry();
+  const configs = new Map<string, unknown>();
+  for (const file of await repository.list()) {
+    // Templates are not publishers, so they are never registered
+    if (file === REGISTRY_FILENAME || isTemplateFilename(file)) continue;
+    try {
+      configs.set(file, await readCurrent(file));
+    } catch (error) {
+      console.error(`Failed to read ${file}:`, error);
+      configs.set(file, null);
+    }
+  }
+  return { registry, configs };
+};
+
+/**
+ * Runs the registry consistency check.
+ *
+ * @returns The issues found.
+ */
+const getRegistryIssues = async () => {
+  const { registry, configs } = await readRegistryState();
+  return checkRegistry(registry, configs);
+};
+
+/**
+ * GET /api/health/registry
+ * Checks 'publishers.json' against the configuration files: entries whose file is missing, files
+ * without an entry (orphans), and entries whose id or alias differs from the configuration's
+ * 'publisherId' or 'aliasName'.
+ *
+ * @returns {Object} 'healthy' and the 'issues' found, each with a 'key', 'type', 'file', 'message' and,
+ * when it can be fixed automatically, a description of the 'fix'.
+ */
+app.get("/api/health/registry", requireRole("admin"), async (_req, res) => {
+  try {
+    const issues = await getRegistryIssues();
+    res.json({ healthy: issues.length === 0, issues });
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to check registry" });
+  }
+});
+
+/**
+ * POST /api/health/registry/fix
+ * Fixes a registry issue and saves a new registry version. Configuration files are never changed.
+ *
+ * @body {Object} The 'key' of the issue, as listed by GET /api/health/registry.
+ * @header {string} X-Change-Message - URI-encoded description of the change.
+ * @returns {Object} Success status, the new registry version and the remaining issues.
+ * Responds with 404 when the issue no longer exists and 409 when it must be fixed by hand.
+ */
+app.post(
+  "/api/health/registry/fix",
+  audited("fix-registry"),
+  requireRole("admin"),
+  async (req, res) => {
+    try {
+      const key = typeof req.body?.key === "string" ? req.body.key : "";
+
+      // The registry queue keeps the issue valid until the fix is written
+      await runExclusive(REGISTRY_FILENAME, async () => {
+        const { registry, configs } = await readRegistryState();
+        const issue = checkRegistry(registry, configs).find(
+          (item) => item.key === key
+        );
+        if (!issue) {
+          return res.status(404).json({
+            error: "Registry issue not found. It may already be fixed.",
+          });
+        }
+        res.locals.audit = { file: issue.file };
+
+        const fixed = fixRegistryIssue(registry, configs, issue);
+        if (!fixed) {
+          return res.status(409).json({
+            error: `${issue.message}. This must be fixed by hand.`,
+          });
+        }
+
+        const registryVersion = await repository.save(
+          REGISTRY_FILENAME,
+          fixed,
+          getChangeDetails(req, `Fixed registry: ${issue.fix}`)
+        );
+        res.locals.audit = { file: issue.file, registryVersion };
+
+        res.json({
+          success: true,
+          registryVersion,
+          issues: checkRegistry(fixed, configs),
+        });
+      });
+    } catch (error) {
+      console.error(error);
+      res.status(500).json({ error: "Failed to fix registry" });
+    }
+  }
+);
+
+/**
+ * GET /api/events
+ * Opens a Server-Sent Events stream of changes, for updating open pages live.
+ * Event names are 'save' and 'restore' (publisher configurations), 'registry' (publishers.json) and
+ * 'invalid' (a file was changed outside the tool and is not valid JSON).
+ *
+ * @returns {EventStream} One event per change; the data is a JSON object with the 'type', 'file' and,
+ * where they apply, 'version', 'author', 'message', 'restoredFrom', 'external' and 'error'.
+ */
+app.get("/api/events", requireRole("viewer"), (req, res) => {
+  changeEvents.subscribe(req, res);
+});
+
+/**
+ * GET /api/audit
+ * Queries the audit log.
+ *
+ * @query {string} publisher - Publisher id, alias or filename.
+ * @query {string} actor - Editor name (case-insensitive).
+ * @query {string} path - Changed path prefix, e.g. 'isActive' or 'pages[0]'.
+ * @query {string} from - ISO 8601 start of the time range (inclusive).
+ * @query {string} to - ISO 8601 end of the time range (inclusive).
+ * @query {string} action - Action name, e.g. 'update' or 'read-versions'.
+ * @query {string} outcome - 'success' or 'failure'.
+ * @query {number} limit - Maximum number of records (default 500).
+ * @returns {Array<Object>} The matching audit records, newest first.
+ */
+app.get("/api/audit", requireRole("admin"), async (req, res) => {
+  try {
+    const param = (name: string) =>
+      typeof req.query[name] === "string" ? String(req.query[name]) : "";
+
+    const from = param("from") ? new Date(param("from")) : undefined;
+    const to = param("to") ? new Date(param("to")) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res
+        .status(400)
+        .json({ error: "'from' and 'to' must be ISO 8601 timestamps" });
+    }
+
+    const outcome = param("outcome");
+    if (outcome && outcome !== "success" && outcome !== "failure") {
+      return res
+        .status(400)
+        .json({ error: "'outcome' must be 'success' or 'failure'" });
+    }
+
+    const filter: AuditFilter = {
+      actor: param("actor") || undefined,
+      pathPrefix: param("path") || undefined,
+      from,
+      to,
+      action: param("action") || undefined,
+      outcome: (outcome as AuditFilter["outcome"]) || undefined,
+      limit: parseInt(param("limit"), 10) || 500,
+    };
+
+    // Publishers are matched by id or alias as well as by filename
+    const publisher = param("publisher");
+    if (publisher) {
+      const registry = await readRegistry();
+      const entry = [...registry.publishers, ...(registry.archived || [])].find(
+        (item) =>
+          item.id === publisher ||
+          item.alias.toLowerCase() === publisher.toLowerCase()
+      );
+      filter.files = [entry ? entry.file : publisher];
+    }
+
+    res.json(await auditLog.query(filter));
+  } catch (error) {
+    console.error(error);
+    res.status(500).json({ error: "Failed to read audit log" });
+  }
+});
+
+/**
+ * Records a change made to a live file outside the server. Valid JSON that differs from the latest
+ * version is saved as a new version tagged as an external edit; invalid JSON is flagged (and not
+ * served) until the file is fixed or overwritten by a save. Runs under the file's write queue, so
+ * the server's own saves are complete (and therefore match the latest version) when they are checked.
+ *
+ * @param filename - The changed data filename.
+ */
+const recordExternalChange = (filename: string) =>
+  runExclusive(filename, async () => {
+    const filePath = path.join(DATA_DIR, filename);
+    // Deleted files are left to the registry check
+    if (!existsSync(filePath)) {
+      invalidFiles.delete(filename);
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    let content: unknown;
+    try {
+      content = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (invalidFiles.get(filename) === message) return;
+
+      invalidFiles.set(filename, message);
+      console.warn(
+        `${filename} was changed outside the tool and is not valid JSON: ${message}`
+      );
+      await auditLog.append({
+        timestamp,
+        actor: EXTERNAL_AUTHOR,
+        action: "external-edit",
+        file: filename,
+        ip: "",
+        outcome: "failure",
+        error: `Invalid JSON: ${message}`,
+      });
+      changeEvents.publish({ type: "invalid", file: filename, error: message });
+      return;
+    }
+    invalidFiles.delete(filename);
+
+    const latest = await repository.getLatestVersion(filename);
+    // The server's own saves match the latest version (key order aside)
+    const current =
+      latest > 0 ? await repository.getVersion(filename, latest) : null;
+    if (current !== null && getChanges(current, content).length === 0) return;
+
+    const message = "Edited outside the tool";
+    const version = await repository.save(filename, content, {
+      author: EXTERNAL_AUTHOR,
+      message,
+      external: true,
+    });
+    const metadata = (await repository.listVersions(filename)).find(
+      (item) => item.version === version
+    );
+    console.log(`External edit of ${filename} recorded as v${version}`);
+    await auditLog.append({
+      timestamp,
+      actor: EXTERNAL_AUTHOR,
+      action: "external-edit",
+      file: filename,
+      version,
+      ...(metadata && { changedPaths: metadata.changedPaths }),
+      message,
+      ip: "",
+      outcome: "success",
+    });
+  });
+
+// Prepare storage (history initialization, crash recovery, imports) and check the registry before starting server.
+// New environments start as copies of the working environment.
+for (const name of environments.names.slice(1)) {
+  await fs.mkdir(path.join(ENVIRONMENTS_DIR, name), { recursive: true });
+}
+await environments.initialize({
+  author: "system",
+  message: `Copied from ${environments.working} when the environment was created`,
+});
+// Files edited while the server was down are recorded like the edits it notices while running
+if (WATCH_DATA_DIR) {
+  for (const file of await repository.list()) {
+    await recordExternalChange(file);
+  }
+}
+for (const issue of await getRegistryIssues()) {
+  console.warn(`Registry check: ${issue.message}`);
+}
+if (!existsSync(users.filePath) && existsSync(LEGACY_USERS_FILE)) {
+  await fs.mkdir(path.dirname(users.filePath), { recursive: true });
+  await fs.rename(LEGACY_USERS_FILE, users.filePath);
+  console.log(
+    `Moved the accounts from ${LEGACY_USERS_FILE} to ${users.filePath}`
+  );
+}
+await users.ensureAdmin(
+  process.env.ADMIN_USERNAME || "admin",
+  process.env.ADMIN_PASSWORD
+);
 
-// Run migration/initialization before starting server
-await initializeHistory();
+if (WATCH_DATA_DIR) {
+  new DataWatcher(DATA_DIR, recordExternalChange).start();
+}
 
 app.listen(PORT, () => {
   console.log(`Server running at http://localhost:${PORT}`);
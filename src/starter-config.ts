@@ -0,0 +1,78 @@
+/**
+ * Starter Configuration
+ *
+ * Builds the initial configuration file for a newly onboarded publisher.
+ * Every required field is present so the new file passes schema validation from its first version.
+ */
+
+/**
+ * A page placement in a publisher configuration.
+ */
+export interface PageConfig {
+  pageType: string;
+  selector: string;
+  position: string;
+}
+
+/**
+ * The details collected when onboarding a publisher.
+ */
+export interface NewPublisherInput {
+  id: string;
+  alias: string;
+  publisherDashboard: string;
+  monitorDashboard: string;
+  qaStatusDashboard: string;
+  pages?: PageConfig[];
+}
+
+/** Page list used when 'pages' is left out. */
+const DEFAULT_PAGES: PageConfig[] = [
+  { pageType: "homepage", selector: "main", position: "top" },
+];
+
+/**
+ * Derives the name part of a publisher's filename from its ID, e.g. 'pub-aurora' -> 'aurora'.
+ *
+ * @param id - The publisher ID.
+ * @returns The name, or an empty string when nothing but the 'pub-' prefix is left (e.g. 'pub-').
+ */
+export const getPublisherName = (id: string) =>
+  id
+    .toLowerCase()
+    .replace(/^pub-/, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Derives the data filename for a publisher ID, e.g. 'pub-aurora' -> 'publisher-aurora.json'.
+ *
+ * @param id - The publisher ID.
+ * @returns The data filename.
+ */
+export const getPublisherFilename = (id: string) =>
+  `publisher-${getPublisherName(id)}.json`;
+
+/**
+ * Creates the starter configuration for a new publisher.
+ * New publishers start inactive so they can be reviewed before going live.
+ *
+ * @param input - The onboarding details. 'pages', when given, must be a non-empty array.
+ * @returns The configuration object.
+ */
+export const createStarterConfig = (input: NewPublisherInput) => ({
+  publisherId: input.id,
+  aliasName: input.alias,
+  pages:
+    input.pages === undefined
+      ? DEFAULT_PAGES.map((page) => ({ ...page }))
+      : input.pages.map((page) => ({
+          pageType: page?.pageType,
+          selector: page?.selector,
+          position: page?.position,
+        })),
+  publisherDashboard: input.publisherDashboard,
+  monitorDashboard: input.monitorDashboard,
+  qaStatusDashboard: input.qaStatusDashboard,
+  isActive: false,
+});
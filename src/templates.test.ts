@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TemplateError, mergeConfig } from "./templates.js";
+
+test("mergeConfig rejects reserved keys in overrides", () => {
+  // An own '__proto__' key, as JSON.parse creates it from a stored document
+  const override = { ["__proto__"]: { polluted: "yes" } };
+  assert.throws(() => mergeConfig({ a: 1 }, override), TemplateError);
+  assert.throws(
+    () => mergeConfig({ a: {} }, { a: { constructor: {} } }),
+    TemplateError
+  );
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+});
+
+test("mergeConfig ignores inherited members of the base", () => {
+  assert.deepEqual(mergeConfig({ a: 1 }, { toString: { b: 2 } }), {
+    a: 1,
+    toString: { b: 2 },
+  });
+});
+
+test("mergeConfig merges pages by pageType", () => {
+  assert.deepEqual(
+    mergeConfig(
+      { pages: [{ pageType: "homepage", ads: 1 }] },
+      { pages: [{ pageType: "article" }, { pageType: "homepage", ads: 2 }] }
+    ),
+    { pages: [{ pageType: "homepage", ads: 2 }, { pageType: "article" }] }
+  );
+});
@@ -0,0 +1,215 @@
+/**
+ * Configuration Templates
+ *
+ * Base templates hold the values many publishers share (e.g. the 'homepage' page entry). A
+ * configuration names its template in 'extends' and only stores what it overrides. Templates are
+ * documents like any other ('template-<name>.json'), so they have versions and history, and may
+ * themselves extend another template.
+ *
+ * Resolving a configuration deep-merges it over its template:
+ * - Objects are merged key by key.
+ * - Arrays of objects with a 'pageType' (e.g. 'pages') are merged item by item, matched by
+ *   'pageType'. Inherited items keep their order; new ones are appended.
+ * - Any other value, including other arrays, replaces the inherited one.
+ */
+
+import { isUnsafeKey } from "./patch.js";
+import { ValidationIssue } from "./schemas/index.js";
+
+/** Matches template filenames and captures the template name. */
+const TEMPLATE_FILE_PATTERN = /^template-([a-z0-9][a-z0-9-]*)\.json$/;
+
+/** Valid template names, e.g. 'base' or 'news-sites'. */
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/** Fields that identify a single publisher, so templates cannot set them. */
+const PUBLISHER_ONLY_FIELDS = ["publisherId", "aliasName", "isActive"];
+
+/**
+ * Raised when a configuration cannot be resolved: its template does not exist, the name is invalid,
+ * or templates extend each other in a cycle.
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+/**
+ * Reads the current content of a document, or null if it does not exist.
+ */
+export type DocumentLoader = (filename: string) => Promise<unknown | null>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks whether every item of an array is an object keyed by 'pageType'.
+ */
+const isKeyedArray = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) &&
+  value.every((item) => isObject(item) && typeof item.pageType === "string");
+
+/**
+ * Checks whether a string is a valid template name.
+ *
+ * @param name - The name to check.
+ */
+export const isTemplateName = (name: unknown): name is string =>
+  typeof name === "string" && TEMPLATE_NAME_PATTERN.test(name);
+
+/**
+ * Derives the data filename of a template, e.g. 'base' -> 'template-base.json'.
+ *
+ * @param name - The template name.
+ * @returns The data filename.
+ */
+export const getTemplateFilename = (name: string) => `template-${name}.json`;
+
+/**
+ * Returns the template name of a template filename.
+ *
+ * @param filename - The data filename.
+ * @returns The name, or null if the file is not a template.
+ */
+export const getTemplateName = (filename: string) =>
+  TEMPLATE_FILE_PATTERN.exec(filename)?.[1] ?? null;
+
+/**
+ * Checks whether a data file is a template.
+ *
+ * @param filename - The data filename.
+ */
+export const isTemplateFilename = (filename: string) =>
+  getTemplateName(filename) !== null;
+
+/**
+ * Returns the name of the template a configuration extends.
+ *
+ * @param content - The stored configuration.
+ * @returns The template name, or null if it does not extend one.
+ */
+export const getExtendedTemplate = (content: unknown) =>
+  isObject(content) && typeof content.extends === "string"
+    ? content.extends
+    : null;
+
+/**
+ * Deep-merges overrides over inherited values (see the rules above).
+ *
+ * @param base - The inherited value (left untouched).
+ * @param override - The overriding value (left untouched).
+ * @returns The merged copy.
+ * @throws {TemplateError} If the overrides use a reserved key such as '__proto__'.
+ */
+export const mergeConfig = (base: unknown, override: unknown): unknown => {
+  if (isObject(base) && isObject(override)) {
+    const merged: Record<string, unknown> = structuredClone(base);
+    Object.entries(override).forEach(([key, value]) => {
+      if (isUnsafeKey(key)) {
+        throw new TemplateError(`Overrides use the reserved key '${key}'`);
+      }
+      merged[key] = Object.prototype.hasOwnProperty.call(base, key)
+        ? mergeConfig(base[key], value)
+        : structuredClone(value);
+    });
+    return merged;
+  }
+
+  if (isKeyedArray(base) && isKeyedArray(override)) {
+    const merged = base.map((item) => {
+      const match = override.find((other) => other.pageType === item.pageType);
+      return match ? mergeConfig(item, match) : structuredClone(item);
+    });
+    override
+      .filter((item) => !base.some((other) => other.pageType === item.pageType))
+      .forEach((item) => merged.push(structuredClone(item)));
+    return merged;
+  }
+
+  return structuredClone(override);
+};
+
+/**
+ * Lists the templates a configuration inherits from, nearest first. Stops at a missing template or a
+ * cycle instead of failing.
+ *
+ * @param content - The stored configuration.
+ * @param load - Reads documents by filename.
+ * @returns The template names.
+ */
+export const getTemplateChain = async (
+  content: unknown,
+  load: DocumentLoader
+) => {
+  const chain: string[] = [];
+  let name = getExtendedTemplate(content);
+  while (name && isTemplateName(name) && !chain.includes(name)) {
+    chain.push(name);
+    name = getExtendedTemplate(await load(getTemplateFilename(name)));
+  }
+  return chain;
+};
+
+/**
+ * Resolves a configuration: merges it over its template, which is resolved first. The result no longer
+ * has 'extends'. Configurations without a template are returned as a copy.
+ *
+ * @param filename - The document's filename, used to detect templates extending themselves.
+ * @param content - The stored configuration.
+ * @param load - Reads documents by filename.
+ * @returns The fully merged configuration.
+ * @throws {TemplateError} If a template is missing, misnamed or part of a cycle.
+ */
+export const resolveConfig = async (
+  filename: string,
+  content: unknown,
+  load: DocumentLoader
+): Promise<unknown> => {
+  const ownName = getTemplateName(filename);
+  const resolve = async (
+    document: unknown,
+    seen: string[]
+  ): Promise<unknown> => {
+    if (!isObject(document) || document.extends === undefined) {
+      return structuredClone(document);
+    }
+
+    const name = document.extends;
+    if (!isTemplateName(name)) {
+      throw new TemplateError(`'${String(name)}' is not a valid template name`);
+    }
+    if (seen.includes(name)) {
+      throw new TemplateError(
+        `Templates extend each other in a cycle: ${[...seen, name].join(
+          " -> "
+        )}`
+      );
+    }
+    const template = await load(getTemplateFilename(name));
+    if (template === null) {
+      throw new TemplateError(`Template '${name}' does not exist`);
+    }
+
+    const overrides = { ...document };
+    delete overrides.extends;
+    return mergeConfig(await resolve(template, [...seen, name]), overrides);
+  };
+
+  return resolve(content, ownName ? [ownName] : []);
+};
+
+/**
+ * Reports the fields a template sets that only a publisher may set.
+ *
+ * @param content - The template content.
+ * @returns The validation issues (empty when there are none).
+ */
+export const getTemplateIssues = (content: unknown): ValidationIssue[] =>
+  isObject(content)
+    ? PUBLISHER_ONLY_FIELDS.filter((key) => key in content).map((key) => ({
+        path: key,
+        message: "cannot be set in a template",
+      }))
+    : [];
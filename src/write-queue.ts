@@ -0,0 +1,34 @@
+/**
+ * Per-file Write Queue
+ *
+ * Serializes read-modify-write sequences per data file, so concurrent saves of the same publisher
+ * run one after another (and never compute the same version number), while saves of different
+ * publishers still run in parallel.
+ */
+
+/** Tail of the pending work chain for each key. */
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Runs a task once every task previously queued for the same key has settled.
+ *
+ * @param key - The queue key, usually the data filename.
+ * @param task - The work to run exclusively.
+ * @returns The task's result.
+ */
+export const runExclusive = <T>(
+  key: string,
+  task: () => Promise<T>
+): Promise<T> => {
+  const previous = queues.get(key) || Promise.resolve();
+  const result = previous.then(task, task);
+  const tail = result.catch(() => undefined);
+
+  queues.set(key, tail);
+  tail.then(() => {
+    // Drop the entry once nothing else was queued behind this task
+    if (queues.get(key) === tail) queues.delete(key);
+  });
+
+  return result;
+};